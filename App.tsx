@@ -1,44 +1,57 @@
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { Play, Square, RefreshCw, Settings, Send, Radio, Activity, Plus, Usb, AlertTriangle, ArrowRightLeft, Hash, X, ArrowDownToLine, Monitor, ShieldCheck, Loader2, Clock, BarChart2 } from 'lucide-react';
-import { SerialConfig, ConnectionStatus, LogEntry, ChartDataPoint } from './types';
+import { Play, Pause, Square, RefreshCw, Settings, Send, Radio, Activity, Plus, Usb, AlertTriangle, ArrowRightLeft, Hash, X, ArrowDownToLine, Monitor, ShieldCheck, Loader2, Clock, BarChart2, FlaskConical, Pencil } from 'lucide-react';
+import { SerialConfig, ConnectionStatus, LogEntry, ChartDataPoint, LogRecord, SerialTransport, MockDeviceConfig, FrameDefinition, ChecksumConfig, SweepFailurePolicy, SweepTrace, SweepTraceConfig, SweepStats, SessionRecording, SessionEvent, ModbusSweepConfig, TerminalDisplayMode, LineEnding, PayloadMode, SavedCommand, Sequence, SequenceResult, SweepPlanConfig, TransportInfo, FieldFormat, FrequencyMapping, DeviceSettings, DeviceProfile, ExtraPort, PortTraffic, MAIN_PORT_ID, LogDirection, FrameRejectReason, LinkStats } from './types';
 import { 
   formatHexString, 
   hexToUint8Array, 
   uint8ArrayToHex, 
-  bytesToDecimal, 
-  decimalToBytes 
+  rawToHex,
+  DEFAULT_FIELD_FORMAT
 } from './utils/hexUtils';
+import { RangeEntry, rawToX, rawStep, convertUnit, entryUnits, quantizeRangeEntry, formatQuantity, describeFrequencyMapping } from './utils/frequencyMapping';
+import { DEFAULT_FRAME_DEFINITION, compileFrameDefinition, dissectFrame, describeFrameDefinition } from './utils/frameParser';
+import { applyChecksum } from './utils/checksum';
+import { buildSweepFrame } from './utils/frameBuilder';
+import { buildScheduleFromSettings, checkSweepFrames, rxValueFormat, describeRxSource, sweepTraceConfig } from './utils/sweepSettings';
+import { RxParseEvent, createRxParser } from './utils/rxParser';
+import { SweepEngine, createSweepEngine } from './services/sweepEngine';
+import { SweepSchedule, passOfIndex, describeSweepPlan } from './utils/sweepPlan';
+import { nextTraceColor } from './utils/traceUtils';
+import { saveTextFile, fileTimestamp } from './utils/fileUtils';
+import { LogExportFormat, LOG_EXPORT_FORMATS, formatLogTime, serializeLogRecords } from './utils/logExport';
+import { LinkMeter, LatencyBin, createLinkMeter, latencyHistogram, describeLinkStats } from './utils/linkStats';
+import { loadStoredSettings, storeSettings, loadStoredProfiles, storeProfiles, serializeProfiles, parseProfiles, mergeProfiles, sameSettings } from './utils/deviceProfiles';
+import { LINE_ENDINGS, LineSplitter, encodeText, unescapeText, createLineSplitter } from './utils/textUtils';
+import { loadStoredSequence, storeSequence, serializeSequence, parseSequence, validateSequence, describeSequenceResult } from './utils/sequence';
+import { commandToHex, loadCommandLibrary, storeCommandLibrary, serializeCommandLibrary, parseCommandLibrary, mergeCommands } from './utils/commandLibrary';
+import { SweepExportFormat, buildSweepExport, serializeSweepExport, parseSweepFile } from './utils/sweepExport';
+import { ResonanceOptions } from './utils/resonance';
+import { SequenceRunner, createSequenceRunner } from './services/sequenceRunner';
+import { SessionRecorder, SessionPlayer, createSessionRecorder, createSessionPlayer, parseSessionRecording, sessionDurationMs } from './services/session';
+import { ModbusRequest, ModbusResponse, buildModbusRequest, parseModbusRequest, parseModbusResponse, describeModbusRequest, describeModbusResponse } from './utils/modbus';
 import { Terminal } from './components/Terminal';
 import { ChartPanel } from './components/ChartPanel';
-
-// Web Serial API Type Definitions
-interface SerialPort {
-  readable: ReadableStream<Uint8Array> | null;
-  writable: WritableStream<Uint8Array> | null;
-  open(options: {
-    baudRate: number;
-    dataBits?: number;
-    stopBits?: number;
-    parity?: 'none' | 'even' | 'odd';
-  }): Promise<void>;
-  close(): Promise<void>;
-  getInfo(): { usbVendorId?: number; usbProductId?: number };
-}
-
-declare global {
-  interface Navigator {
-    serial: {
-      requestPort(options?: any): Promise<SerialPort>;
-      getPorts(): Promise<SerialPort[]>;
-      addEventListener(type: string, listener: (e: any) => void): void;
-      removeEventListener(type: string, listener: (e: any) => void): void;
-    };
-  }
-}
+import { FrameDefinitionEditor } from './components/FrameDefinitionEditor';
+import { ChecksumFields } from './components/ChecksumFields';
+import { FieldFormatSelect } from './components/FieldFormatSelect';
+import { FrequencyMappingFields } from './components/FrequencyMappingFields';
+import { SessionPanel } from './components/SessionPanel';
+import { ModbusPanel } from './components/ModbusPanel';
+import { CommandLibrary } from './components/CommandLibrary';
+import { SequencePanel } from './components/SequencePanel';
+import { ProfileBar } from './components/ProfileBar';
+import { PortsPanel } from './components/PortsPanel';
+import { LinkStatsPanel } from './components/LinkStatsPanel';
+import { WebSerialPort, isWebSerialSupported, describeWebSerialPort, isSameDevice, createWebSerialTransport } from './services/webSerialTransport';
+import { MockTransport, MockScript, createMockTransport, createMockScriptForSettings } from './services/mockTransport';
 
 // Default instruction: 05 43 46 0D 46 04 00 0D
 const DEFAULT_HEX = "05 43 46 0D 46 04 00 0D";
-const DEFAULT_BAUD = 115200;
+const MOCK_PORT_INDEX = -1; // Port selector value for the in-browser mock device
+const RECONNECT_ATTEMPTS = 5;
+const RECONNECT_DELAY_MS = 500;
+const MAX_LOG_ENTRIES = 250_000; // Terminal history; the export keeps everything
+const LOG_TRIM_BLOCK = 25_000;
 
 export default function App() {
   // Browser Support & Environment Check
@@ -46,65 +59,163 @@ export default function App() {
   const [isIframe, setIsIframe] = useState(false);
 
   // Serial Port State
-  const [port, setPort] = useState<SerialPort | null>(null);
-  const [knownPorts, setKnownPorts] = useState<SerialPort[]>([]);
+  const [transport, setTransport] = useState<SerialTransport | null>(null);
+  const [knownPorts, setKnownPorts] = useState<WebSerialPort[]>([]);
   const [selectedPortIndex, setSelectedPortIndex] = useState<number>(0);
   const [status, setStatus] = useState<ConnectionStatus>(ConnectionStatus.DISCONNECTED);
   const [reader, setReader] = useState<ReadableStreamDefaultReader<Uint8Array> | null>(null);
-  const [writer, setWriter] = useState<WritableStreamDefaultWriter<Uint8Array> | null>(null);
   
+  // Device settings and profiles, restored from the last visit
+  const [storedSettings] = useState(loadStoredSettings);
+  const initial = storedSettings.settings;
+  const [profiles, setProfiles] = useState<DeviceProfile[]>(loadStoredProfiles);
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(storedSettings.profileId);
+
   // App Config State
   const [showSettings, setShowSettings] = useState(false);
-  const [config, setConfig] = useState<SerialConfig>({
-    baudRate: DEFAULT_BAUD,
-    dataBits: 8,
-    stopBits: 1,
-    parity: 'none'
-  });
+  const [config, setConfig] = useState<SerialConfig>(initial.serial);
+  const [mockConfig, setMockConfig] = useState<MockDeviceConfig>(initial.mock);
   
   // Data State
   const [manualHex, setManualHex] = useState(DEFAULT_HEX); // Separate input for Manual
-  const [sweepBaseHex, setSweepBaseHex] = useState(DEFAULT_HEX); // Separate input for Sweep Base
+  const [manualMode, setManualMode] = useState<PayloadMode>('hex');
+  const [manualText, setManualText] = useState('*IDN?');
+  const [manualLineEnding, setManualLineEnding] = useState<LineEnding>('crlf');
+  const [commands, setCommands] = useState<SavedCommand[]>(loadCommandLibrary);
+
+  // Test Sequence
+  const [sequence, setSequence] = useState<Sequence>(loadStoredSequence);
+  const [isSequenceRunning, setIsSequenceRunning] = useState(false);
+  const [sequenceStep, setSequenceStep] = useState<number | null>(null);
+  const [sequenceResult, setSequenceResult] = useState<SequenceResult | null>(null);
+  const sequenceRunnerRef = useRef<SequenceRunner | null>(null);
+  const [sweepBaseHex, setSweepBaseHex] = useState(initial.sweepBaseHex); // Separate input for Sweep Base
+  const [txChecksum, setTxChecksum] = useState<ChecksumConfig>(initial.txChecksum); // Applied to manual & sweep frames
   
-  const [logs, setLogs] = useState<LogEntry[]>([]);
-  const fullLogHistory = useRef<string[]>([]); // Stores FULL history for export
+  // Terminal entries live in a ref and are appended in place; logVersion
+  // re-renders the terminal at most once per frame, however fast RX arrives
+  const logEntriesRef = useRef<LogEntry[]>([]);
+  const [logVersion, setLogVersion] = useState(0);
+  const logFlushRef = useRef<number | null>(null);
+  const logRecordsRef = useRef<LogRecord[]>([]); // FULL history for export
+  const [terminalMode, setTerminalMode] = useState<TerminalDisplayMode>(initial.terminalMode);
+  const [rxDelimiter, setRxDelimiter] = useState(initial.rxDelimiter); // Empty = log RX chunks as they arrive
+  const rxLineSplittersRef = useRef(new Map<string, LineSplitter>()); // Per port
+  const rxLineFlushTimersRef = useRef(new Map<string, number>());
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
+  const chartDataRef = useRef<ChartDataPoint[]>([]); // Source of truth while a sweep appends points
+  const [traces, setTraces] = useState<SweepTrace[]>([]); // Sweep history
+  const traceCountRef = useRef(0);
+  // priorDurationMs / runStartedAt keep pauses out of the duration; appendTo = trace the run extends
+  const sweepMetaRef = useRef<{ startedAt: Date; finishedAt: Date | null; config: SweepTraceConfig; priorDurationMs: number; runStartedAt: Date; appendTo?: string } | null>(null);
+  const replacePointsRef = useRef(false); // Re-measured points replace the old value at the same X and pass
   const [lastReceivedValue, setLastReceivedValue] = useState<number | null>(null);
   const [isRxInvalid, setIsRxInvalid] = useState(false); // Used to display "INVALID"
   
   // Statistics State
-  const [stats, setStats] = useState({ tx: 0, rx: 0, invalid: 0 });
+  const [stats, setStats] = useState<SweepStats>({ tx: 0, rx: 0, invalid: 0 });
+  const statsRef = useRef<SweepStats>(stats); // Read synchronously when a sweep finishes
   const [elapsedTime, setElapsedTime] = useState("00:00:00");
   const startTimeRef = useRef<number | null>(null);
 
   // Sweep / Auto Send Logic State
   const [isAutoSending, setIsAutoSending] = useState(false);
-  const [autoIntervalMs, setAutoIntervalMs] = useState(100);
+  const [autoIntervalMs, setAutoIntervalMs] = useState(initial.autoIntervalMs);
   const [isRetrying, setIsRetrying] = useState(false); // UI State for visual feedback
+  const [responseTimeoutMs, setResponseTimeoutMs] = useState(initial.responseTimeoutMs);
+  const [maxRetries, setMaxRetries] = useState(initial.maxRetries);
+  const [failurePolicy, setFailurePolicy] = useState<SweepFailurePolicy>(initial.failurePolicy);
   
   // Sweep Configuration
-  const [rangeStartHex, setRangeStartHex] = useState<string>("0000");
-  const [rangeEndHex, setRangeEndHex] = useState<string>("00C8"); // 200 decimal
-  const [incrementStep, setIncrementStep] = useState<number>(3);
+  const [rangeStartHex, setRangeStartHex] = useState<string>(initial.rangeStartHex);
+  const [rangeEndHex, setRangeEndHex] = useState<string>(initial.rangeEndHex);
+  const [incrementStep, setIncrementStep] = useState<number>(initial.incrementStep);
+  const [sweepPlan, setSweepPlan] = useState<SweepPlanConfig>(initial.sweepPlan);
+  const [freqMapping, setFreqMapping] = useState<FrequencyMapping>(initial.freqMapping);
+  const [rangeEntry, setRangeEntry] = useState<RangeEntry>({ unit: 'raw', start: '', stop: '', step: '' });
   
   // Byte Manipulation Config (TX)
-  const [targetByteIndex, setTargetByteIndex] = useState<number>(3); // Index of the first byte to modify
-  const [isBigEndian, setIsBigEndian] = useState<boolean>(true); // true = High First
+  const [targetByteIndex, setTargetByteIndex] = useState<number>(initial.targetByteIndex); // Index of the first byte to modify
+  const [isBigEndian, setIsBigEndian] = useState<boolean>(initial.txBigEndian); // true = High First
+  const [txFormat, setTxFormat] = useState<FieldFormat>(initial.txFormat);
 
   // Byte Parsing Config (RX)
-  const [rxByteIndex, setRxByteIndex] = useState<number>(6); // Default to 7th byte (Index 6)
-  const [rxIsBigEndian, setRxIsBigEndian] = useState<boolean>(true); // Default High First
-  const [enableHeaderCheck, setEnableHeaderCheck] = useState<boolean>(true); // Strict Validation DEFAULT TRUE
+  const [rxByteIndex, setRxByteIndex] = useState<number>(initial.rxByteIndex); // Default to 7th byte (Index 6)
+  const [rxIsBigEndian, setRxIsBigEndian] = useState<boolean>(initial.rxBigEndian); // Default High First
+  const [rxFormat, setRxFormat] = useState<FieldFormat>(initial.rxFormat); // Manual index mode; strict mode uses the frame definition
+  const [enableHeaderCheck, setEnableHeaderCheck] = useState<boolean>(initial.strictValidation); // Strict Validation DEFAULT TRUE
+  const [frameDef, setFrameDef] = useState<FrameDefinition>(initial.frameDef);
+  const [showFrameEditor, setShowFrameEditor] = useState(false);
+  const compiledFrameDef = useMemo(() => {
+    try {
+      return compileFrameDefinition(frameDef);
+    } catch {
+      return compileFrameDefinition(DEFAULT_FRAME_DEFINITION); // Unreadable hex, e.g. from a session file
+    }
+  }, [frameDef]);
+  const rxParser = useMemo(
+    () => createRxParser({ frameDef, strictValidation: enableHeaderCheck, rxByteIndex, rxFormat, rxBigEndian: rxIsBigEndian }, compiledFrameDef),
+    [frameDef, compiledFrameDef, enableHeaderCheck, rxByteIndex, rxFormat, rxIsBigEndian]
+  );
+
+  // Modbus RTU: when enabled, RX is parsed as responses to the outstanding request
+  const [modbusEnabled, setModbusEnabled] = useState(initial.modbus.enabled);
+  const [modbusSweep, setModbusSweep] = useState<ModbusSweepConfig>(initial.modbus.sweep);
+  const modbusPendingRef = useRef<{
+    request: ModbusRequest;
+    resolve: (response: ModbusResponse | null) => void;
+    timer: number | null;
+  } | null>(null);
   
   const [counter, setCounter] = useState(0); 
 
   // Refs for loop management and data correlation
-  const autoSendTimerRef = useRef<number | null>(null);
-  const counterRef = useRef(0);
+  const sweepEngineRef = useRef<SweepEngine | null>(null);
   const pendingFrequencyRef = useRef<number | null>(null); // Stores the Freq of the sent command
-  const lastSentHexRef = useRef<string | null>(null); // Stores the last sent hex for retry logic
-  const waitingForResponseRef = useRef<boolean>(false); // Lock-step mechanism
-  const portRef = useRef<SerialPort | null>(null);
+  const pendingPassRef = useRef(0); // Pass of the point in flight (hysteresis / repeats)
+  const pendingRawRef = useRef(0); // Raw code of the point in flight, for the log history
+  const activeScheduleRef = useRef<SweepSchedule | null>(null);
+  const activeStopIndexRef = useRef(0); // Exclusive end of the running point range
+
+  // Partial runs: point range (1-based, inclusive; null = last) and the trace to extend
+  const [runFrom, setRunFrom] = useState(1);
+  const [runTo, setRunTo] = useState<number | null>(null);
+  const [runTarget, setRunTarget] = useState<string>('new');
+  const [sweepProgress, setSweepProgress] = useState<{ index: number; pass: number } | null>(null);
+  const waitingForResponseRef = useRef<boolean>(false); // Set while the engine awaits a valid packet
+  const transportRef = useRef<SerialTransport | null>(null);
+  const activePortRef = useRef<WebSerialPort | null>(null); // Web Serial port behind the open transport
+
+  // Extra ports open next to the main one. The sweep sends on the TX port and
+  // charts frames parsed from the RX port; other ports are only logged.
+  const [extraPorts, setExtraPorts] = useState<ExtraPort[]>([]);
+  const extraReadersRef = useRef(new Map<string, ReadableStreamDefaultReader<Uint8Array>>());
+  const extraPortCountRef = useRef(1);
+  const [txPortId, setTxPortId] = useState(MAIN_PORT_ID);
+  const [rxPortId, setRxPortId] = useState(MAIN_PORT_ID);
+  const portTrafficRef = useRef<Record<string, PortTraffic>>({}); // Read on render; RX re-renders via the log
+
+  // Request-to-response latency and throughput on the routed TX/RX ports
+  const linkMeterRef = useRef<LinkMeter>(createLinkMeter());
+  const [linkStats, setLinkStats] = useState<{ stats: LinkStats; histogram: LatencyBin[] } | null>(null);
+
+  // USB drop-outs: the lost device is reopened when it reappears, and the
+  // sweep that was running can be resumed from the point in flight
+  const [lostDevice, setLostDevice] = useState<{ info: TransportInfo; since: Date } | null>(null);
+  const lostDeviceRef = useRef<TransportInfo | null>(null);
+  // Routes the sweep ran on; it only resumes on the same ones
+  const [suspendedSweep, setSuspendedSweep] = useState<{
+    schedule: SweepSchedule; index: number; stopIndex: number; reason: 'paused' | 'interrupted'; txPortId: string; rxPortId: string;
+  } | null>(null);
+  const suspendingSweepRef = useRef(false); // Set while the engine is stopped for a suspend
+
+  // Session Recording / Replay
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const [isRecording, setIsRecording] = useState(false);
+  const [loadedSession, setLoadedSession] = useState<{ name: string; recording: SessionRecording } | null>(null);
+  const [replaySpeed, setReplaySpeed] = useState(1);
+  const [isReplaying, setIsReplaying] = useState(false);
+  const playerRef = useRef<SessionPlayer | null>(null);
 
   // RX Buffer for reassembling fragmented packets
   const rxBuffer = useRef<Uint8Array>(new Uint8Array(0));
@@ -122,8 +233,9 @@ export default function App() {
     }
 
     const checkSupport = async () => {
-      if (!('serial' in navigator)) {
+      if (!isWebSerialSupported()) {
         setIsSupported(false);
+        setSelectedPortIndex(MOCK_PORT_INDEX); // Nothing else to connect to
         return;
       }
       
@@ -131,7 +243,7 @@ export default function App() {
         const ports = await navigator.serial.getPorts();
         setKnownPorts(ports);
         if (ports.length > 0) {
-          setSelectedPortIndex(0);
+          setSelectedPortIndex(prev => prev === MOCK_PORT_INDEX ? prev : 0);
         }
       } catch (e) {
         console.error("Failed to get ports", e);
@@ -139,23 +251,42 @@ export default function App() {
     };
     checkSupport();
 
-    const handlePortChange = () => {
+    // The event target is the port that came or went
+    const handleConnect = (e: any) => {
       checkSupport();
+      if (e?.target) portConnectedRef.current(e.target);
+    };
+    const handleDisconnect = (e: any) => {
+      checkSupport();
+      if (e?.target && e.target === activePortRef.current) portLostRef.current('device removed');
     };
 
-    if ('serial' in navigator) {
-      navigator.serial.addEventListener('connect', handlePortChange);
-      navigator.serial.addEventListener('disconnect', handlePortChange);
+    if (isWebSerialSupported()) {
+      navigator.serial.addEventListener('connect', handleConnect);
+      navigator.serial.addEventListener('disconnect', handleDisconnect);
     }
     
     return () => {
-      if ('serial' in navigator) {
-        navigator.serial.removeEventListener('connect', handlePortChange);
-        navigator.serial.removeEventListener('disconnect', handlePortChange);
+      if (isWebSerialSupported()) {
+        navigator.serial.removeEventListener('connect', handleConnect);
+        navigator.serial.removeEventListener('disconnect', handleDisconnect);
       }
     };
   }, []);
 
+  // ---------------------------------------------------------------------------
+  // Link Timing: refreshed once a second while a port can send
+  // ---------------------------------------------------------------------------
+  const refreshLinkStats = () => {
+    const meter = linkMeterRef.current;
+    setLinkStats({ stats: meter.stats(), histogram: latencyHistogram(meter.samples()) });
+  };
+
+  const resetLinkStats = () => {
+    linkMeterRef.current.reset();
+    refreshLinkStats();
+  };
+
   // ---------------------------------------------------------------------------
   // Timer for Sweep Stats
   // ---------------------------------------------------------------------------
@@ -181,69 +312,84 @@ export default function App() {
   // ---------------------------------------------------------------------------
   // Helper: Logging & Export
   // ---------------------------------------------------------------------------
-  const getTimestamp = () => {
-    const now = new Date();
-    return `${now.getHours().toString().padStart(2, '0')}:${now.getMinutes().toString().padStart(2, '0')}:${now.getSeconds().toString().padStart(2, '0')}.${now.getMilliseconds().toString().padStart(3, '0')}`;
-  };
+  // TX/RX data is hex; `sweep` ties a frame to the sweep point it carries,
+  // `port` tags entries of extra ports (main port entries stay untagged)
+  // UI entries are capped high and trimmed in blocks so it stays cheap
+  const pushLogEntry = useCallback((entry: Omit<LogEntry, 'id' | 'timestamp'>, time: number) => {
+    const entries = logEntriesRef.current;
+    entries.push({ id: crypto.randomUUID(), timestamp: formatLogTime(time), ...entry });
+    if (entries.length > MAX_LOG_ENTRIES) entries.splice(0, LOG_TRIM_BLOCK);
+
+    if (logFlushRef.current === null) {
+      logFlushRef.current = requestAnimationFrame(() => {
+        logFlushRef.current = null;
+        setLogVersion(v => v + 1);
+      });
+    }
+  }, []);
+
+  const addLog = useCallback((type: LogDirection & LogEntry['type'], data: string, extra: { sweep?: LogRecord['sweep']; port?: string } = {}) => {
+    const { sweep } = extra;
+    const port = extra.port === MAIN_PORT_ID ? undefined : extra.port;
+    const now = Date.now();
 
-  const addLog = useCallback((type: LogEntry['type'], data: string) => {
-    const timeStr = getTimestamp();
-    
     // 1. Update Full History (Memory)
-    const logLine = `[${timeStr}] ${type.toUpperCase().padEnd(5)}: ${data}`;
-    fullLogHistory.current.push(logLine);
-
-    // 2. Update UI State (Capped)
-    setLogs(prev => {
-      const newLogs = [...prev, {
-        id: crypto.randomUUID(),
-        timestamp: timeStr,
-        type,
-        data
-      }];
-      if (newLogs.length > 500) return newLogs.slice(newLogs.length - 500); 
-      return newLogs;
+    const isFrame = type === 'tx' || type === 'rx';
+    logRecordsRef.current.push({
+      time: now,
+      direction: type,
+      ...(isFrame ? { bytes: data } : { text: data }),
+      ...(port ? { port } : {}),
+      ...(sweep ? { sweep } : {})
     });
-  }, []);
 
-  const handleExportLogs = async () => {
-    if (fullLogHistory.current.length === 0) {
+    // 2. Update UI entries
+    pushLogEntry({ type, data, ...(port ? { port } : {}) }, now);
+  }, [pushLogEntry]);
+
+  // Frames found by the parser, split into their fields. Terminal only: the
+  // export already has the raw RX bytes and the decoded DATA records.
+  const addFrameLog = (bytes: Uint8Array, rejectReason?: FrameRejectReason) => {
+    const frame = dissectFrame(bytes, compiledFrameDef, rxIsBigEndian, rejectReason);
+    const port = rxPortId === MAIN_PORT_ID ? undefined : rxPortId;
+    pushLogEntry({ type: 'frame', data: uint8ArrayToHex(bytes), frame, ...(port ? { port } : {}) }, Date.now());
+  };
+
+  const bumpTraffic = (port: string, key: keyof PortTraffic, bytes: number) => {
+    const traffic = portTrafficRef.current[port] ?? { txBytes: 0, rxBytes: 0 };
+    portTrafficRef.current[port] = { ...traffic, [key]: traffic[key] + bytes };
+  };
+
+  const bumpStat = (key: keyof SweepStats) => {
+    statsRef.current = { ...statsRef.current, [key]: statsRef.current[key] + 1 };
+    setStats(statsRef.current);
+  };
+
+  const handleExportLogs = async (format: LogExportFormat) => {
+    if (logRecordsRef.current.length === 0) {
       alert("No logs to export.");
       return;
     }
 
-    const content = fullLogHistory.current.join('\n');
+    // Timing summary over the whole measurement goes last
+    const link = linkMeterRef.current.stats(0);
+    const records = link.tx.frames > 0 || link.rx.frames > 0
+      ? [...logRecordsRef.current, { time: Date.now(), direction: 'info' as const, text: describeLinkStats(link), link }]
+      : logRecordsRef.current;
+    const content = serializeLogRecords(records, format);
+    const { extension, mimeType, description } = LOG_EXPORT_FORMATS[format];
     
     try {
-      // Use File System Access API if available
-      if ('showSaveFilePicker' in window) {
-        const handle = await (window as any).showSaveFilePicker({
-          suggestedName: 'serial_logs.txt',
-          types: [{
-            description: 'Text Files',
-            accept: { 'text/plain': ['.txt'] },
-          }],
-        });
-        const writable = await handle.createWritable();
-        await writable.write(content);
-        await writable.close();
-        addLog('info', 'Logs saved to file.');
-      } else {
-        // Fallback for browsers without File System API
-        const blob = new Blob([content], { type: 'text/plain' });
-        const url = URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.href = url;
-        a.download = 'serial_logs.txt';
-        a.click();
-        URL.revokeObjectURL(url);
-        addLog('info', 'Logs downloaded.');
-      }
+      const saved = await saveTextFile(content, {
+        suggestedName: `serial_logs${extension}`,
+        description,
+        mimeType,
+        extension
+      });
+      if (saved) addLog('info', 'Logs saved to file.');
     } catch (err: any) {
-      if (err.name !== 'AbortError') {
-        console.error("Export failed:", err);
-        addLog('error', `Export failed: ${err.message}`);
-      }
+      console.error("Export failed:", err);
+      addLog('error', `Export failed: ${err.message}`);
     }
   };
 
@@ -271,133 +417,611 @@ export default function App() {
     }
   };
 
+  const buildMockScript = (): MockScript => createMockScriptForSettings(deviceSettings);
+
+  // Keep the mock device in sync with the TX layout and mock settings while connected
+  useEffect(() => {
+    if (transport?.kind !== 'mock') return;
+    const mock = transport as MockTransport;
+    mock.setScript(buildMockScript());
+    mock.setTiming(mockConfig);
+  }, [transport, mockConfig, rangeStartHex, rangeEndHex, targetByteIndex, isBigEndian, txFormat, modbusSweep.slaveId]);
+
   const openPort = async () => {
-    if (!isSupported) {
-      alert("Web Serial API is not supported in this browser.");
-      return;
-    }
+    let target: SerialTransport;
+    let port: WebSerialPort | null = null;
 
-    let targetPort = knownPorts[selectedPortIndex];
+    if (selectedPortIndex === MOCK_PORT_INDEX) {
+      target = createMockTransport(buildMockScript(), mockConfig);
+    } else {
+      if (!isSupported) {
+        alert("Web Serial API is not supported in this browser.");
+        return;
+      }
 
-    if (!targetPort) {
-      try {
-        targetPort = await navigator.serial.requestPort();
-        const currentPorts = await navigator.serial.getPorts();
-        setKnownPorts(currentPorts);
-        const idx = currentPorts.indexOf(targetPort);
-        if (idx !== -1) setSelectedPortIndex(idx);
-      } catch (err: any) {
-        if (err.name === 'NotFoundError') return; 
-        if (err.name === 'SecurityError') {
-           alert("Permission Blocked by Editor Preview.\n\nPlease find the 'Open in New Window' or 'Pop out' button.");
-           return;
+      let targetPort = knownPorts[selectedPortIndex];
+      let targetIndex = selectedPortIndex;
+
+      if (!targetPort) {
+        try {
+          targetPort = await navigator.serial.requestPort();
+          const currentPorts = await navigator.serial.getPorts();
+          setKnownPorts(currentPorts);
+          const idx = currentPorts.indexOf(targetPort);
+          if (idx !== -1) {
+            setSelectedPortIndex(idx);
+            targetIndex = idx;
+          }
+        } catch (err: any) {
+          if (err.name === 'NotFoundError') return; 
+          if (err.name === 'SecurityError') {
+             alert("Permission Blocked by Editor Preview.\n\nPlease find the 'Open in New Window' or 'Pop out' button.");
+             return;
+          }
+          alert(`Failed to select port: ${err.message}`);
+          return; 
         }
-        alert(`Failed to select port: ${err.message}`);
-        return; 
       }
-    }
 
-    if (!targetPort) return;
+      if (!targetPort) return;
+      port = targetPort;
+      target = createWebSerialTransport(targetPort, describeWebSerialPort(targetPort, targetIndex));
+    }
 
     try {
       setStatus(ConnectionStatus.CONNECTING);
       
-      await targetPort.open({
-        baudRate: config.baudRate,
-        dataBits: config.dataBits,
-        stopBits: config.stopBits,
-        parity: config.parity
-      });
+      await target.open(config);
 
-      setPort(targetPort);
-      portRef.current = targetPort;
-      
-      if (targetPort.writable) {
-        const writer = targetPort.writable.getWriter();
-        setWriter(writer);
-      }
+      setTransport(target);
+      transportRef.current = target;
+      activePortRef.current = port;
+      lostDeviceRef.current = null;
+      setLostDevice(null);
 
+      portTrafficRef.current[MAIN_PORT_ID] = { txBytes: 0, rxBytes: 0 };
+      linkMeterRef.current.reset();
       setStatus(ConnectionStatus.CONNECTED);
-      const info = targetPort.getInfo();
-      addLog('info', `Connected to Port ${selectedPortIndex + 1} @ ${config.baudRate}`);
+      addLog('info', `Connected to ${target.getInfo().label} @ ${config.baudRate}`);
       
       // Clear buffer on new connection
-      rxBuffer.current = new Uint8Array(0);
-      readLoop(targetPort);
+      resetRxBuffer();
+      readLoop(target);
 
     } catch (err: any) {
       setStatus(ConnectionStatus.ERROR);
       addLog('error', `Connection failed: ${err.message}`);
       alert(`Could not connect: ${err.message}`);
-      setPort(null);
-      portRef.current = null;
+      setTransport(null);
+      transportRef.current = null;
     }
   };
 
   const disconnectPort = async () => {
-    setIsAutoSending(false);
+    if (txPortId === MAIN_PORT_ID || rxPortId === MAIN_PORT_ID) setIsAutoSending(false);
+    activePortRef.current = null;
 
     try {
       if (reader) {
         await reader.cancel();
         setReader(null);
       }
-      if (writer) {
-        writer.releaseLock();
-        setWriter(null);
-      }
-      if (port) {
-        await port.close();
-        setPort(null);
-        portRef.current = null;
+      if (transport) {
+        await transport.close();
+        setTransport(null);
+        transportRef.current = null;
       }
       setStatus(ConnectionStatus.DISCONNECTED);
       addLog('info', 'Port disconnected.');
     } catch (e: any) {
       console.error("Error closing port:", e);
       setStatus(ConnectionStatus.DISCONNECTED);
-      setPort(null);
+      setTransport(null);
+      transportRef.current = null;
+    }
+  };
+
+  // The open port vanished (cable glitch, device reset). Parks a running
+  // sweep at the point in flight and waits for the device to come back.
+  const handlePortLost = (reason: string) => {
+    const lost = transportRef.current;
+    if (!lost || lost.kind !== 'webserial') return; // Already handled
+    transportRef.current = null;
+    activePortRef.current = null;
+
+    if (txPortId === MAIN_PORT_ID || rxPortId === MAIN_PORT_ID) {
+      suspendSweep('interrupted');
+      setIsAutoSending(false);
     }
+
+    const info = lost.getInfo();
+    lostDeviceRef.current = info;
+    setLostDevice({ info, since: new Date() });
+    setTransport(null);
+    setReader(null);
+    lost.close().catch(() => {}); // Usually rejects; the port is gone
+    setStatus(ConnectionStatus.INTERRUPTED);
+    addLog('error', `Connection to ${info.label} lost (${reason}). Waiting for the device to reappear...`);
   };
+  const portLostRef = useRef(handlePortLost);
+  portLostRef.current = handlePortLost;
+
+  // A port appeared: reopen it if it is the device we lost
+  const handlePortConnected = async (port: WebSerialPort) => {
+    const lost = lostDeviceRef.current;
+    if (!lost || !isSameDevice(port, lost)) return;
+
+    const ports = await navigator.serial.getPorts();
+    const index = Math.max(0, ports.indexOf(port));
+    setKnownPorts(ports);
+    setSelectedPortIndex(index);
+    const target = createWebSerialTransport(port, describeWebSerialPort(port, index));
+    setStatus(ConnectionStatus.CONNECTING);
+
+    // The OS may still be setting the device up when the event fires
+    for (let attempt = 1; attempt <= RECONNECT_ATTEMPTS; attempt++) {
+      if (lostDeviceRef.current !== lost) return; // User connected elsewhere or gave up
+      try {
+        await target.open(config);
+      } catch (err: any) {
+        if (lostDeviceRef.current !== lost) return;
+        if (attempt === RECONNECT_ATTEMPTS) {
+          setStatus(ConnectionStatus.INTERRUPTED);
+          addLog('error', `Reconnect to ${lost.label} failed: ${err.message}`);
+          return;
+        }
+        await new Promise(resolve => setTimeout(resolve, RECONNECT_DELAY_MS));
+        continue;
+      }
+      break;
+    }
 
-  const readLoop = async (currentPort: SerialPort) => {
-    if (!currentPort.readable) return;
+    // The wait may have been cancelled while the port was opening
+    if (lostDeviceRef.current !== lost) {
+      target.close().catch(() => {});
+      return;
+    }
+    lostDeviceRef.current = null;
+    setLostDevice(null);
+    setTransport(target);
+    transportRef.current = target;
+    activePortRef.current = port;
+    resetRxBuffer();
+    setStatus(ConnectionStatus.CONNECTED);
+    addLog('info', `Reconnected to ${target.getInfo().label} @ ${config.baudRate}`);
+    readLoop(target);
+  };
+  const portConnectedRef = useRef(handlePortConnected);
+  portConnectedRef.current = handlePortConnected;
+
+  const stopWaitingForDevice = () => {
+    lostDeviceRef.current = null;
+    setLostDevice(null);
+    setStatus(ConnectionStatus.DISCONNECTED);
+    addLog('info', 'Stopped waiting for the device.');
+  };
+
+  const readLoop = async (currentTransport: SerialTransport) => {
+    if (!currentTransport.readable) return;
     
-    const portReader = currentPort.readable.getReader();
+    const portReader = currentTransport.readable.getReader();
     setReader(portReader);
 
     try {
       while (true) {
         const { value, done } = await portReader.read();
         if (done) break;
-        if (value) {
-          handleDataReceived(value);
-        }
+        if (value) portDataRef.current(MAIN_PORT_ID, value);
+      }
+    } catch (error: any) {
+      // NetworkError = the device is gone; other read errors leave the port usable
+      if (error?.name === 'NetworkError' && transportRef.current === currentTransport) {
+        portLostRef.current('read failed');
+      } else {
+        addLog('error', 'Read Error.');
       }
-    } catch (error) {
-      addLog('error', 'Read Error.');
     } finally {
       portReader.releaseLock();
     }
   };
 
-  const sendData = async (hexString: string): Promise<void> => {
-    if (!writer || status !== ConnectionStatus.CONNECTED) {
-      addLog('error', 'Port not open');
+  // ---------------------------------------------------------------------------
+  // Extra Ports & Routing
+  // ---------------------------------------------------------------------------
+  // Open transport behind a port id; null when that port is closed
+  const portTransport = (id: string): SerialTransport | null => {
+    if (id === MAIN_PORT_ID) return status === ConnectionStatus.CONNECTED ? transport : null;
+    return extraPorts.find(p => p.id === id)?.transport ?? null;
+  };
+  const txReady = portTransport(txPortId) !== null;
+  const rxReady = portTransport(rxPortId) !== null;
+
+  // Every read loop ends up here; only the RX port feeds the parser
+  const handlePortData = (port: string, chunk: Uint8Array) => {
+    bumpTraffic(port, 'rxBytes', chunk.length);
+    if (port !== rxPortId) {
+      logRxChunk(chunk, port);
       return;
     }
+    linkMeterRef.current.noteRxBytes(chunk.length);
+    recorderRef.current?.record({ kind: 'rx', data: uint8ArrayToHex(chunk) });
+    dataHandlerRef.current(chunk, port);
+  };
+  const portDataRef = useRef(handlePortData);
+  portDataRef.current = handlePortData;
+
+  const openExtraPort = async (portIndex: number, portConfig: SerialConfig) => {
+    let target: SerialTransport;
+    if (portIndex === MOCK_PORT_INDEX) {
+      target = createMockTransport(buildMockScript(), mockConfig);
+    } else {
+      let port: WebSerialPort | undefined = knownPorts[portIndex];
+      if (!port) {
+        try {
+          port = await navigator.serial.requestPort();
+          setKnownPorts(await navigator.serial.getPorts());
+        } catch (err: any) {
+          if (err.name !== 'NotFoundError') addLog('error', `Failed to select port: ${err.message}`);
+          return;
+        }
+      }
+      target = createWebSerialTransport(port, describeWebSerialPort(port, portIndex));
+    }
+
+    const id = `P${++extraPortCountRef.current}`;
+    try {
+      await target.open(portConfig);
+    } catch (err: any) {
+      addLog('error', `${id}: connection failed: ${err.message}`, { port: id });
+      return;
+    }
+    const extra: ExtraPort = { id, label: target.getInfo().label, config: portConfig, transport: target };
+    portTrafficRef.current[id] = { txBytes: 0, rxBytes: 0 };
+    setExtraPorts(prev => [...prev, extra]);
+    addLog('info', `${id}: connected to ${extra.label} @ ${portConfig.baudRate}`, { port: id });
+    extraReadLoop(extra);
+  };
+
+  const extraReadLoop = async (extra: ExtraPort) => {
+    if (!extra.transport.readable) return;
+    const portReader = extra.transport.readable.getReader();
+    extraReadersRef.current.set(extra.id, portReader);
+
+    try {
+      while (true) {
+        const { value, done } = await portReader.read();
+        if (done) break;
+        if (value) portDataRef.current(extra.id, value);
+      }
+    } catch (error: any) {
+      // A vanished device takes the port with it; no automatic reopen here
+      if (error?.name === 'NetworkError') extraPortLostRef.current(extra.id);
+      else addLog('error', `${extra.id}: read error.`, { port: extra.id });
+    } finally {
+      portReader.releaseLock();
+    }
+  };
+
+  // Routes fall back to the main port when their port goes away
+  const dropExtraPort = (id: string) => {
+    extraReadersRef.current.delete(id);
+    setExtraPorts(prev => prev.filter(p => p.id !== id));
+    if (txPortId === id) setTxPortId(MAIN_PORT_ID);
+    if (rxPortId === id) setRxPortId(MAIN_PORT_ID);
+    flushRxLine(id);
+  };
 
+  const closeExtraPort = async (id: string) => {
+    const extra = extraPorts.find(p => p.id === id);
+    if (!extra) return;
     try {
-      const data = hexToUint8Array(hexString);
-      await writer.write(data);
-      addLog('tx', formatHexString(hexString));
+      await extraReadersRef.current.get(id)?.cancel();
+      await extra.transport.close();
+    } catch (err: any) {
+      console.error("Error closing port:", err);
+    }
+    dropExtraPort(id);
+    addLog('info', `${id}: port closed.`, { port: id });
+  };
+
+  const handleExtraPortLost = (id: string) => {
+    const extra = extraPorts.find(p => p.id === id);
+    if (!extra) return;
+    if (isAutoSending && (txPortId === id || rxPortId === id)) suspendSweep('interrupted');
+    extra.transport.close().catch(() => {}); // Usually rejects; the port is gone
+    dropExtraPort(id);
+    addLog('error', `${id}: connection to ${extra.label} lost.`, { port: id });
+  };
+  const extraPortLostRef = useRef(handleExtraPortLost);
+  extraPortLostRef.current = handleExtraPortLost;
+
+  // `raw` sends the bytes as-is, for frames that already carry their own CRC.
+  // Frames go out on the TX port.
+  const sendData = async (hexString: string, options: { sweepRaw?: number; sweepPass?: number; raw?: boolean } = {}): Promise<boolean> => {
+    const { sweepRaw, sweepPass, raw = false } = options;
+    const target = portTransport(txPortId);
+    if (!target) {
+      addLog('error', txPortId === MAIN_PORT_ID ? 'Port not open' : `${txPortId} not open`);
+      return false;
+    }
+
+    try {
+      const bytes = hexToUint8Array(hexString);
+      const data = raw ? bytes : applyChecksum(bytes, txChecksum);
+      const txHex = uint8ArrayToHex(data);
+      // Before the write: a fast reply can arrive before it resolves, and
+      // replay must see the request first
+      recorderRef.current?.record({ kind: 'tx', data: txHex, sweepRaw, sweepPass });
+      linkMeterRef.current.noteTx(data.length);
+      await target.write(data).catch(e => {
+        linkMeterRef.current.cancelTx();
+        throw e;
+      });
+      bumpTraffic(txPortId, 'txBytes', data.length);
+      addLog('tx', txHex, { sweep: sweepRaw === undefined ? undefined : sweepLogPoint(sweepRaw, sweepPass), port: txPortId });
       
       // Update TX Stats
-      setStats(prev => ({ ...prev, tx: prev.tx + 1 }));
+      bumpStat('tx');
+      return true;
 
     } catch (err: any) {
       addLog('error', `Send failed: ${err.message}`);
       setIsAutoSending(false);
+      return false;
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Device Settings & Profiles
+  // ---------------------------------------------------------------------------
+  const deviceSettings = useMemo((): DeviceSettings => ({
+    serial: config,
+    mock: mockConfig,
+    sweepBaseHex,
+    txChecksum,
+    rangeStartHex,
+    rangeEndHex,
+    incrementStep,
+    sweepPlan,
+    freqMapping,
+    targetByteIndex,
+    txBigEndian: isBigEndian,
+    txFormat,
+    rxByteIndex,
+    rxBigEndian: rxIsBigEndian,
+    rxFormat,
+    strictValidation: enableHeaderCheck,
+    frameDef,
+    autoIntervalMs,
+    responseTimeoutMs,
+    maxRetries,
+    failurePolicy,
+    modbus: { enabled: modbusEnabled, sweep: modbusSweep },
+    terminalMode,
+    rxDelimiter
+  }), [config, mockConfig, sweepBaseHex, txChecksum, rangeStartHex, rangeEndHex, incrementStep, sweepPlan, freqMapping,
+    targetByteIndex, isBigEndian, txFormat, rxByteIndex, rxIsBigEndian, rxFormat, enableHeaderCheck, frameDef,
+    autoIntervalMs, responseTimeoutMs, maxRetries, failurePolicy, modbusEnabled, modbusSweep, terminalMode, rxDelimiter]);
+
+  useEffect(() => {
+    storeSettings({ profileId: activeProfileId, settings: deviceSettings });
+  }, [deviceSettings, activeProfileId]);
+
+  useEffect(() => {
+    storeProfiles(profiles);
+  }, [profiles]);
+
+  const activeProfile = profiles.find(p => p.id === activeProfileId) ?? null;
+  const profileModified = useMemo(
+    () => activeProfile !== null && !sameSettings(activeProfile.settings, deviceSettings),
+    [activeProfile, deviceSettings]
+  );
+
+  const applyDeviceSettings = (s: DeviceSettings) => {
+    setConfig(s.serial);
+    setMockConfig(s.mock);
+    setSweepBaseHex(s.sweepBaseHex);
+    setTxChecksum(s.txChecksum);
+    setRangeStartHex(s.rangeStartHex);
+    setRangeEndHex(s.rangeEndHex);
+    setIncrementStep(s.incrementStep);
+    setSweepPlan(s.sweepPlan);
+    setFreqMapping(s.freqMapping);
+    setRangeEntry({ unit: 'raw', start: '', stop: '', step: '' });
+    setTargetByteIndex(s.targetByteIndex);
+    setIsBigEndian(s.txBigEndian);
+    setTxFormat(s.txFormat);
+    setRxByteIndex(s.rxByteIndex);
+    setRxIsBigEndian(s.rxBigEndian);
+    setRxFormat(s.rxFormat);
+    setEnableHeaderCheck(s.strictValidation);
+    setFrameDef(s.frameDef);
+    setAutoIntervalMs(s.autoIntervalMs);
+    setResponseTimeoutMs(s.responseTimeoutMs);
+    setMaxRetries(s.maxRetries);
+    setFailurePolicy(s.failurePolicy);
+    setModbusEnabled(s.modbus.enabled);
+    setModbusSweep(s.modbus.sweep);
+    setTerminalMode(s.terminalMode);
+    setRxDelimiter(s.rxDelimiter);
+  };
+
+  const selectProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    if (!profile) return;
+    applyDeviceSettings(profile.settings);
+    setActiveProfileId(id);
+    addLog('info', `Profile "${profile.name}" loaded.`);
+  };
+
+  const saveProfile = () => {
+    if (!activeProfile) return;
+    setProfiles(prev => prev.map(p => p.id === activeProfile.id ? { ...p, settings: deviceSettings } : p));
+    addLog('info', `Profile "${activeProfile.name}" saved.`);
+  };
+
+  const saveProfileAs = (name: string) => {
+    const profile: DeviceProfile = { id: crypto.randomUUID(), name, settings: deviceSettings };
+    setProfiles(prev => [...prev, profile]);
+    setActiveProfileId(profile.id);
+    addLog('info', `Profile "${name}" created.`);
+  };
+
+  // The settings stay as they are; they just no longer belong to a profile
+  const deleteProfile = (id: string) => {
+    const profile = profiles.find(p => p.id === id);
+    setProfiles(prev => prev.filter(p => p.id !== id));
+    if (activeProfileId === id) setActiveProfileId(null);
+    if (profile) addLog('info', `Profile "${profile.name}" deleted.`);
+  };
+
+  const exportProfiles = async () => {
+    try {
+      const saved = await saveTextFile(serializeProfiles(profiles), {
+        suggestedName: 'device_profiles.json',
+        description: 'Device Profiles',
+        mimeType: 'application/json',
+        extension: '.json'
+      });
+      if (saved) addLog('info', `Profiles exported (${profiles.length} profiles).`);
+    } catch (err: any) {
+      addLog('error', `Export failed: ${err.message}`);
+    }
+  };
+
+  const importProfiles = async (file: File) => {
+    try {
+      const imported = parseProfiles(await file.text());
+      setProfiles(prev => mergeProfiles(prev, imported));
+      addLog('info', `Imported ${imported.length} profile(s) from ${file.name}.`);
+      // A single shared profile is what the colleague wants to reproduce
+      if (imported.length === 1 && status !== ConnectionStatus.CONNECTED) {
+        applyDeviceSettings(imported[0].settings);
+        setActiveProfileId(imported[0].id);
+        addLog('info', `Profile "${imported[0].name}" loaded.`);
+      }
+    } catch (err: any) {
+      addLog('error', `Import of ${file.name} failed: ${err.message}`);
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Command Library
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    storeCommandLibrary(commands);
+  }, [commands]);
+
+  const sendSavedCommand = (cmd: SavedCommand) => {
+    let hex: string;
+    try {
+      hex = commandToHex(cmd);
+    } catch (err: any) {
+      addLog('error', `Command "${cmd.name}": ${err.message}`);
+      return;
+    }
+    addLog('info', `Command: ${cmd.name}`);
+    sendData(hex);
+  };
+
+  const exportCommandLibrary = async () => {
+    try {
+      const saved = await saveTextFile(serializeCommandLibrary(commands), {
+        suggestedName: 'command_library.json',
+        description: 'Command Libraries',
+        mimeType: 'application/json',
+        extension: '.json'
+      });
+      if (saved) addLog('info', `Command library exported (${commands.length} commands).`);
+    } catch (err: any) {
+      addLog('error', `Export failed: ${err.message}`);
+    }
+  };
+
+  const importCommandLibrary = async (file: File) => {
+    try {
+      const imported = parseCommandLibrary(await file.text());
+      setCommands(prev => mergeCommands(prev, imported));
+      addLog('info', `Imported ${imported.length} command(s) from ${file.name}.`);
+    } catch (err: any) {
+      addLog('error', `Import of ${file.name} failed: ${err.message}`);
+    }
+  };
+
+  // ---------------------------------------------------------------------------
+  // Test Sequence
+  // ---------------------------------------------------------------------------
+  useEffect(() => {
+    storeSequence(sequence);
+  }, [sequence]);
+
+  // The runner outlives renders; always send through the current closure
+  const sendDataRef = useRef(sendData);
+  sendDataRef.current = sendData;
+
+  const runSequence = () => {
+    const problem = validateSequence(sequence);
+    if (problem) {
+      addLog('error', `Sequence not started: ${problem}`);
+      return;
+    }
+
+    const snapshot = sequence;
+    const runner = createSequenceRunner(snapshot, {
+      send: (hex) => sendDataRef.current(hex),
+      onStep: setSequenceStep,
+      onLog: (level, step, message) => {
+        recorderRef.current?.record({ kind: 'seq-log', level, step, message });
+        addLog(level, `SEQ ${message}`);
+      },
+      onFinish: (result) => {
+        if (sequenceRunnerRef.current === runner) sequenceRunnerRef.current = null;
+        recorderRef.current?.record({ kind: 'seq-end', name: snapshot.name, result });
+        setIsSequenceRunning(false);
+        setSequenceStep(null);
+        setSequenceResult(result);
+        addLog(result.outcome === 'passed' ? 'info' : 'error', describeSequenceResult(snapshot.name, result));
+      }
+    });
+    sequenceRunnerRef.current = runner;
+    recorderRef.current?.record({ kind: 'seq-start', sequence: snapshot });
+    setSequenceResult(null);
+    setIsSequenceRunning(true);
+    addLog('info', `Sequence "${snapshot.name}" started (${snapshot.steps.length} steps).`);
+    runner.start();
+  };
+
+  const stopSequence = () => {
+    sequenceRunnerRef.current?.stop();
+  };
+
+  // A sequence cannot outlive the connection it sends on
+  useEffect(() => {
+    if (!txReady) sequenceRunnerRef.current?.stop();
+  }, [txReady]);
+
+  const exportSequence = async () => {
+    try {
+      const saved = await saveTextFile(serializeSequence(sequence), {
+        suggestedName: `${sequence.name.replace(/[^\w.-]+/g, '_') || 'sequence'}.json`,
+        description: 'Test Sequences',
+        mimeType: 'application/json',
+        extension: '.json'
+      });
+      if (saved) addLog('info', `Sequence "${sequence.name}" exported.`);
+    } catch (err: any) {
+      addLog('error', `Export failed: ${err.message}`);
+    }
+  };
+
+  const importSequence = async (file: File) => {
+    try {
+      const imported = parseSequence(await file.text());
+      setSequence(imported);
+      setSequenceResult(null);
+      addLog('info', `Loaded sequence "${imported.name}" (${imported.steps.length} steps) from ${file.name}.`);
+    } catch (err: any) {
+      addLog('error', `Import of ${file.name} failed: ${err.message}`);
     }
   };
 
@@ -405,296 +1029,810 @@ export default function App() {
   // Data Handling Logic
   // ---------------------------------------------------------------------------
   
-  const handleDataReceived = (chunk: Uint8Array) => {
-    const hexStr = uint8ArrayToHex(chunk);
-    addLog('rx', hexStr);
+  const handleDataReceived = (chunk: Uint8Array, port: string = MAIN_PORT_ID) => {
+    logRxChunk(chunk, port);
+    sequenceRunnerRef.current?.notifyRx(chunk);
+
+    if (!modbusEnabled) {
+      // The parser buffers split packets itself
+      processRxEvents(rxParser.push(chunk));
+      return;
+    }
 
     // Universal Buffering: Always accumulate chunks to handle split packets
     const newBuffer = new Uint8Array(rxBuffer.current.length + chunk.length);
     newBuffer.set(rxBuffer.current);
     newBuffer.set(chunk, rxBuffer.current.length);
     rxBuffer.current = newBuffer;
+    processModbusBuffer();
+  };
 
-    if (enableHeaderCheck) {
-       processRxBuffer();
-    } else {
-       // --- STANDARD MODE (Manual Index) ---
-       if (rxBuffer.current.length > rxByteIndex + 1) {
-         const b1 = rxBuffer.current[rxByteIndex];
-         const b2 = rxBuffer.current[rxByteIndex + 1];
-         parseAndRecord(b1, b2);
-         setStats(prev => ({ ...prev, rx: prev.rx + 1 })); // Count simple RX
-         rxBuffer.current = new Uint8Array(0); 
-       }
+  // Drops partially received packets, e.g. before a new sweep point
+  const resetRxBuffer = () => {
+    rxBuffer.current = new Uint8Array(0);
+    rxParser.reset();
+  };
+
+  // Terminal logging only: parsing below still sees the raw chunks.
+  // Each port has its own splitter, so lines from two devices never mix.
+  const logRxChunk = (chunk: Uint8Array, port: string) => {
+    const delimiter = unescapeText(rxDelimiter);
+    if (delimiter.length === 0) {
+      addLog('rx', uint8ArrayToHex(chunk), { port });
+      return;
+    }
+
+    const splitters = rxLineSplittersRef.current;
+    let splitter = splitters.get(port);
+    if (!splitter) {
+      splitter = createLineSplitter(delimiter);
+      splitters.set(port, splitter);
     }
+    splitter.push(chunk).forEach(line => addLog('rx', uint8ArrayToHex(line), { port }));
+
+    // Show a trailing partial line (e.g. a prompt) once the device goes quiet
+    const timers = rxLineFlushTimersRef.current;
+    const timer = timers.get(port);
+    if (timer !== undefined) clearTimeout(timer);
+    timers.set(port, window.setTimeout(() => flushRxLine(port), 300));
   };
 
-  const processRxBuffer = () => {
-    const HEADER = [0xFF, 0xFE, 0xFD, 0xFC, 0x02, 0x56];
-    const FOOTER = [0xFB, 0xFA, 0xF9, 0xF8]; 
-    const PACKET_LEN = 15;
+  const flushRxLine = (port: string) => {
+    const timer = rxLineFlushTimersRef.current.get(port);
+    if (timer !== undefined) clearTimeout(timer);
+    rxLineFlushTimersRef.current.delete(port);
+    const rest = rxLineSplittersRef.current.get(port)?.flush();
+    if (rest) addLog('rx', uint8ArrayToHex(rest), { port });
+  };
 
-    let buffer = rxBuffer.current;
+  // A new delimiter starts fresh splitters; pending partial lines are logged first
+  useEffect(() => {
+    const splitters = rxLineSplittersRef.current;
+    return () => {
+      Array.from(splitters.keys()).forEach(flushRxLine);
+      splitters.clear();
+    };
+  }, [rxDelimiter]);
+
+  // readLoop lives across renders; always dispatch to the current handler
+  const dataHandlerRef = useRef(handleDataReceived);
+  dataHandlerRef.current = handleDataReceived;
+
+  // Frames (strict validation) or values read at the manual index
+  const processRxEvents = (events: RxParseEvent[]) => {
     let packetFound = false;
 
-    // Scan buffer for header
-    let ptr = 0;
-    while (ptr <= buffer.length - PACKET_LEN) {
-      
-      // 1. Check Header
-      let isHeader = true;
-      for (let i = 0; i < HEADER.length; i++) {
-        if (buffer[ptr + i] !== HEADER[i]) {
-          isHeader = false;
-          break;
-        }
+    events.forEach(event => {
+      if (event.kind === 'rejected') {
+        // Footer mismatch, bad length, truncated or value out of range
+        bumpStat('invalid');
+        linkMeterRef.current.noteRxFrame();
+        addFrameLog(event.bytes, event.reason);
+        return;
+      }
+
+      if (!event.framed) {
+        // --- STANDARD MODE (Manual Index) ---
+        if (Number.isFinite(event.value)) recordValue(event.value);
+        else setIsRxInvalid(true); // NaN / Infinity float
+        bumpStat('rx'); // Count simple RX
+        linkMeterRef.current.noteResponse();
+        return;
+      }
+
+      // === VALID PACKET ===
+      packetFound = true;
+      addFrameLog(event.bytes);
+      recordValue(event.value);
+
+      // Update Stats
+      bumpStat('rx');
+      linkMeterRef.current.noteResponse();
+
+      // Unlock Loop: the engine sends the next point right away
+      waitingForResponseRef.current = false;
+      setIsRetrying(false);
+      setIsRxInvalid(false);
+      sweepEngineRef.current?.notifyResponse();
+    });
+
+    // If we are waiting for a response and didn't find a valid one yet:
+    if (enableHeaderCheck && waitingForResponseRef.current && !packetFound) {
+       setIsRxInvalid(true);
+       setLastReceivedValue(null);
+    }
+  };
+
+  // Matches buffered bytes against the outstanding Modbus request
+  const processModbusBuffer = () => {
+    const pending = modbusPendingRef.current;
+    if (!pending) {
+      rxBuffer.current = new Uint8Array(0); // Nothing asked for; drop stray bytes
+      return;
+    }
+
+    while (rxBuffer.current.length > 0) {
+      const result = parseModbusResponse(rxBuffer.current, pending.request);
+      if (result.status === 'incomplete') {
+        rxBuffer.current = rxBuffer.current.slice(result.offset);
+        return;
       }
+      if (result.status === 'crc-error') {
+        bumpStat('invalid');
+        addLog('error', 'MODBUS response CRC mismatch');
+        rxBuffer.current = rxBuffer.current.slice(result.offset + 1);
+        continue;
+      }
+
+      rxBuffer.current = rxBuffer.current.slice(result.offset + result.length);
+      const { response } = result;
+      linkMeterRef.current.noteResponse(); // Exceptions answer the request too
+      if (response.kind === 'exception') {
+        bumpStat('invalid');
+        addLog('error', describeModbusResponse(response));
+      } else {
+        bumpStat('rx');
+        addLog('info', describeModbusResponse(response));
+      }
+
+      // The sweep's read-back register feeds the chart
+      const { request } = pending;
+      if (response.kind === 'registers' && response.registers.length > 0
+        && request.fn === modbusSweep.readFunction && request.address === modbusSweep.readAddress) {
+        recordValue(response.registers[0]);
+        waitingForResponseRef.current = false;
+        setIsRetrying(false);
+        sweepEngineRef.current?.notifyResponse();
+      }
+
+      if (pending.timer !== null) clearTimeout(pending.timer);
+      modbusPendingRef.current = null;
+      pending.resolve(response);
+      return;
+    }
+  };
+
+  // Sends one request and resolves with its response, or null on timeout.
+  // RTU allows a single outstanding request, so a new one supersedes the old.
+  // `deadline` (epoch ms) caps the wait when several requests share one timeout.
+  const modbusTransact = (request: ModbusRequest, sweepTag?: { sweepRaw: number; sweepPass: number }, deadline?: number): Promise<ModbusResponse | null> => {
+    const previous = modbusPendingRef.current;
+    if (previous) {
+      if (previous.timer !== null) clearTimeout(previous.timer);
+      previous.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      const entry = {
+        request,
+        resolve,
+        timer: window.setTimeout(() => {
+          if (modbusPendingRef.current !== entry) return;
+          modbusPendingRef.current = null;
+          addLog('error', `MODBUS timeout: ${describeModbusRequest(request)}`);
+          resolve(null);
+        }, deadline === undefined ? responseTimeoutMs : Math.max(0, deadline - Date.now()))
+      };
+      modbusPendingRef.current = entry;
+      resetRxBuffer();
+
+      sendData(uint8ArrayToHex(buildModbusRequest(request)), { ...sweepTag, raw: true }).then(sent => {
+        if (sent || modbusPendingRef.current !== entry) return;
+        clearTimeout(entry.timer);
+        modbusPendingRef.current = null;
+        resolve(null);
+      });
+    });
+  };
+
+  const sendModbusRequest = (request: ModbusRequest) => {
+    addLog('info', `MODBUS request: ${describeModbusRequest(request)}`);
+    void modbusTransact(request);
+  };
+
+  const appendChartPoint = (point: ChartDataPoint) => {
+    const data = chartDataRef.current;
+    const existing = replacePointsRef.current
+      ? data.findIndex(p => p.x === point.x && (p.pass ?? 0) === (point.pass ?? 0))
+      : -1;
+    chartDataRef.current = existing === -1
+      ? [...data, point]
+      : data.map((p, i) => i === existing ? point : p);
+    setChartData(chartDataRef.current);
+  };
+
+  const recordValue = (receivedValue: number) => {
+    // Real-time value update
+    setLastReceivedValue(receivedValue);
+    setIsRxInvalid(false);
+    
+    // Correlate with the last sent frequency if available (Auto Sweep Mode)
+    if (pendingFrequencyRef.current !== null) {
+      const freq = Number(pendingFrequencyRef.current.toFixed(4));
+      
+      appendChartPoint({
+        x: freq, 
+        y: receivedValue,
+        pass: pendingPassRef.current
+      });
+
+      logRecordsRef.current.push({
+        time: Date.now(),
+        direction: 'data',
+        value: receivedValue,
+        sweep: { ...sweepLogPoint(pendingRawRef.current, pendingPassRef.current), x: freq }
+      });
+    }
+  };
+
+
+  // ---------------------------------------------------------------------------
+  // Auto Send / Loop Logic
+  // ---------------------------------------------------------------------------
+  
+  const rawToFrequency = (raw: number) => rawToX(freqMapping, raw);
+  const sweepLogPoint = (raw: number, pass = 0): NonNullable<LogRecord['sweep']> => ({
+    raw,
+    x: Number(rawToFrequency(raw).toFixed(4)),
+    unit: freqMapping.unit,
+    pass
+  });
+
+  // Points, in send order, for the chosen spacing / direction / repeats
+  const sweepSchedule = useMemo(
+    () => buildScheduleFromSettings({ rangeStartHex, rangeEndHex, incrementStep, sweepPlan, freqMapping }),
+    [rangeStartHex, rangeEndHex, incrementStep, sweepPlan, freqMapping]
+  );
+
+  const totalSweepPoints = sweepSchedule.schedule.points.length;
+
+  const activeRxFormat = rxValueFormat(deviceSettings);
+  const rxConfigLabel = describeRxSource(deviceSettings);
+
+  // Helper for Freq Calculation (Display)
+  const calculateFreqFromHex = (hex: string) => {
+    const val = parseInt(hex.replace(/[^0-9A-Fa-f]/g, ''), 16);
+    if (isNaN(val)) return "---";
+    return `${rawToFrequency(val).toFixed(3)} ${freqMapping.unit}`;
+  };
+
+  const rangeEntryQuantized = useMemo(() => quantizeRangeEntry(freqMapping, rangeEntry), [freqMapping, rangeEntry]);
+
+  // Physical values typed in the range box drive the raw codes the sweep sends
+  const applyRangeEntry = (entry: RangeEntry, mapping: FrequencyMapping) => {
+    if (entry.unit === 'raw') return;
+    const q = quantizeRangeEntry(mapping, entry);
+    if (q.start) setRangeStartHex(rawToHex(q.start.raw));
+    if (q.stop) setRangeEndHex(rawToHex(q.stop.raw));
+    if (q.step) setIncrementStep(q.step.raw);
+  };
+
+  const changeRangeEntry = (entry: RangeEntry) => {
+    setRangeEntry(entry);
+    applyRangeEntry(entry, freqMapping);
+  };
+
+  const changeRangeEntryUnit = (unit: string) => {
+    if (unit === 'raw') {
+      setRangeEntry({ ...rangeEntry, unit });
+      return;
+    }
+    // Seed the fields from the current raw range so nothing moves
+    const start = parseInt(rangeStartHex.replace(/[^0-9A-Fa-f]/g, ''), 16) || 0;
+    const end = parseInt(rangeEndHex.replace(/[^0-9A-Fa-f]/g, ''), 16) || 0;
+    const toText = (x: number) => String(Number(convertUnit(x, freqMapping.unit, unit).toPrecision(10)));
+    setRangeEntry({
+      unit,
+      start: toText(rawToFrequency(start)),
+      stop: toText(rawToFrequency(end)),
+      step: toText(incrementStep * rawStep(freqMapping))
+    });
+  };
+
+  const updateFreqMapping = (mapping: FrequencyMapping) => {
+    setFreqMapping(mapping);
+    if (rangeEntry.unit === 'raw') return;
+    if (!entryUnits(mapping).includes(rangeEntry.unit)) {
+      setRangeEntry({ ...rangeEntry, unit: 'raw' }); // Unit label no longer converts
+      return;
+    }
+    applyRangeEntry(rangeEntry, mapping);
+  };
+
+  // Manual send box contents as hex, before the TX checksum
+  const manualPayloadHex = useMemo(
+    () => manualMode === 'text' ? uint8ArrayToHex(encodeText(manualText, manualLineEnding)) : manualHex,
+    [manualMode, manualText, manualLineEnding, manualHex]
+  );
+
+  const manualFramePreview = useMemo(() => {
+    try {
+      return uint8ArrayToHex(applyChecksum(hexToUint8Array(manualPayloadHex), txChecksum));
+    } catch {
+      return '---';
+    }
+  }, [manualPayloadHex, txChecksum]);
 
-      if (isHeader) {
-        // 2. Check Footer (starts at offset 11)
-        let isFooter = true;
-        for (let i = 0; i < FOOTER.length; i++) {
-           if (buffer[ptr + 11 + i] !== FOOTER[i]) {
-             isFooter = false;
-             break;
-           }
-        }
+  const currentBytesLength = Math.floor(sweepBaseHex.replace(/[^0-9A-Fa-f]/g, '').length / 2);
 
-        if (isFooter) {
-          // 3. Validate Range (Bytes 6 & 7)
-          const b1 = buffer[ptr + 6];
-          const b2 = buffer[ptr + 7];
-          
-          let val = 0;
-          if (rxIsBigEndian) val = bytesToDecimal(b1, b2);
-          else val = bytesToDecimal(b2, b1);
-
-          if (val >= 0 && val <= 4096) {
-             // === VALID PACKET ===
-             packetFound = true;
-             parseAndRecord(b1, b2);
-             
-             // Update Stats
-             setStats(prev => ({ ...prev, rx: prev.rx + 1 }));
-
-             // Unlock Loop
-             waitingForResponseRef.current = false;
-             setIsRetrying(false);
-             setIsRxInvalid(false);
-
-             // Consume this packet
-             ptr += PACKET_LEN;
-             
-             // Since we processed a valid packet, we can break or continue.
-             // Usually one response per command. We break to allow state updates.
-             // Update buffer immediately
-             rxBuffer.current = buffer.slice(ptr);
-             return; 
-          } else {
-             // === INVALID RANGE ===
-             setStats(prev => ({ ...prev, invalid: prev.invalid + 1 }));
-             ptr += PACKET_LEN;
-          }
-        } else {
-           // Header found, but Footer Mismatch. 
-           setStats(prev => ({ ...prev, invalid: prev.invalid + 1 }));
-           ptr++; 
-        }
-      } else {
-        ptr++;
-      }
+
+  // Sends one sweep point. Throwing aborts the sweep.
+  const sendSweepPoint = async (raw: number, attempt: number, index: number) => {
+    const pass = activeScheduleRef.current ? passOfIndex(activeScheduleRef.current, index) : 0;
+    setCounter(raw);
+    setSweepProgress({ index, pass });
+    setIsRetrying(attempt > 0);
+    pendingFrequencyRef.current = rawToFrequency(raw);
+    pendingPassRef.current = pass;
+    pendingRawRef.current = raw;
+    if (enableHeaderCheck || modbusEnabled) {
+      waitingForResponseRef.current = true;
+      setIsRxInvalid(false); // Reset invalid state for new attempt
     }
 
-    // Trim buffer to save memory if we advanced
-    if (ptr > 0) {
-      rxBuffer.current = buffer.slice(ptr);
+    if (modbusEnabled) {
+      // Write the counter, then read back the result register, both within one
+      // response timeout. A missing or exception reply just returns; the
+      // engine's timeout drives the retry.
+      const { slaveId, writeAddress, readAddress, readFunction } = modbusSweep;
+      const deadline = Date.now() + responseTimeoutMs;
+      const ack = await modbusTransact({ slaveId, fn: 0x06, address: writeAddress, quantity: 1, values: [raw] }, { sweepRaw: raw, sweepPass: pass }, deadline);
+      if (ack?.kind !== 'write-ack') return;
+      await modbusTransact({ slaveId, fn: readFunction, address: readAddress, quantity: 1, values: [] }, undefined, deadline);
+      return;
     }
-    
-    // If we are waiting for a response and didn't find a valid one yet:
-    if (waitingForResponseRef.current && !packetFound) {
-       setIsRxInvalid(true);
-       setLastReceivedValue(null);
+
+    const frame = buildSweepFrame(sweepBaseHex, targetByteIndex, isBigEndian, raw, txFormat);
+    if (!(await sendData(uint8ArrayToHex(frame), { sweepRaw: raw, sweepPass: pass }))) {
+      throw new Error('Send failed');
     }
   };
 
-  const parseAndRecord = (b1: number, b2: number) => {
-    let receivedValue = 0;
-    if (rxIsBigEndian) {
-      receivedValue = bytesToDecimal(b1, b2); 
-    } else {
-      receivedValue = bytesToDecimal(b2, b1); 
+  // The engine outlives renders; route its callbacks to the latest closures
+  const sendSweepPointRef = useRef(sendSweepPoint);
+  sendSweepPointRef.current = sendSweepPoint;
+
+  const recordSkippedPoint = (raw: number, pass: number) => {
+    recorderRef.current?.record({ kind: 'sweep-skip', sweepRaw: raw, sweepPass: pass });
+    const freq = Number(rawToFrequency(raw).toFixed(4));
+    appendChartPoint({ x: freq, y: null, pass });
+    addLog('error', `Point 0x${raw.toString(16).toUpperCase().padStart(4, '0')} skipped: no valid response after ${maxRetries + 1} attempt(s)`);
+    logRecordsRef.current.push({ time: Date.now(), direction: 'data', value: null, sweep: sweepLogPoint(raw, pass) });
+  };
+  const recordSkippedPointRef = useRef(recordSkippedPoint);
+  recordSkippedPointRef.current = recordSkippedPoint;
+
+  // Snapshot of the current (or last) sweep as a trace
+  const buildLiveTrace = (name: string, color: string, partial: boolean): SweepTrace | null => {
+    const meta = sweepMetaRef.current;
+    if (!meta || chartDataRef.current.length === 0) return null;
+    return {
+      id: crypto.randomUUID(),
+      name,
+      color,
+      visible: true,
+      createdAt: meta.startedAt.toISOString(),
+      partial,
+      durationMs: meta.priorDurationMs + (meta.finishedAt ?? new Date()).getTime() - meta.runStartedAt.getTime(),
+      stats: statsRef.current,
+      config: meta.config,
+      data: chartDataRef.current
+    };
+  };
+
+  // Files the data of the sweep that just ended into the history
+  const saveSweepTrace = (partial: boolean) => {
+    const meta = sweepMetaRef.current;
+    if (!meta) return;
+    meta.finishedAt = new Date();
+
+    if (meta.appendTo) {
+      const live = buildLiveTrace('', '', partial);
+      if (!live) return;
+      const { data, stats, durationMs } = live;
+      setTraces(prev => prev.map(t => t.id === meta.appendTo ? { ...t, data, stats, durationMs, partial: t.partial || partial, visible: true } : t));
+      return;
+    }
+
+    const n = traceCountRef.current + 1;
+    const time = meta.startedAt.toTimeString().slice(0, 5);
+    const trace = buildLiveTrace(`Sweep ${n} (${time})`, nextTraceColor(n - 1), partial);
+    if (!trace) return;
+    traceCountRef.current = n;
+    setTraces(prev => [...prev, trace]);
+  };
+  const saveSweepTraceRef = useRef(saveSweepTrace);
+  saveSweepTraceRef.current = saveSweepTrace;
+
+  const exportSweep = async (traceId: string | null, format: SweepExportFormat, analysis: ResonanceOptions | null) => {
+    const trace = traceId === null
+      ? buildLiveTrace('Live Sweep', '', isAutoSending)
+      : traces.find(t => t.id === traceId) ?? null;
+    if (!trace) {
+      alert("No sweep data to export.");
+      return;
     }
-    
-    // Real-time value update
-    setLastReceivedValue(receivedValue);
-    setIsRxInvalid(false);
-    
-    // Correlate with the last sent frequency if available (Auto Sweep Mode)
-    if (pendingFrequencyRef.current !== null) {
-      const freq = Number(pendingFrequencyRef.current.toFixed(4));
-      
-      setChartData(prev => [
-        ...prev,
-        {
-          x: freq, 
-          y: receivedValue
-        }
-      ]);
 
-      const timeStr = getTimestamp();
-      const dataLog = `[${timeStr}] DATA : Freq=${freq.toFixed(4)} kHz, RxValue=${receivedValue}`;
-      fullLogHistory.current.push(dataLog);
+    const safeName = trace.name.replace(/[^\w.-]+/g, '_');
+    try {
+      const saved = await saveTextFile(serializeSweepExport(buildSweepExport(trace, analysis), format), {
+        suggestedName: `${safeName}_${fileTimestamp(new Date(trace.createdAt || Date.now()))}.${format}`,
+        description: format === 'csv' ? 'CSV Files' : 'JSON Files',
+        mimeType: format === 'csv' ? 'text/csv' : 'application/json',
+        extension: `.${format}`
+      });
+      if (saved) addLog('info', `Sweep "${trace.name}" exported as ${format.toUpperCase()}.`);
+    } catch (err: any) {
+      addLog('error', `Export failed: ${err.message}`);
     }
   };
 
+  const importSweepFiles = async (files: File[]) => {
+    for (const file of files) {
+      try {
+        const sweeps = parseSweepFile(await file.text(), file.name);
+        const imported: SweepTrace[] = sweeps.map((sweep, i) => ({
+          id: crypto.randomUUID(),
+          name: sweep.name,
+          color: nextTraceColor(traceCountRef.current + i),
+          visible: true,
+          createdAt: sweep.startedAt,
+          partial: sweep.partial,
+          durationMs: sweep.durationMs,
+          stats: sweep.stats,
+          config: sweep.config,
+          source: file.name,
+          data: sweep.points
+        }));
+        traceCountRef.current += imported.length;
+        setTraces(prev => [...prev, ...imported]);
+        addLog('info', `Imported ${imported.length} trace(s) from ${file.name}.`);
+      } catch (err: any) {
+        addLog('error', `Import of ${file.name} failed: ${err.message}`);
+      }
+    }
+  };
 
-  // ---------------------------------------------------------------------------
-  // Auto Send / Loop Logic
-  // ---------------------------------------------------------------------------
-  
-  // Calculate expected total points based on current config
-  const totalSweepPoints = useMemo(() => {
-    const start = parseInt(rangeStartHex.replace(/[^0-9A-Fa-f]/g, ''), 16);
-    const end = parseInt(rangeEndHex.replace(/[^0-9A-Fa-f]/g, ''), 16);
-    if (isNaN(start) || isNaN(end) || incrementStep <= 0 || start > end) return 0;
-    return Math.floor((end - start) / incrementStep) + 1;
-  }, [rangeStartHex, rangeEndHex, incrementStep]);
+  const updateTrace = (id: string, patch: Partial<SweepTrace>) => {
+    setTraces(prev => prev.map(t => t.id === id ? { ...t, ...patch } : t));
+  };
 
-  // Helper for Freq Calculation (Display)
-  const calculateFreqFromHex = (hex: string) => {
-    const val = parseInt(hex.replace(/[^0-9A-Fa-f]/g, ''), 16);
-    if (isNaN(val)) return "---";
-    return ((val / 65536) * 32000).toFixed(3) + " kHz";
+  const deleteTrace = (id: string) => {
+    setTraces(prev => prev.filter(t => t.id !== id));
   };
 
   useEffect(() => {
-    counterRef.current = counter;
-  }, [counter]);
+    if (!txReady) return;
+    const timerId = window.setInterval(refreshLinkStats, 1000);
+    return () => clearInterval(timerId);
+  }, [txReady]);
 
-  const currentBytesLength = Math.floor(sweepBaseHex.replace(/[^0-9A-Fa-f]/g, '').length / 2);
+  // Stop the engine whenever the sweep ends or the TX port goes away
+  useEffect(() => {
+    if (isAutoSending && txReady) return;
+    if (sweepEngineRef.current) {
+      sweepEngineRef.current.stop();
+      sweepEngineRef.current = null;
+    }
+  }, [isAutoSending, txReady]);
+
+  // Clears chart, counters and parser state ahead of a new sweep (live or replayed)
+  // `carry` seeds chart and stats when a run extends an existing trace
+  const resetSweepState = (startCounter: number, carry: { data: ChartDataPoint[]; stats: SweepStats; durationMs: number } | null = null) => {
+    setCounter(startCounter);
+    replacePointsRef.current = carry !== null;
+    chartDataRef.current = carry ? carry.data : [];
+    setChartData(chartDataRef.current);
+    pendingFrequencyRef.current = null;
+    pendingPassRef.current = 0;
+    waitingForResponseRef.current = false; 
+    setIsRetrying(false);
+    setIsRxInvalid(false);
+    resetRxBuffer(); // Clear buffer
+    
+    // Stats Reset
+    statsRef.current = carry ? carry.stats : { tx: 0, rx: 0, invalid: 0 };
+    setStats(statsRef.current);
+    setElapsedTime(formatDuration(carry ? carry.durationMs : 0));
+  };
 
-  const tickAutoSend = useCallback(async () => {
-    try {
-      // --- LOCK STEP RETRY LOGIC ---
-      if (enableHeaderCheck && waitingForResponseRef.current) {
-        if (lastSentHexRef.current) {
-          setIsRetrying(true);
-          await sendData(lastSentHexRef.current);
-        }
-        return; 
-      }
-      // -----------------------------
-      
+  const toggleAutoSend = () => {
+    if (isAutoSending) {
+      setIsAutoSending(false);
+      waitingForResponseRef.current = false;
       setIsRetrying(false);
-
-      const endValDecimal = parseInt(rangeEndHex.replace(/[^0-9A-Fa-f]/g, ''), 16);
-      
-      // 1. Check Range
-      if (counterRef.current > endValDecimal) {
-        setIsAutoSending(false);
-        addLog('info', 'Sweep Complete.');
+      resetRxBuffer(); // Clear buffer
+      startTimeRef.current = null;
+    } else {
+      const { schedule, error } = sweepSchedule;
+      if (error || schedule.points.length === 0) {
+        addLog('error', error ?? (sweepPlan.spacing === 'list' ? 'Point list is empty' : 'Invalid Start/End Hex values or Step'));
         return;
       }
-
-      // 2. Prepare Command
-      // USE sweepBaseHex here
-      let baseBytes = Array.from(hexToUint8Array(sweepBaseHex));
-      
-      if (targetByteIndex < 0 || targetByteIndex >= baseBytes.length - 1) {
-         addLog('error', `Target Byte Index ${targetByteIndex} out of bounds`);
-         setIsAutoSending(false);
-         return;
+      // Point numbers are 1-based and inclusive in the UI
+      const fromIndex = Math.min(Math.max(1, runFrom), schedule.points.length) - 1;
+      const stopIndex = Math.min(Math.max(fromIndex + 1, runTo ?? schedule.points.length), schedule.points.length);
+      const target = traces.find(t => t.id === runTarget) ?? null; // Deleted trace = new sweep, as the select shows
+      const startDec = schedule.points[fromIndex];
+      const frameError = checkSweepFrames(deviceSettings, schedule, fromIndex);
+      if (frameError) {
+        addLog('error', frameError);
+        return;
       }
 
-      const currentVal = counterRef.current;
-      const [high, low] = decimalToBytes(currentVal);
-      
-      if (isBigEndian) {
-        baseBytes[targetByteIndex] = high;
-        baseBytes[targetByteIndex + 1] = low;
+      if (suspendedSweep) discardSuspendedSweep();
+      const now = new Date();
+      if (target) {
+        // The run continues the trace: same chart data, stats and start time
+        resetSweepState(startDec, { data: target.data, stats: target.stats, durationMs: target.durationMs });
+        updateTrace(target.id, { visible: false }); // The live line shows it while running
+        if (target.config?.mapping && describeFrequencyMapping(target.config.mapping) !== describeFrequencyMapping(freqMapping)) {
+          addLog('info', `Note: "${target.name}" was measured with a different X mapping.`);
+        }
       } else {
-        baseBytes[targetByteIndex] = low;
-        baseBytes[targetByteIndex + 1] = high;
+        resetSweepState(startDec);
+        recorderRef.current?.record({ kind: 'sweep-start' });
       }
-      
-      // 3. Frequency
-      const frequency = (currentVal / 65536) * 32000;
-      pendingFrequencyRef.current = frequency;
-
-      // 4. Send
-      const newHexStr = uint8ArrayToHex(new Uint8Array(baseBytes));
-      lastSentHexRef.current = newHexStr; 
-      await sendData(newHexStr);
-
-      // 5. Lock
-      if (enableHeaderCheck) {
-        waitingForResponseRef.current = true; 
-        setIsRxInvalid(false); // Reset invalid state for new attempt
+      const startedAt = target?.createdAt ? new Date(target.createdAt) : now;
+      sweepMetaRef.current = {
+        startedAt: isNaN(startedAt.getTime()) ? now : startedAt,
+        finishedAt: null,
+        priorDurationMs: target?.durationMs ?? 0,
+        runStartedAt: now,
+        appendTo: target?.id,
+        config: target?.config ?? sweepTraceConfig(deviceSettings)
+      };
+      activeScheduleRef.current = schedule;
+      startTimeRef.current = Date.now() - (target?.durationMs ?? 0);
+
+      const rangeText = sweepPlan.spacing === 'list' ? 'Point list' : `0x${rangeStartHex} -> 0x${rangeEndHex}`;
+      const partText = fromIndex > 0 || stopIndex < schedule.points.length ? `, points ${fromIndex + 1}-${stopIndex} of ${schedule.points.length}` : '';
+      const intoText = target ? ` into "${target.name}"` : '';
+      addLog('info', `Starting Sweep: ${rangeText}, Step: ${incrementStep} (${describeSweepPlan(sweepPlan)}). Expected Points: ${stopIndex - fromIndex}${partText}${intoText}`);
+      startSweepEngine(schedule, fromIndex, stopIndex);
+    }
+  };
+
+  // Runs the schedule from `startIndex`; chart data and trace metadata are left as they are
+  const startSweepEngine = (schedule: SweepSchedule, startIndex: number, stopIndex: number) => {
+    const engine = createSweepEngine({
+      points: schedule.points,
+      awaitResponse: enableHeaderCheck || modbusEnabled,
+      intervalMs: autoIntervalMs,
+      responseTimeoutMs,
+      maxRetries,
+      failurePolicy,
+      startIndex,
+      stopIndex
+    }, {
+      sendPoint: (raw, index, attempt) => sendSweepPointRef.current(raw, attempt, index),
+      onRetry: (raw, _index, attempt) => {
+        addLog('info', `Timeout, retry ${attempt}/${maxRetries} for 0x${raw.toString(16).toUpperCase().padStart(4, '0')}`);
+      },
+      onPointSkipped: (raw, index) => recordSkippedPointRef.current(raw, passOfIndex(schedule, index)),
+      onFinish: (outcome, detail) => {
+        if (sweepEngineRef.current === engine) sweepEngineRef.current = null;
+        waitingForResponseRef.current = false;
+        pendingFrequencyRef.current = null;
+        setIsRetrying(false);
+        setSweepProgress(null);
+        if (suspendingSweepRef.current) return; // Port lost: the sweep stays open for a resume
+        recorderRef.current?.record({ kind: 'sweep-end' });
+        saveSweepTraceRef.current(outcome !== 'complete');
+        if (outcome === 'complete') {
+          addLog('info', 'Sweep Complete.');
+        } else if (outcome === 'aborted') {
+          const at = detail.raw !== null ? ` at 0x${detail.raw.toString(16).toUpperCase().padStart(4, '0')}` : '';
+          addLog('error', `Sweep aborted${at}: ${detail.error ?? 'unknown error'}`);
+        }
+        if (outcome !== 'stopped') setIsAutoSending(false);
       }
+    });
+    sweepEngineRef.current = engine;
+    activeStopIndexRef.current = stopIndex;
+    setIsAutoSending(true);
+    engine.start();
+  };
 
-      // 6. Increment
-      counterRef.current = currentVal + incrementStep;
-      setCounter(counterRef.current);
+  // Stops the engine but keeps the sweep open (chart, stats, elapsed time) for a resume
+  const suspendSweep = (reason: 'paused' | 'interrupted') => {
+    const engine = sweepEngineRef.current;
+    const schedule = activeScheduleRef.current;
+    if (!engine || !schedule) return;
+    const index = Math.min(engine.getIndex(), schedule.points.length - 1);
+    suspendingSweepRef.current = true;
+    engine.stop();
+    suspendingSweepRef.current = false;
+    const meta = sweepMetaRef.current;
+    if (meta) meta.priorDurationMs += Date.now() - meta.runStartedAt.getTime();
+    setSuspendedSweep({ schedule, index, stopIndex: activeStopIndexRef.current, reason, txPortId, rxPortId });
+    setIsAutoSending(false);
+    startTimeRef.current = null;
+    resetRxBuffer();
+  };
 
-    } catch (e) {
-      setIsAutoSending(false);
-      addLog('error', 'Invalid Hex or Config');
-    }
-  }, [sweepBaseHex, sendData, addLog, rangeEndHex, incrementStep, targetByteIndex, isBigEndian, enableHeaderCheck]);
+  const pauseSweep = () => {
+    if (!isAutoSending) return;
+    suspendSweep('paused');
+    addLog('info', 'Sweep paused.');
+  };
 
+  // Why the suspended sweep cannot continue yet; a lost extra port comes back
+  // under a new id, so its sweep can only be stopped
+  const resumeBlocker = !suspendedSweep ? null
+    : suspendedSweep.txPortId !== txPortId || suspendedSweep.rxPortId !== rxPortId
+      ? `Sweep ran with TX on ${suspendedSweep.txPortId} and RX on ${suspendedSweep.rxPortId}; routing has changed since`
+    : !txReady || !rxReady ? 'Waiting for the sweep ports to reconnect'
+    : null;
+
+  // Continues an interrupted sweep where it stopped, appending to the same chart data
+  const resumeSweep = () => {
+    const suspended = suspendedSweep;
+    if (!suspended || resumeBlocker || isAutoSending) return;
+    setSuspendedSweep(null);
+    activeScheduleRef.current = suspended.schedule;
+    const meta = sweepMetaRef.current;
+    if (meta) meta.runStartedAt = new Date();
+    startTimeRef.current = Date.now() - (meta?.priorDurationMs ?? 0);
+    waitingForResponseRef.current = false;
+    resetRxBuffer();
+    const raw = suspended.schedule.points[suspended.index];
+    addLog('info', `Resuming sweep at point ${suspended.index + 1}/${suspended.schedule.points.length} (0x${raw.toString(16).toUpperCase().padStart(4, '0')}).`);
+    startSweepEngine(suspended.schedule, suspended.index, suspended.stopIndex);
+  };
 
-  useEffect(() => {
-    if (isAutoSending && status === ConnectionStatus.CONNECTED) {
-      autoSendTimerRef.current = window.setInterval(tickAutoSend, autoIntervalMs);
-    } else {
-      if (autoSendTimerRef.current) {
-        clearInterval(autoSendTimerRef.current);
-        autoSendTimerRef.current = null;
-      }
+  // Ends a paused or interrupted sweep and files what it measured as a partial trace
+  const discardSuspendedSweep = () => {
+    if (!suspendedSweep) return;
+    setSuspendedSweep(null);
+    recorderRef.current?.record({ kind: 'sweep-end' });
+    const meta = sweepMetaRef.current;
+    if (meta) meta.runStartedAt = new Date(); // Suspended time is already in priorDurationMs
+    saveSweepTrace(true);
+    addLog('info', 'Sweep stopped; measured points saved as a partial trace.');
+  };
+
+  // ---------------------------------------------------------------------------
+  // Session Recording & Replay
+  // ---------------------------------------------------------------------------
+  const toggleRecording = async () => {
+    if (!recorderRef.current) {
+      recorderRef.current = createSessionRecorder({
+        serial: config,
+        frameDef,
+        enableHeaderCheck,
+        rxByteIndex,
+        rxIsBigEndian,
+        rxFormat,
+        modbus: { enabled: modbusEnabled, sweep: modbusSweep }
+      });
+      setIsRecording(true);
+      addLog('info', 'Session recording started.');
+      return;
     }
-    return () => {
-      if (autoSendTimerRef.current) clearInterval(autoSendTimerRef.current);
-    };
-  }, [isAutoSending, status, autoIntervalMs, tickAutoSend]);
 
-  const toggleAutoSend = () => {
-    if (isAutoSending) {
-      setIsAutoSending(false);
-      waitingForResponseRef.current = false;
-      setIsRetrying(false);
-      rxBuffer.current = new Uint8Array(0); // Clear buffer
-      startTimeRef.current = null;
-    } else {
-      const startDec = parseInt(rangeStartHex.replace(/[^0-9A-Fa-f]/g, ''), 16);
-      const endDec = parseInt(rangeEndHex.replace(/[^0-9A-Fa-f]/g, ''), 16);
+    const recording = recorderRef.current.finish();
+    recorderRef.current = null;
+    setIsRecording(false);
+    addLog('info', `Session recording stopped (${recording.events.length} events).`);
 
-      if (isNaN(startDec) || isNaN(endDec)) {
-        addLog('error', 'Invalid Start/End Hex values');
-        return;
-      }
+    try {
+      const saved = await saveTextFile(JSON.stringify(recording), {
+        suggestedName: `session_${fileTimestamp(new Date(recording.startedAt))}.json`,
+        description: 'Session Recordings',
+        mimeType: 'application/json',
+        extension: '.json'
+      });
+      if (saved) addLog('info', 'Session saved to file.');
+    } catch (err: any) {
+      addLog('error', `Session save failed: ${err.message}`);
+    }
+  };
 
-      setCounter(startDec);
-      counterRef.current = startDec;
-      setChartData([]); 
-      pendingFrequencyRef.current = null;
-      waitingForResponseRef.current = false; 
-      setIsRetrying(false);
-      setIsRxInvalid(false);
-      rxBuffer.current = new Uint8Array(0); // Clear buffer
-      
-      // Stats Reset
-      setStats({ tx: 0, rx: 0, invalid: 0 });
-      setElapsedTime("00:00:00");
-      startTimeRef.current = Date.now();
+  const loadSession = async (file: File) => {
+    try {
+      const recording = parseSessionRecording(await file.text());
+      // Parse the replay exactly like the original run did
+      const { settings } = recording;
+      setConfig(settings.serial);
+      setFrameDef(settings.frameDef);
+      setEnableHeaderCheck(settings.enableHeaderCheck);
+      setRxByteIndex(settings.rxByteIndex);
+      setRxIsBigEndian(settings.rxIsBigEndian);
+      setRxFormat(settings.rxFormat ?? DEFAULT_FIELD_FORMAT);
+      setModbusEnabled(settings.modbus?.enabled ?? false);
+      if (settings.modbus) setModbusSweep(settings.modbus.sweep);
+      setLoadedSession({ name: file.name, recording });
+      addLog('info', `Loaded session ${file.name}: ${recording.events.length} events. Recorded RX settings applied.`);
+    } catch (err: any) {
+      addLog('error', `Could not load session: ${err.message}`);
+    }
+  };
+
+  const replayEvent = (event: SessionEvent) => {
+    switch (event.kind) {
+      case 'rx':
+        handleDataReceived(hexToUint8Array(event.data));
+        break;
+      case 'tx':
+        addLog('tx', event.data, { sweep: event.sweepRaw === undefined ? undefined : sweepLogPoint(event.sweepRaw, event.sweepPass) });
+        bumpStat('tx');
+        if (modbusEnabled) {
+          // Re-arm the parser with the recorded request so its reply decodes
+          const request = parseModbusRequest(hexToUint8Array(event.data));
+          modbusPendingRef.current = request && { request, resolve: () => {}, timer: null };
+          resetRxBuffer();
+        }
+        if (event.sweepRaw !== undefined) {
+          setCounter(event.sweepRaw);
+          pendingFrequencyRef.current = rawToFrequency(event.sweepRaw);
+          pendingPassRef.current = event.sweepPass ?? 0;
+          pendingRawRef.current = event.sweepRaw;
+          if (enableHeaderCheck) {
+            waitingForResponseRef.current = true;
+            setIsRxInvalid(false);
+          }
+        }
+        break;
+      case 'sweep-start':
+        resetSweepState(0);
+        break;
+      case 'sweep-skip':
+        recordSkippedPoint(event.sweepRaw, event.sweepPass ?? 0);
+        break;
+      case 'sweep-end':
+        pendingFrequencyRef.current = null;
+        waitingForResponseRef.current = false;
+        break;
+      case 'seq-start':
+        addLog('info', `Sequence "${event.sequence.name}" started (${event.sequence.steps.length} steps).`);
+        break;
+      case 'seq-log':
+        addLog(event.level, `SEQ ${event.message}`);
+        break;
+      case 'seq-end':
+        addLog(event.result.outcome === 'passed' ? 'info' : 'error', describeSequenceResult(event.name, event.result));
+        break;
+    }
+  };
+  const replayEventRef = useRef(replayEvent);
+  replayEventRef.current = replayEvent;
 
-      setIsAutoSending(true);
-      addLog('info', `Starting Sweep: 0x${rangeStartHex} -> 0x${rangeEndHex}, Step: ${incrementStep}. Expected Points: ${totalSweepPoints}`);
+  const toggleReplay = () => {
+    if (playerRef.current) {
+      playerRef.current.stop();
+      return;
     }
+    if (!loadedSession) return;
+
+    clearLogs();
+    resetSweepState(0);
+    const player = createSessionPlayer(
+      loadedSession.recording,
+      replaySpeed,
+      (event) => replayEventRef.current(event),
+      (completed) => {
+        playerRef.current = null;
+        setIsReplaying(false);
+        pendingFrequencyRef.current = null;
+        waitingForResponseRef.current = false;
+        addLog('info', completed ? 'Replay finished.' : 'Replay stopped.');
+      }
+    );
+    if (suspendedSweep) discardSuspendedSweep(); // Replayed sweeps reset the chart
+    playerRef.current = player;
+    setIsReplaying(true);
+    addLog('info', `Replaying ${loadedSession.name} at ${replaySpeed > 0 ? `${replaySpeed}x` : 'max'} speed.`);
+    player.start();
   };
 
+  // Stop an active replay when the component goes away
+  useEffect(() => () => playerRef.current?.stop(), []);
+
   const clearLogs = () => {
-    setLogs([]);
-    fullLogHistory.current = [];
+    logEntriesRef.current = [];
+    logRecordsRef.current = [];
+    setLogVersion(v => v + 1);
   }
 
   // ---------------------------------------------------------------------------
@@ -773,6 +1911,46 @@ export default function App() {
                    <option value="odd">Odd</option>
                  </select>
               </div>
+
+              {/* Mock Device */}
+              <div className="flex flex-col gap-2 border-t border-slate-800 pt-3">
+                 <label className="text-xs text-slate-500 uppercase font-bold flex items-center gap-1">
+                   <FlaskConical size={12} /> Mock Device
+                 </label>
+                 <select 
+                   className="bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded px-3 py-2 outline-none focus:border-blue-500"
+                   value={mockConfig.script}
+                   onChange={(e) => setMockConfig({...mockConfig, script: e.target.value as MockDeviceConfig['script']})}
+                 >
+                   <option value="resonator">Resonator (DDS board)</option>
+                   <option value="echo">Echo (loopback)</option>
+                   <option value="silent">Silent (no response)</option>
+                   <option value="modbus">Modbus RTU slave</option>
+                 </select>
+                 <div className="grid grid-cols-2 gap-2">
+                   <div>
+                     <label className="text-[10px] text-slate-500 block mb-1">Latency (ms)</label>
+                     <input 
+                       type="number"
+                       min="0"
+                       className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded px-2 py-1 outline-none focus:border-blue-500"
+                       value={mockConfig.latencyMs}
+                       onChange={(e) => setMockConfig({...mockConfig, latencyMs: Math.max(0, Number(e.target.value))})}
+                     />
+                   </div>
+                   <div>
+                     <label className="text-[10px] text-slate-500 block mb-1">Drop Rate (%)</label>
+                     <input 
+                       type="number"
+                       min="0"
+                       max="100"
+                       className="w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded px-2 py-1 outline-none focus:border-blue-500"
+                       value={Math.round(mockConfig.dropRate * 100)}
+                       onChange={(e) => setMockConfig({...mockConfig, dropRate: Math.min(100, Math.max(0, Number(e.target.value))) / 100})}
+                     />
+                   </div>
+                 </div>
+              </div>
             </div>
 
             <button 
@@ -785,6 +1963,19 @@ export default function App() {
         </div>
       )}
 
+      {showFrameEditor && (
+        <FrameDefinitionEditor
+          value={frameDef}
+          onApply={(def) => {
+            setFrameDef(def);
+            resetRxBuffer();
+            setShowFrameEditor(false);
+            addLog('info', `Frame definition updated. ${describeFrameDefinition(def)}`);
+          }}
+          onClose={() => setShowFrameEditor(false)}
+        />
+      )}
+
       {isIframe && (
          <div className="bg-amber-900/50 border border-amber-500 text-amber-100 p-3 rounded flex items-center justify-between gap-3 shadow-lg">
           <div className="flex items-center gap-3">
@@ -809,13 +2000,26 @@ export default function App() {
           <div>
             <h1 className="text-xl font-bold text-slate-100">HexSerial Viz</h1>
             <div className="flex items-center gap-2 text-xs">
-              <span className={`w-2 h-2 rounded-full ${status === ConnectionStatus.CONNECTED ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`}></span>
+              <span className={`w-2 h-2 rounded-full ${status === ConnectionStatus.CONNECTED ? 'bg-green-500 animate-pulse' : status === ConnectionStatus.INTERRUPTED ? 'bg-amber-500 animate-pulse' : 'bg-red-500'}`}></span>
               <span className="text-slate-400 uppercase">{status}</span>
             </div>
           </div>
         </div>
 
         <div className="flex items-center gap-4 flex-wrap">
+          <ProfileBar
+            profiles={profiles}
+            activeId={activeProfileId}
+            modified={profileModified}
+            disabled={status === ConnectionStatus.CONNECTED}
+            onSelect={selectProfile}
+            onSave={saveProfile}
+            onSaveAs={saveProfileAs}
+            onDelete={deleteProfile}
+            onImport={importProfiles}
+            onExport={exportProfiles}
+          />
+
           <div className="flex flex-col gap-1">
              <label className="text-xs text-slate-500 uppercase font-bold flex items-center gap-1">
                 <Usb size={12} /> Port
@@ -825,21 +2029,18 @@ export default function App() {
                   className="bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded-l px-2 py-1 outline-none focus:border-blue-500 min-w-[120px]"
                   value={selectedPortIndex}
                   onChange={(e) => setSelectedPortIndex(Number(e.target.value))}
-                  disabled={status === ConnectionStatus.CONNECTED || !isSupported}
+                  disabled={status === ConnectionStatus.CONNECTED}
                 >
-                  {knownPorts.length === 0 && <option value={0}>Click (+) to add --&gt;</option>}
-                  {knownPorts.map((p, idx) => {
-                    const info = p.getInfo();
-                    const name = info.usbVendorId 
-                      ? `Port ${idx + 1} (ID:${info.usbVendorId.toString(16).toUpperCase()})` 
-                      : `Port ${idx + 1}`;
-                    return <option key={idx} value={idx}>{name}</option>;
-                  })}
+                  {isSupported && knownPorts.length === 0 && <option value={0}>Click (+) to add --&gt;</option>}
+                  {knownPorts.map((p, idx) => (
+                    <option key={idx} value={idx}>{describeWebSerialPort(p, idx)}</option>
+                  ))}
+                  <option value={MOCK_PORT_INDEX}>Mock Device (no hardware)</option>
                 </select>
                 <button 
                   onClick={handleRequestPort}
                   disabled={status === ConnectionStatus.CONNECTED || !isSupported}
-                  className={`bg-slate-700 hover:bg-slate-600 text-slate-200 px-2 rounded-r border-t border-r border-b border-slate-700 flex items-center justify-center ${knownPorts.length === 0 ? 'animate-pulse ring-2 ring-blue-500' : ''}`}
+                  className={`bg-slate-700 hover:bg-slate-600 text-slate-200 px-2 rounded-r border-t border-r border-b border-slate-700 flex items-center justify-center disabled:opacity-50 ${isSupported && knownPorts.length === 0 ? 'animate-pulse ring-2 ring-blue-500' : ''}`}
                 >
                   <Plus size={16} />
                 </button>
@@ -873,7 +2074,7 @@ export default function App() {
 
           <button
             onClick={status === ConnectionStatus.CONNECTED ? disconnectPort : openPort}
-            disabled={!isSupported}
+            disabled={(!isSupported && selectedPortIndex !== MOCK_PORT_INDEX) || isReplaying}
             className={`
               flex items-center gap-2 px-6 py-2 rounded font-bold transition-all shadow-lg ml-2 disabled:opacity-50 disabled:cursor-not-allowed
               ${status === ConnectionStatus.CONNECTED 
@@ -890,6 +2091,57 @@ export default function App() {
         </div>
       </header>
 
+      {/* CONNECTION LOST / INTERRUPTED SWEEP */}
+      {(lostDevice || suspendedSweep?.reason === 'interrupted') && (
+        <div className="flex flex-wrap items-center gap-3 px-4 py-2 rounded-lg border border-amber-700 bg-amber-900/20 text-sm text-amber-200">
+          <AlertTriangle size={16} className="text-amber-400 shrink-0" />
+          {lostDevice && (
+            <span className="flex items-center gap-2">
+              {status === ConnectionStatus.CONNECTING && <Loader2 size={14} className="animate-spin" />}
+              {lostDevice.info.label} lost at {lostDevice.since.toTimeString().slice(0, 8)}.
+              {lostDevice.info.usbVendorId !== undefined
+                ? ' It will be reopened automatically when it reappears.'
+                : ' It has no USB IDs to recognise it by; reconnect manually.'}
+            </span>
+          )}
+          {suspendedSweep?.reason === 'interrupted' && (
+            <span>
+              Sweep interrupted at point {suspendedSweep.index + 1} of {suspendedSweep.schedule.points.length}
+              {' '}(0x{suspendedSweep.schedule.points[suspendedSweep.index].toString(16).toUpperCase().padStart(4, '0')}); {chartData.length} points kept.
+            </span>
+          )}
+          <div className="flex gap-2 ml-auto">
+            {suspendedSweep?.reason === 'interrupted' && (
+              <>
+                <button
+                  onClick={resumeSweep}
+                  disabled={!!resumeBlocker || isAutoSending}
+                  className="px-3 py-1 rounded bg-blue-600 hover:bg-blue-700 text-white text-xs font-bold disabled:opacity-50"
+                  title={resumeBlocker ?? 'Continue from the point that was in flight'}
+                >
+                  Resume Sweep
+                </button>
+                <button
+                  onClick={discardSuspendedSweep}
+                  className="px-3 py-1 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:text-white text-xs"
+                  title="Keep the measured points as a partial trace"
+                >
+                  Discard
+                </button>
+              </>
+            )}
+            {lostDevice && (
+              <button
+                onClick={stopWaitingForDevice}
+                className="px-3 py-1 rounded bg-slate-800 border border-slate-700 text-slate-300 hover:text-white text-xs"
+              >
+                Stop Waiting
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* MAIN CONTENT GRID */}
       <main className="flex-1 grid grid-rows-[auto_1fr] md:grid-rows-1 md:grid-cols-[400px_1fr] gap-4 min-h-0">
         
@@ -901,24 +2153,114 @@ export default function App() {
              <h3 className="text-slate-400 text-sm font-bold uppercase tracking-wider flex items-center gap-2">
                <Send size={16} /> Manual Transmission
              </h3>
-             <textarea 
-                className="w-full h-12 bg-slate-950 border border-slate-700 rounded p-2 text-slate-200 font-mono text-sm resize-none focus:border-blue-500 outline-none"
-                value={manualHex}
-                onChange={(e) => setManualHex(formatHexString(e.target.value))}
-                placeholder="Enter Hex (e.g., 05 43 46)"
-                spellCheck={false}
-              />
+             <div className="flex items-center gap-2">
+               <div className="flex text-xs rounded border border-slate-700 overflow-hidden">
+                 {(['hex', 'text'] as const).map(mode => (
+                   <button
+                     key={mode}
+                     onClick={() => setManualMode(mode)}
+                     className={`px-2 py-0.5 uppercase ${manualMode === mode ? 'bg-slate-700 text-white' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}
+                   >
+                     {mode}
+                   </button>
+                 ))}
+               </div>
+               {manualMode === 'text' && (
+                 <select
+                   className="bg-slate-800 border border-slate-700 text-slate-300 rounded px-1 py-0.5 text-xs outline-none"
+                   value={manualLineEnding}
+                   onChange={(e) => setManualLineEnding(e.target.value as LineEnding)}
+                   title="Appended to every text send"
+                 >
+                   {(Object.keys(LINE_ENDINGS) as LineEnding[]).map(k => (
+                     <option key={k} value={k}>{LINE_ENDINGS[k].label}</option>
+                   ))}
+                 </select>
+               )}
+             </div>
+             {manualMode === 'hex' ? (
+               <textarea 
+                  className="w-full h-12 bg-slate-950 border border-slate-700 rounded p-2 text-slate-200 font-mono text-sm resize-none focus:border-blue-500 outline-none"
+                  value={manualHex}
+                  onChange={(e) => setManualHex(formatHexString(e.target.value))}
+                  placeholder="Enter Hex (e.g., 05 43 46)"
+                  spellCheck={false}
+                />
+             ) : (
+               <>
+                 <textarea 
+                    className="w-full h-12 bg-slate-950 border border-slate-700 rounded p-2 text-slate-200 font-mono text-sm resize-none focus:border-blue-500 outline-none"
+                    value={manualText}
+                    onChange={(e) => setManualText(e.target.value)}
+                    placeholder="Enter text, escapes: \r \n \t \xNN"
+                    spellCheck={false}
+                  />
+                 <div className="text-[9px] text-slate-500 font-mono break-all">
+                   Bytes: {manualPayloadHex || '(empty)'}
+                 </div>
+               </>
+             )}
               <button 
                 onClick={() => {
-                  sendData(manualHex);
+                  sendData(manualPayloadHex);
                 }}
-                disabled={status !== ConnectionStatus.CONNECTED || isAutoSending}
+                disabled={!txReady || isAutoSending}
                 className="w-full bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-400 hover:text-white border border-slate-700 py-1.5 rounded flex items-center justify-center gap-2 text-xs font-semibold transition-colors"
               >
                 <Send size={12} /> Send Once
               </button>
+              <div className="bg-slate-950/50 p-2 rounded border border-slate-800">
+                <label className="text-[10px] text-slate-500 block mb-1 font-bold">TX Checksum (Manual & Sweep)</label>
+                <ChecksumFields value={txChecksum} onChange={setTxChecksum} />
+                {txChecksum.algorithm !== 'none' && (
+                  <div className="text-[9px] text-slate-500 font-mono mt-1 break-all">
+                    Sends: {manualFramePreview}
+                  </div>
+                )}
+              </div>
           </div>
 
+          {/* COMMAND LIBRARY BOX */}
+          <CommandLibrary
+            commands={commands}
+            onChange={setCommands}
+            onSend={sendSavedCommand}
+            canSend={txReady && !isAutoSending}
+            currentPayload={() => manualMode === 'text'
+              ? { mode: 'text', payload: manualText, lineEnding: manualLineEnding }
+              : { mode: 'hex', payload: manualHex }}
+            onImport={importCommandLibrary}
+            onExport={exportCommandLibrary}
+          />
+
+          {/* TEST SEQUENCE BOX */}
+          <SequencePanel
+            sequence={sequence}
+            onChange={setSequence}
+            isRunning={isSequenceRunning}
+            currentStep={sequenceStep}
+            lastResult={sequenceResult}
+            canRun={txReady && !isAutoSending}
+            onRun={runSequence}
+            onStop={stopSequence}
+            onImport={importSequence}
+            onExport={exportSequence}
+          />
+
+          {/* MODBUS BOX */}
+          <ModbusPanel
+            enabled={modbusEnabled}
+            onToggle={() => {
+              setModbusEnabled(!modbusEnabled);
+              resetRxBuffer();
+            }}
+            sweep={modbusSweep}
+            onSweepChange={setModbusSweep}
+            onSend={sendModbusRequest}
+            canSend={txReady && !isAutoSending}
+            sweepLocked={isAutoSending}
+          />
+
           {/* SWEEP CONTROL BOX */}
           <div className="bg-slate-900 p-4 rounded-lg border border-slate-800 shadow-lg space-y-4">
             <h3 className="text-slate-400 text-sm font-bold uppercase tracking-wider flex items-center gap-2">
@@ -936,55 +2278,184 @@ export default function App() {
               />
             </div>
 
-            {/* Config: Range (Hex) */}
+            {/* Config: X Mapping */}
+            <FrequencyMappingFields value={freqMapping} onChange={updateFreqMapping} disabled={isAutoSending} />
+
+            {/* Config: Range (Hex or physical units) */}
             <div className="grid grid-cols-3 gap-2 bg-slate-950/50 p-2 rounded border border-slate-800 relative mt-4">
-              <div>
-                 <div className="flex justify-between items-end mb-1">
-                   <label className="text-[10px] text-slate-500 flex items-center gap-1">
-                     <Hash size={10} /> Start
-                   </label>
-                   <span className="text-[10px] text-blue-400 font-mono">
-                     Freq: {calculateFreqFromHex(rangeStartHex)}
-                   </span>
-                 </div>
-                 <input 
-                    type="text" 
-                    value={rangeStartHex}
-                    onChange={(e) => setRangeStartHex(formatHexString(e.target.value))}
-                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-center focus:border-blue-500 outline-none"
-                    placeholder="0000"
-                 />
+              <div className="col-span-3 flex items-center gap-2">
+                <label className="text-[10px] text-slate-500 font-bold">Enter Range In</label>
+                <select
+                  className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 outline-none disabled:opacity-50"
+                  value={rangeEntry.unit}
+                  onChange={(e) => changeRangeEntryUnit(e.target.value)}
+                  disabled={isAutoSending}
+                >
+                  <option value="raw">Raw (Hex)</option>
+                  {entryUnits(freqMapping).map(u => <option key={u} value={u}>{u}</option>)}
+                </select>
+              </div>
+              {rangeEntry.unit === 'raw' ? (
+                <>
+                  <div>
+                     <div className="flex justify-between items-end mb-1">
+                       <label className="text-[10px] text-slate-500 flex items-center gap-1">
+                         <Hash size={10} /> Start
+                       </label>
+                       <span className="text-[10px] text-blue-400 font-mono">
+                         Freq: {calculateFreqFromHex(rangeStartHex)}
+                       </span>
+                     </div>
+                     <input 
+                        type="text" 
+                        value={rangeStartHex}
+                        onChange={(e) => setRangeStartHex(formatHexString(e.target.value))}
+                        className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-center focus:border-blue-500 outline-none"
+                        placeholder="0000"
+                     />
+                  </div>
+                  <div>
+                     <div className="flex justify-between items-end mb-1">
+                       <label className="text-[10px] text-slate-500 flex items-center gap-1">
+                          <Hash size={10} /> End
+                       </label>
+                       <span className="text-[10px] text-blue-400 font-mono">
+                         {calculateFreqFromHex(rangeEndHex)}
+                       </span>
+                     </div>
+                     <input 
+                        type="text" 
+                        value={rangeEndHex}
+                        onChange={(e) => setRangeEndHex(formatHexString(e.target.value))}
+                        className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-center focus:border-blue-500 outline-none"
+                        placeholder="00C8"
+                     />
+                  </div>
+                  <div>
+                     <label className="text-[10px] text-slate-500 block mb-1 mt-4">Step (Dec)</label>
+                     <input 
+                        type="number" 
+                        value={incrementStep}
+                        onChange={(e) => setIncrementStep(Number(e.target.value))}
+                        className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-center focus:border-blue-500 outline-none"
+                     />
+                  </div>
+                </>
+              ) : (
+                (['start', 'stop', 'step'] as const).map(field => {
+                  const q = rangeEntryQuantized[field];
+                  return (
+                    <div key={field}>
+                      <label className="text-[10px] text-slate-500 block mb-1 capitalize">{field} ({rangeEntry.unit})</label>
+                      <input
+                        type="number"
+                        value={rangeEntry[field]}
+                        onChange={(e) => changeRangeEntry({ ...rangeEntry, [field]: e.target.value })}
+                        className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-center focus:border-blue-500 outline-none disabled:opacity-50"
+                        disabled={isAutoSending}
+                      />
+                      <div className="text-[9px] font-mono mt-0.5 leading-tight">
+                        {q ? (
+                          <>
+                            <div className="text-blue-400">{field === 'step' ? `${q.raw} counts` : `0x${rawToHex(q.raw).replace(/ /g, '')}`}</div>
+                            <div className={q.error === 0 ? 'text-slate-600' : 'text-amber-500'}>
+                              err {q.error >= 0 ? '+' : ''}{formatQuantity(q.error)} {rangeEntry.unit}
+                            </div>
+                          </>
+                        ) : (
+                          <div className="text-red-400">Out of range</div>
+                        )}
+                      </div>
+                    </div>
+                  );
+                })
+              )}
+              {/* Expected Point Count */}
+              <div className="absolute -top-3 right-0 bg-slate-800 text-slate-400 text-[10px] px-2 py-0.5 rounded-full border border-slate-700 shadow">
+                Est. Points: <span className="text-white font-bold">{totalSweepPoints}</span>
               </div>
+            </div>
+
+            {/* Config: Sweep Plan */}
+            <div className="bg-slate-950/50 p-2 rounded border border-slate-800 grid grid-cols-3 gap-2">
               <div>
-                 <div className="flex justify-between items-end mb-1">
-                   <label className="text-[10px] text-slate-500 flex items-center gap-1">
-                      <Hash size={10} /> End
-                   </label>
-                   <span className="text-[10px] text-blue-400 font-mono">
-                     {calculateFreqFromHex(rangeEndHex)}
-                   </span>
-                 </div>
-                 <input 
-                    type="text" 
-                    value={rangeEndHex}
-                    onChange={(e) => setRangeEndHex(formatHexString(e.target.value))}
-                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-center focus:border-blue-500 outline-none"
-                    placeholder="00C8"
-                 />
+                <label className="text-[10px] text-slate-500 block mb-1 font-bold">Spacing</label>
+                <select
+                  className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 outline-none disabled:opacity-50"
+                  value={sweepPlan.spacing}
+                  onChange={(e) => setSweepPlan({ ...sweepPlan, spacing: e.target.value as SweepPlanConfig['spacing'] })}
+                  disabled={isAutoSending}
+                >
+                  <option value="linear">Linear</option>
+                  <option value="log">Logarithmic</option>
+                  <option value="list">Point List</option>
+                </select>
               </div>
               <div>
-                 <label className="text-[10px] text-slate-500 block mb-1 mt-4">Step (Dec)</label>
-                 <input 
-                    type="number" 
-                    value={incrementStep}
-                    onChange={(e) => setIncrementStep(Number(e.target.value))}
-                    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-center focus:border-blue-500 outline-none"
-                 />
+                <label className="text-[10px] text-slate-500 block mb-1 font-bold">Direction</label>
+                <select
+                  className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 outline-none disabled:opacity-50"
+                  value={sweepPlan.direction}
+                  onChange={(e) => setSweepPlan({ ...sweepPlan, direction: e.target.value as SweepPlanConfig['direction'] })}
+                  disabled={isAutoSending}
+                >
+                  <option value="up">Ascending</option>
+                  <option value="down">Descending</option>
+                  <option value="updown">Up + Down</option>
+                </select>
               </div>
-              {/* Expected Point Count */}
-              <div className="absolute -top-3 right-0 bg-slate-800 text-slate-400 text-[10px] px-2 py-0.5 rounded-full border border-slate-700 shadow">
-                Est. Points: <span className="text-white font-bold">{totalSweepPoints}</span>
+              <div>
+                <label className="text-[10px] text-slate-500 block mb-1 font-bold">Repeats</label>
+                <input
+                  type="number"
+                  min="1"
+                  className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-center outline-none disabled:opacity-50"
+                  value={sweepPlan.repeats}
+                  onChange={(e) => setSweepPlan({ ...sweepPlan, repeats: Math.max(1, Math.floor(Number(e.target.value))) })}
+                  disabled={isAutoSending}
+                />
               </div>
+              {sweepPlan.spacing === 'log' && (
+                <div className="col-span-3 flex items-center gap-2">
+                  <label className="text-[10px] text-slate-500">Log Points (Start → End)</label>
+                  <input
+                    type="number"
+                    min="2"
+                    className="w-20 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-center outline-none disabled:opacity-50"
+                    value={sweepPlan.logPoints}
+                    onChange={(e) => setSweepPlan({ ...sweepPlan, logPoints: Math.max(2, Math.floor(Number(e.target.value))) })}
+                    disabled={isAutoSending}
+                  />
+                  <span className="text-[9px] text-slate-600">Step is ignored</span>
+                </div>
+              )}
+              {sweepPlan.spacing === 'list' && (
+                <div className="col-span-3 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <label className="text-[10px] text-slate-500">Points (paste a column or row; Start/End/Step ignored)</label>
+                    <select
+                      className="bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[10px] text-slate-300 outline-none disabled:opacity-50"
+                      value={sweepPlan.listUnit}
+                      onChange={(e) => setSweepPlan({ ...sweepPlan, listUnit: e.target.value as SweepPlanConfig['listUnit'] })}
+                      disabled={isAutoSending}
+                    >
+                      <option value="raw">Raw counter</option>
+                      <option value="unit">{freqMapping.unit}</option>
+                    </select>
+                  </div>
+                  <textarea
+                    className="w-full h-16 bg-slate-900 border border-slate-700 rounded p-2 text-slate-200 font-mono text-xs resize-none focus:border-blue-500 outline-none disabled:opacity-50"
+                    value={sweepPlan.pointList}
+                    onChange={(e) => setSweepPlan({ ...sweepPlan, pointList: e.target.value })}
+                    placeholder={sweepPlan.listUnit === 'unit' ? '100\n250.5\n1000' : '0x0010\n200\n512'}
+                    disabled={isAutoSending}
+                    spellCheck={false}
+                  />
+                </div>
+              )}
+              {sweepSchedule.error && (
+                <div className="col-span-3 text-[10px] text-red-400">{sweepSchedule.error}</div>
+              )}
             </div>
 
             {/* Config: Byte Manipulation (TX) */}
@@ -997,9 +2468,9 @@ export default function App() {
                     onChange={(e) => setTargetByteIndex(Number(e.target.value))}
                   >
                     {/* Dynamically generate options based on hex string length */}
-                    {Array.from({ length: Math.max(0, currentBytesLength - 1) }).map((_, i) => (
+                    {Array.from({ length: Math.max(0, currentBytesLength - txFormat.width + 1) }).map((_, i) => (
                       <option key={i} value={i}>
-                        Bytes {i}-{i+1}
+                        {txFormat.width === 1 ? `Byte ${i}` : `Bytes ${i}-${i + txFormat.width - 1}`}
                       </option>
                     ))}
                   </select>
@@ -1014,6 +2485,10 @@ export default function App() {
                     <ArrowRightLeft size={12} className="text-slate-500" />
                   </button>
                </div>
+               <div className="col-span-2">
+                  <label className="text-[10px] text-slate-500 block mb-1 font-bold">TX Field Type</label>
+                  <FieldFormatSelect value={txFormat} onChange={setTxFormat} disabled={isAutoSending} />
+               </div>
             </div>
 
             {/* Config: Byte Parsing (RX) */}
@@ -1032,7 +2507,7 @@ export default function App() {
                     />
                   </div>
                   <div className="text-[9px] text-slate-600 text-right mt-0.5">
-                     {enableHeaderCheck ? '(Strict 15-byte packet)' : `(Parses ${rxByteIndex} & ${rxByteIndex+1})`}
+                     {enableHeaderCheck ? '(From frame definition)' : `(Parses ${rxByteIndex}-${rxByteIndex + rxFormat.width - 1})`}
                   </div>
                </div>
                <div>
@@ -1045,19 +2520,32 @@ export default function App() {
                     <ArrowRightLeft size={12} className="text-slate-500" />
                   </button>
                </div>
+               <div className="col-span-2">
+                  <label className="text-[10px] text-slate-500 block mb-1 font-bold">RX Field Type</label>
+                  <FieldFormatSelect value={activeRxFormat} onChange={setRxFormat} disabled={enableHeaderCheck} />
+               </div>
 
                {/* HEADER VALIDATION TOGGLE */}
                <div className="col-span-2">
-                 <button
-                    onClick={() => setEnableHeaderCheck(!enableHeaderCheck)}
-                    className={`w-full flex items-center gap-2 px-2 py-1 border rounded text-xs transition-colors ${enableHeaderCheck ? 'bg-amber-900/30 border-amber-600 text-amber-200' : 'bg-slate-900 border-slate-700 text-slate-500'}`}
-                 >
-                    <ShieldCheck size={12} className={enableHeaderCheck ? 'text-amber-400' : 'text-slate-600'} />
-                    <span>Strict Packet Validation</span>
-                 </button>
+                 <div className="flex gap-1">
+                   <button
+                      onClick={() => setEnableHeaderCheck(!enableHeaderCheck)}
+                      className={`flex-1 flex items-center gap-2 px-2 py-1 border rounded text-xs transition-colors ${enableHeaderCheck ? 'bg-amber-900/30 border-amber-600 text-amber-200' : 'bg-slate-900 border-slate-700 text-slate-500'}`}
+                   >
+                      <ShieldCheck size={12} className={enableHeaderCheck ? 'text-amber-400' : 'text-slate-600'} />
+                      <span>Strict Packet Validation</span>
+                   </button>
+                   <button
+                      onClick={() => setShowFrameEditor(true)}
+                      className="px-2 bg-slate-900 border border-slate-700 rounded text-slate-400 hover:text-white hover:bg-slate-800"
+                      title="Edit Frame Definition"
+                   >
+                      <Pencil size={12} />
+                   </button>
+                 </div>
                  {enableHeaderCheck && (
-                   <span className="text-[9px] text-amber-500 block mt-1 ml-1 font-mono leading-tight">
-                     Req: Len=15, Header=FF..56, Footer=FB..F8, Val=0-4096
+                   <span className="text-[9px] text-amber-500 block mt-1 ml-1 font-mono leading-tight break-all">
+                     {describeFrameDefinition(frameDef)}
                    </span>
                  )}
                </div>
@@ -1083,6 +2571,22 @@ export default function App() {
                    {counter} (0x{counter.toString(16).toUpperCase().padStart(4, '0')})
                 </span>
               </div>
+              {sweepProgress && (
+                <div className="space-y-1">
+                  <div className="flex justify-between text-[10px] text-slate-500 font-mono">
+                    <span>Point {sweepProgress.index + 1} / {activeScheduleRef.current?.points.length ?? totalSweepPoints}</span>
+                    {(activeScheduleRef.current?.passLabels.length ?? 0) > 1 && (
+                      <span>{activeScheduleRef.current!.passLabels[sweepProgress.pass]} of {activeScheduleRef.current!.passLabels.length}</span>
+                    )}
+                  </div>
+                  <div className="h-1 bg-slate-800 rounded overflow-hidden">
+                    <div
+                      className="h-full bg-blue-500 transition-all"
+                      style={{ width: `${((sweepProgress.index + 1) / Math.max(1, activeScheduleRef.current?.points.length ?? totalSweepPoints)) * 100}%` }}
+                    />
+                  </div>
+                </div>
+              )}
 
               {isRetrying && (
                 <div className="text-xs bg-amber-900/20 text-amber-400 p-1.5 rounded border border-amber-800 flex items-center gap-2 animate-pulse">
@@ -1091,36 +2595,211 @@ export default function App() {
                 </div>
               )}
               
-              <div className="flex items-center gap-3">
-                <div className="flex-1">
-                  <label className="text-[10px] text-slate-500 block mb-1">Interval (ms)</label>
-                  <input 
-                    type="number" 
-                    value={autoIntervalMs}
-                    onChange={(e) => setAutoIntervalMs(Math.max(50, Number(e.target.value)))}
-                    className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-center"
+              {/* Partial run: point range and the trace it extends */}
+              <div className="bg-slate-950/50 p-2 rounded border border-slate-800 space-y-1 text-[10px] text-slate-500">
+                <div className="flex items-center gap-1">
+                  <span className="font-bold">Points</span>
+                  <input
+                    type="number"
+                    min="1"
+                    max={totalSweepPoints}
+                    value={runFrom}
+                    onChange={(e) => setRunFrom(Math.max(1, Math.floor(Number(e.target.value)) || 1))}
+                    disabled={isAutoSending || !!suspendedSweep}
+                    className="w-14 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs font-mono text-center text-slate-300 outline-none disabled:opacity-50"
+                  />
+                  –
+                  <input
+                    type="number"
+                    min="1"
+                    max={totalSweepPoints}
+                    value={runTo ?? totalSweepPoints}
+                    onChange={(e) => {
+                      const n = Math.floor(Number(e.target.value));
+                      setRunTo(n >= totalSweepPoints ? null : Math.max(1, n)); // End of the list follows plan changes
+                    }}
+                    disabled={isAutoSending || !!suspendedSweep}
+                    className="w-14 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs font-mono text-center text-slate-300 outline-none disabled:opacity-50"
                   />
+                  <span>of {totalSweepPoints}</span>
+                  {(runFrom > 1 || runTo !== null) && (
+                    <button
+                      onClick={() => { setRunFrom(1); setRunTo(null); }}
+                      disabled={isAutoSending || !!suspendedSweep}
+                      className="ml-auto text-slate-500 hover:text-white"
+                      title="Whole sweep"
+                    >
+                      <X size={12} />
+                    </button>
+                  )}
                 </div>
-                <button 
-                  onClick={toggleAutoSend}
-                  disabled={status !== ConnectionStatus.CONNECTED}
-                  className={`
-                    flex-1 py-3 rounded font-bold flex flex-col items-center justify-center gap-1 transition-all
-                    ${isAutoSending 
-                      ? 'bg-amber-600 hover:bg-amber-700 text-white shadow-lg shadow-amber-900/50' 
-                      : 'bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-900/50 disabled:bg-slate-800 disabled:text-slate-600'}
-                  `}
-                >
-                  {isAutoSending ? (
-                    <> <Square size={16} fill="currentColor" /> Stop Sweep </>
+                {runFrom > 1 && sweepSchedule.schedule.points[runFrom - 1] !== undefined && (
+                  <div className="font-mono">
+                    Starts at 0x{sweepSchedule.schedule.points[runFrom - 1].toString(16).toUpperCase().padStart(4, '0')}
+                    {' '}= {formatQuantity(rawToFrequency(sweepSchedule.schedule.points[runFrom - 1]))} {freqMapping.unit}
+                  </div>
+                )}
+                <div className="flex items-center gap-1">
+                  <span className="font-bold">Into</span>
+                  <select
+                    value={traces.some(t => t.id === runTarget) ? runTarget : 'new'}
+                    onChange={(e) => setRunTarget(e.target.value)}
+                    disabled={isAutoSending || !!suspendedSweep}
+                    className="flex-1 min-w-0 bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-xs text-slate-300 outline-none disabled:opacity-50"
+                    title="Extend a saved trace; points it already has at the same X are re-measured"
+                  >
+                    <option value="new">New sweep</option>
+                    {traces.map(t => <option key={t.id} value={t.id}>Append to {t.name}</option>)}
+                  </select>
+                </div>
+              </div>
+
+              {(enableHeaderCheck || modbusEnabled) && (
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="text-[10px] text-slate-500 block mb-1">Max Retries</label>
+                    <input 
+                      type="number" 
+                      min="0"
+                      value={maxRetries}
+                      onChange={(e) => setMaxRetries(Math.max(0, Math.floor(Number(e.target.value))))}
+                      disabled={isAutoSending}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-center disabled:opacity-50"
+                    />
+                  </div>
+                  <div>
+                    <label className="text-[10px] text-slate-500 block mb-1">On Failure</label>
+                    <select
+                      value={failurePolicy}
+                      onChange={(e) => setFailurePolicy(e.target.value as SweepFailurePolicy)}
+                      disabled={isAutoSending}
+                      className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-slate-300 outline-none disabled:opacity-50"
+                    >
+                      <option value="skip">Skip Point</option>
+                      <option value="abort">Abort Sweep</option>
+                    </select>
+                  </div>
+                </div>
+              )}
+
+              <div className="flex items-center gap-3">
+                <div className="flex-1">
+                  {(enableHeaderCheck || modbusEnabled) ? (
+                    <>
+                      <label className="text-[10px] text-slate-500 block mb-1">Response Timeout (ms)</label>
+                      <input 
+                        type="number" 
+                        value={responseTimeoutMs}
+                        onChange={(e) => setResponseTimeoutMs(Math.max(10, Number(e.target.value)))}
+                        disabled={isAutoSending}
+                        className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-center disabled:opacity-50"
+                      />
+                    </>
                   ) : (
-                    <> <RefreshCw size={16} /> Start Sweep </>
+                    <>
+                      <label className="text-[10px] text-slate-500 block mb-1">Interval (ms)</label>
+                      <input 
+                        type="number" 
+                        value={autoIntervalMs}
+                        onChange={(e) => setAutoIntervalMs(Math.max(50, Number(e.target.value)))}
+                        disabled={isAutoSending}
+                        className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-sm text-center disabled:opacity-50"
+                      />
+                    </>
                   )}
-                </button>
+                </div>
+                {suspendedSweep ? (
+                  <div className="flex-1 flex gap-2">
+                    <button
+                      onClick={resumeSweep}
+                      disabled={!!resumeBlocker || isSequenceRunning}
+                      className="flex-1 py-3 rounded font-bold flex flex-col items-center justify-center gap-1 transition-all bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-900/50 disabled:bg-slate-800 disabled:text-slate-600"
+                      title={resumeBlocker ?? `Continue at point ${suspendedSweep.index + 1}`}
+                    >
+                      <Play size={16} /> Resume
+                    </button>
+                    <button
+                      onClick={discardSuspendedSweep}
+                      className="px-3 rounded font-bold flex flex-col items-center justify-center gap-1 bg-slate-800 border border-slate-700 text-slate-300 hover:text-white"
+                      title="End the sweep and keep the measured points as a partial trace"
+                    >
+                      <Square size={14} fill="currentColor" /> <span className="text-[10px]">Stop</span>
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex-1 flex gap-2">
+                    <button 
+                      onClick={toggleAutoSend}
+                      disabled={!txReady || (!isAutoSending && !rxReady) || isSequenceRunning}
+                      className={`
+                        flex-1 py-3 rounded font-bold flex flex-col items-center justify-center gap-1 transition-all
+                        ${isAutoSending 
+                          ? 'bg-amber-600 hover:bg-amber-700 text-white shadow-lg shadow-amber-900/50' 
+                          : 'bg-blue-600 hover:bg-blue-700 text-white shadow-lg shadow-blue-900/50 disabled:bg-slate-800 disabled:text-slate-600'}
+                      `}
+                    >
+                      {isAutoSending ? (
+                        <> <Square size={16} fill="currentColor" /> Stop Sweep </>
+                      ) : (
+                        <> <RefreshCw size={16} /> Start Sweep </>
+                      )}
+                    </button>
+                    {isAutoSending && (
+                      <button
+                        onClick={pauseSweep}
+                        className="px-3 rounded font-bold flex flex-col items-center justify-center gap-1 bg-slate-800 border border-slate-700 text-slate-300 hover:text-white"
+                        title="Pause; counter, chart and elapsed time are kept"
+                      >
+                        <Pause size={14} /> <span className="text-[10px]">Pause</span>
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             </div>
           </div>
 
+          {/* PORTS BOX */}
+          <PortsPanel
+            mainLabel={status === ConnectionStatus.CONNECTED && transport ? transport.getInfo().label : null}
+            ports={extraPorts}
+            traffic={portTrafficRef.current}
+            portOptions={[
+              ...knownPorts.map((p, idx) => ({ value: idx, label: describeWebSerialPort(p, idx) })),
+              ...(isSupported ? [{ value: knownPorts.length, label: 'Other device...' }] : []),
+              { value: MOCK_PORT_INDEX, label: 'Mock Device' }
+            ]}
+            defaultConfig={config}
+            canOpen={!isReplaying}
+            onOpen={openExtraPort}
+            onClose={closeExtraPort}
+            txPortId={txPortId}
+            rxPortId={rxPortId}
+            onTxPortChange={setTxPortId}
+            onRxPortChange={(id) => {
+              resetRxBuffer(); // Never join frames from two devices
+              setRxPortId(id);
+            }}
+            routingLocked={isAutoSending || isSequenceRunning}
+          />
+
+          {/* SESSION RECORDING BOX */}
+          <SessionPanel
+            isRecording={isRecording}
+            onToggleRecord={toggleRecording}
+            loadedSession={loadedSession && {
+              name: loadedSession.name,
+              events: loadedSession.recording.events.length,
+              durationMs: sessionDurationMs(loadedSession.recording)
+            }}
+            onLoad={loadSession}
+            replaySpeed={replaySpeed}
+            onReplaySpeedChange={setReplaySpeed}
+            isReplaying={isReplaying}
+            canReplay={status !== ConnectionStatus.CONNECTED && extraPorts.length === 0}
+            onToggleReplay={toggleReplay}
+          />
+
           {/* STATISTICS BOX */}
           <div className="bg-slate-900 p-4 rounded-lg border border-slate-800 shadow-lg space-y-3">
              <h3 className="text-slate-400 text-sm font-bold uppercase tracking-wider flex items-center gap-2">
@@ -1148,12 +2827,30 @@ export default function App() {
              </div>
           </div>
 
+          {/* LINK TIMING BOX */}
+          <LinkStatsPanel
+            stats={linkStats?.stats ?? null}
+            histogram={linkStats?.histogram ?? []}
+            intervalMs={autoIntervalMs}
+            responseTimeoutMs={responseTimeoutMs}
+            onReset={resetLinkStats}
+          />
+
           {/* TERMINAL */}
           <div className="flex-1 min-h-[200px]">
             <Terminal 
-              logs={logs} 
+              logs={logEntriesRef.current}
+              logVersion={logVersion}
               clearLogs={clearLogs} 
               onExport={handleExportLogs}
+              displayMode={terminalMode}
+              onDisplayModeChange={setTerminalMode}
+              rxDelimiter={rxDelimiter}
+              onRxDelimiterChange={setRxDelimiter}
+              ports={[
+                ...(status === ConnectionStatus.CONNECTED ? [{ id: MAIN_PORT_ID, name: 'Main' }] : []),
+                ...extraPorts.map(p => ({ id: p.id, name: p.id }))
+              ].map(p => ({ ...p, traffic: portTrafficRef.current[p.id] ?? { txBytes: 0, rxBytes: 0 } }))}
             />
           </div>
 
@@ -1163,11 +2860,16 @@ export default function App() {
         <div className="h-full min-h-[300px]">
           <ChartPanel 
             data={chartData} 
-            rxConfigLabel={enableHeaderCheck 
-              ? `Strict Packet (Bytes 6-7, ${rxIsBigEndian ? 'High First' : 'Low First'})`
-              : `Received (Bytes ${rxByteIndex}-${rxByteIndex+1}, ${rxIsBigEndian ? 'High First' : 'Low First'})`
-            }
-            totalPoints={totalSweepPoints}
+            rxConfigLabel={rxConfigLabel}
+            xUnit={freqMapping.unit}
+            xConfigLabel={describeFrequencyMapping(freqMapping)}
+            totalPoints={isAutoSending && activeScheduleRef.current ? activeScheduleRef.current.points.length : totalSweepPoints}
+            passLabels={activeScheduleRef.current?.passLabels}
+            traces={traces}
+            onUpdateTrace={updateTrace}
+            onDeleteTrace={deleteTrace}
+            onExport={exportSweep}
+            onImport={importSweepFiles}
           />
         </div>
 
@@ -0,0 +1,234 @@
+import { readFile, writeFile } from 'node:fs/promises';
+import { extname } from 'node:path';
+import { parseArgs } from 'node:util';
+import { DeviceProfile, DeviceSettings, LogRecord, SerialTransport, SweepTrace } from '../types';
+import { DEFAULT_DEVICE_SETTINGS, parseProfiles } from '../utils/deviceProfiles';
+import { buildScheduleFromSettings, checkSweepFrames, sweepTraceConfig } from '../utils/sweepSettings';
+import { SweepExportFormat, buildSweepExport, serializeSweepExport } from '../utils/sweepExport';
+import { LOG_EXPORT_FORMATS, LogExportFormat, serializeLogRecords } from '../utils/logExport';
+import { describeLinkStats } from '../utils/linkStats';
+import { nextTraceColor } from '../utils/traceUtils';
+import { createMockScriptForSettings, createMockTransport } from '../services/mockTransport';
+import { createNodeSerialTransport } from '../services/nodeSerialTransport';
+import { SweepRunResult, createSweepRunner } from '../services/sweepRunner';
+
+// Exit codes, for scripts and CI jobs
+const EXIT_OK = 0;
+const EXIT_SWEEP_FAILED = 1; // Aborted, read error, no valid point, or a skip with --fail-on-skip
+const EXIT_USAGE = 2;        // Bad arguments or profile
+const EXIT_DEVICE = 3;       // Device could not be opened
+const EXIT_INTERRUPTED = 130;
+
+const USAGE = `Usage: hexserial-sweep --profile <file> (--device <path> | --mock) [options]
+
+Runs one sweep with the settings of a device profile exported from the app
+and writes the trace in the app's sweep export format.
+
+Options:
+  --profile <file>     Profile file (hexserial-profiles JSON); defaults if omitted
+  --name <name>        Profile to use when the file holds several
+  --device <path>      Serial device, e.g. /dev/ttyUSB0
+  --mock               Use the simulated device from the profile's mock settings
+  --baud <rate>        Override the profile's baud rate
+  --from <n>           First point to send (1-based)
+  --to <n>             Last point to send (1-based, inclusive)
+  --out <file>         Sweep export; stdout if omitted
+  --format <csv|json>  Export format; from the --out extension, else csv
+  --log <file>         Session log (TX/RX/info/data records)
+  --log-format <fmt>   text, csv, jsonl or hexdump; from the --log extension, else text
+  --fail-on-skip       Exit ${EXIT_SWEEP_FAILED} when any point was skipped
+  --quiet              Only print errors
+  --help               Show this help
+
+Exit codes: ${EXIT_OK} complete, ${EXIT_SWEEP_FAILED} sweep failed, ${EXIT_USAGE} bad arguments or profile,
+${EXIT_DEVICE} device open failed, ${EXIT_INTERRUPTED} interrupted`;
+
+// Errors from arguments or the profile; reported with the usage text
+const usageError = (message: string) => Object.assign(new Error(message), { usage: true });
+
+const parseCount = (value: string | undefined, flag: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw usageError(`${flag} must be a positive integer`);
+  return n;
+};
+
+const exportFormatOf = (file: string | undefined, explicit: string | undefined): SweepExportFormat => {
+  const format = explicit ?? (file && extname(file).toLowerCase() === '.json' ? 'json' : 'csv');
+  if (format !== 'csv' && format !== 'json') throw usageError(`Unknown --format "${format}"`);
+  return format;
+};
+
+const logFormatOf = (file: string, explicit: string | undefined): LogExportFormat => {
+  if (explicit !== undefined) {
+    if (!(explicit in LOG_EXPORT_FORMATS)) throw usageError(`Unknown --log-format "${explicit}"`);
+    return explicit as LogExportFormat;
+  }
+  const lower = file.toLowerCase();
+  const match = (Object.keys(LOG_EXPORT_FORMATS) as LogExportFormat[])
+    .filter(f => lower.endsWith(LOG_EXPORT_FORMATS[f].extension))
+    .sort((a, b) => LOG_EXPORT_FORMATS[b].extension.length - LOG_EXPORT_FORMATS[a].extension.length)[0];
+  return match ?? 'text';
+};
+
+const loadProfile = async (file: string | undefined, name: string | undefined): Promise<DeviceProfile> => {
+  if (!file) {
+    if (name) throw usageError('--name needs --profile');
+    return { id: 'default', name: 'default', settings: DEFAULT_DEVICE_SETTINGS };
+  }
+  let text: string;
+  try {
+    text = await readFile(file, 'utf8');
+  } catch (e: any) {
+    throw usageError(`Cannot read ${file}: ${e.message}`);
+  }
+  let profiles: DeviceProfile[];
+  const issues: { profile: string; message: string }[] = [];
+  try {
+    profiles = parseProfiles(text, (profile, message) => issues.push({ profile, message }));
+  } catch (e: any) {
+    throw usageError(`${file}: ${e.message}`);
+  }
+  if (profiles.length === 0) throw usageError(`${file} holds no profiles`);
+  if (name === undefined && profiles.length > 1) {
+    throw usageError(`${file} holds ${profiles.length} profiles; pick one with --name (${profiles.map(p => p.name).join(', ')})`);
+  }
+  const profile = name === undefined ? profiles[0] : profiles.find(p => p.name === name);
+  if (!profile) throw usageError(`No profile named "${name}" in ${file}`);
+  // The app would quietly run with defaults; a script should not
+  const issue = issues.find(i => i.profile === profile.name);
+  if (issue) throw usageError(`Profile "${profile.name}": ${issue.message}`);
+  return profile;
+};
+
+const main = async (): Promise<number> => {
+  const { values } = parseArgs({
+    options: {
+      profile: { type: 'string' },
+      name: { type: 'string' },
+      device: { type: 'string' },
+      mock: { type: 'boolean', default: false },
+      baud: { type: 'string' },
+      from: { type: 'string' },
+      to: { type: 'string' },
+      out: { type: 'string' },
+      format: { type: 'string' },
+      log: { type: 'string' },
+      'log-format': { type: 'string' },
+      'fail-on-skip': { type: 'boolean', default: false },
+      quiet: { type: 'boolean', default: false },
+      help: { type: 'boolean', default: false }
+    },
+    strict: true
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return EXIT_OK;
+  }
+
+  const quiet = values.quiet;
+  const note = (text: string) => { if (!quiet) console.error(text); };
+
+  // Settings, schedule and output formats; any problem here is a usage error
+  if (!values.device === !values.mock) throw usageError('Pass exactly one of --device and --mock');
+  const profile = await loadProfile(values.profile, values.name);
+  const baud = parseCount(values.baud, '--baud');
+  const settings: DeviceSettings = baud ? { ...profile.settings, serial: { ...profile.settings.serial, baudRate: baud } } : profile.settings;
+  const outFormat = exportFormatOf(values.out, values.format);
+  const logFormat = values.log ? logFormatOf(values.log, values['log-format']) : null;
+
+  const { schedule, error: scheduleError } = buildScheduleFromSettings(settings);
+  if (scheduleError) throw usageError(`Sweep range: ${scheduleError}`);
+  if (schedule.points.length === 0) throw usageError('Sweep range holds no points');
+  const from = parseCount(values.from, '--from') ?? 1;
+  const to = parseCount(values.to, '--to') ?? schedule.points.length;
+  if (from > to || to > schedule.points.length) throw usageError(`--from/--to must lie within 1..${schedule.points.length}`);
+  const frameError = checkSweepFrames(settings, schedule, from - 1);
+  if (frameError) throw usageError(frameError);
+
+  // Device
+  const transport: SerialTransport = values.mock
+    ? createMockTransport(createMockScriptForSettings(settings), settings.mock)
+    : createNodeSerialTransport(values.device!);
+  try {
+    await transport.open(settings.serial);
+  } catch (e: any) {
+    console.error(`Cannot open ${values.mock ? 'mock device' : values.device}: ${e.message}`);
+    return EXIT_DEVICE;
+  }
+  note(`Profile "${profile.name}" on ${transport.getInfo().label}: ${to - from + 1} points`);
+
+  const records: LogRecord[] = [];
+  const total = to - from + 1;
+  const runner = createSweepRunner({
+    settings,
+    transport,
+    schedule,
+    startIndex: from - 1,
+    stopIndex: to,
+    onRecord: record => {
+      records.push(record);
+      if (record.direction === 'error') console.error(record.text);
+    },
+    onPoint: (point, i) => note(`[${i + 1}/${total}] ${point.x} ${settings.freqMapping.unit}: ${point.y ?? 'SKIPPED'}`)
+  });
+
+  let interrupted = false;
+  const onSigint = () => {
+    interrupted = true;
+    runner.stop();
+  };
+  process.once('SIGINT', onSigint);
+
+  let result: SweepRunResult;
+  try {
+    result = await runner.run();
+  } finally {
+    process.off('SIGINT', onSigint);
+    await transport.close().catch(() => {});
+  }
+
+  // Whatever was measured is written, also after a failure
+  if (result.data.length > 0) {
+    const trace: SweepTrace = {
+      id: crypto.randomUUID(),
+      name: profile.name,
+      color: nextTraceColor(0),
+      visible: true,
+      createdAt: result.startedAt.toISOString(),
+      partial: result.outcome !== 'complete',
+      durationMs: result.durationMs,
+      stats: result.stats,
+      config: sweepTraceConfig(settings),
+      data: result.data
+    };
+    const text = serializeSweepExport(buildSweepExport(trace), outFormat);
+    if (values.out) await writeFile(values.out, text);
+    else process.stdout.write(`${text}\n`);
+  }
+  if (values.log && logFormat) await writeFile(values.log, serializeLogRecords(records, logFormat));
+
+  const skipped = result.data.filter(p => p.y === null).length;
+  const measured = result.data.length - skipped;
+  note(`Sweep ${result.outcome}: ${measured} measured, ${skipped} skipped, ${result.stats.invalid} invalid in ${(result.durationMs / 1000).toFixed(1)} s`);
+  note(describeLinkStats(result.link));
+
+  if (interrupted) return EXIT_INTERRUPTED;
+  if (result.outcome !== 'complete' || measured === 0) return EXIT_SWEEP_FAILED;
+  if (values['fail-on-skip'] && skipped > 0) return EXIT_SWEEP_FAILED;
+  return EXIT_OK;
+};
+
+main().then(
+  code => { process.exitCode = code; },
+  (e: any) => {
+    if (e?.usage || e?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+      console.error(`${e.message}\n\n${USAGE}`);
+      process.exitCode = EXIT_USAGE;
+    } else {
+      console.error(e?.stack ?? e);
+      process.exitCode = EXIT_SWEEP_FAILED;
+    }
+  }
+);
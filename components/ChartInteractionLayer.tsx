@@ -0,0 +1,95 @@
+import React, { useRef, useState } from 'react';
+import { usePlotArea, useXAxisDomain, useXAxisInverseScale } from 'recharts';
+
+export type ChartTool = 'zoom' | 'pan' | 'cursor';
+
+interface ChartInteractionLayerProps {
+  tool: ChartTool;
+  onZoom: (x1: number, x2: number) => void;
+  onPan: (domain: [number, number]) => void;
+  onCursor: (x: number, phase: 'start' | 'move') => void;
+}
+
+// Drags shorter than this are clicks, not zoom boxes
+const MIN_DRAG_PX = 4;
+
+/**
+ * Transparent rectangle over the plot area that turns mouse drags into data
+ * coordinates. Rendered inside the LineChart so it can use the axis scales;
+ * mouse events still bubble to the chart, so the tooltip keeps working.
+ */
+export const ChartInteractionLayer: React.FC<ChartInteractionLayerProps> = ({ tool, onZoom, onPan, onCursor }) => {
+  const plot = usePlotArea();
+  const domain = useXAxisDomain();
+  const toData = useXAxisInverseScale();
+  const [selection, setSelection] = useState<[number, number] | null>(null); // Pixels
+  const latest = useRef({ toData, onZoom, onPan, onCursor });
+  latest.current = { toData, onZoom, onPan, onCursor };
+
+  if (!plot || !toData || !domain || typeof domain[0] !== 'number') return null;
+  const startDomain: [number, number] = [Number(domain[0]), Number(domain[domain.length - 1])];
+
+  const clampPx = (px: number) => Math.min(plot.x + plot.width, Math.max(plot.x, px));
+
+  const onMouseDown = (e: React.MouseEvent<SVGRectElement>) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    const svg = e.currentTarget.ownerSVGElement;
+    if (!svg) return;
+    const left = svg.getBoundingClientRect().left;
+    const startPx = clampPx(e.clientX - left);
+    const dataAt = (px: number) => Number(latest.current.toData!(px));
+
+    if (tool === 'cursor') latest.current.onCursor(dataAt(startPx), 'start');
+
+    const move = (ev: MouseEvent) => {
+      const px = clampPx(ev.clientX - left);
+      if (tool === 'zoom') setSelection([startPx, px]);
+      else if (tool === 'cursor') latest.current.onCursor(dataAt(px), 'move');
+      else {
+        // The scale follows the domain while panning, so measure against the start
+        const span = startDomain[1] - startDomain[0];
+        const shift = ((startPx - (ev.clientX - left)) / plot.width) * span;
+        latest.current.onPan([startDomain[0] + shift, startDomain[1] + shift]);
+      }
+    };
+    const up = (ev: MouseEvent) => {
+      window.removeEventListener('mousemove', move);
+      window.removeEventListener('mouseup', up);
+      setSelection(null);
+      const px = clampPx(ev.clientX - left);
+      if (tool === 'zoom' && Math.abs(px - startPx) >= MIN_DRAG_PX) {
+        const [a, b] = [dataAt(startPx), dataAt(px)];
+        latest.current.onZoom(Math.min(a, b), Math.max(a, b));
+      }
+    };
+    window.addEventListener('mousemove', move);
+    window.addEventListener('mouseup', up);
+  };
+
+  return (
+    <g>
+      {selection && (
+        <rect
+          x={Math.min(...selection)}
+          y={plot.y}
+          width={Math.abs(selection[1] - selection[0])}
+          height={plot.height}
+          fill="#3b82f6"
+          fillOpacity={0.15}
+          stroke="#3b82f6"
+          strokeDasharray="3 3"
+        />
+      )}
+      <rect
+        x={plot.x}
+        y={plot.y}
+        width={plot.width}
+        height={plot.height}
+        fill="transparent"
+        style={{ cursor: tool === 'pan' ? 'grab' : tool === 'cursor' ? 'col-resize' : 'crosshair' }}
+        onMouseDown={onMouseDown}
+      />
+    </g>
+  );
+};
@@ -1,4 +1,4 @@
-import React, { useMemo } from 'react';
+import React, { useMemo, useRef, useState } from 'react';
 import {
   LineChart,
   Line,
@@ -9,26 +9,148 @@ import {
   Legend,
   ResponsiveContainer,
   ReferenceDot,
+  ReferenceLine,
   Label
 } from 'recharts';
-import { ChartDataPoint } from '../types';
+import { Eye, EyeOff, Trash2, Layers, GitCompare, Download, Upload, Crosshair, ZoomIn, Move, RotateCcw, SplitSquareHorizontal, X } from 'lucide-react';
+import { ChartDataPoint, SweepTrace } from '../types';
+import { YScaleMode, diffTraces, interpolateAt, measuredSorted, scalePoints, scaleY, valueExtent } from '../utils/traceUtils';
+import { SweepExportFormat } from '../utils/sweepExport';
+import { ResonanceOptions, DEFAULT_RESONANCE_OPTIONS, analyzeResonance } from '../utils/resonance';
+import { ResonancePanel } from './ResonancePanel';
+import { ChartTool, ChartInteractionLayer } from './ChartInteractionLayer';
 
 interface ChartPanelProps {
   data: ChartDataPoint[];
   rxConfigLabel?: string;
+  xUnit?: string;
+  xConfigLabel?: string; // How raw counter values map to X
   totalPoints?: number;
+  traces?: SweepTrace[];
+  onUpdateTrace?: (id: string, patch: Partial<SweepTrace>) => void;
+  onDeleteTrace?: (id: string) => void;
+  // traceId null = live data; analysis options are set while the analysis panel is open
+  onExport?: (traceId: string | null, format: SweepExportFormat, analysis: ResonanceOptions | null) => void;
+  onImport?: (files: File[]) => void;
+  passLabels?: string[]; // Names for the live sweep's passes (hysteresis / repeats)
 }
 
-export const ChartPanel: React.FC<ChartPanelProps> = ({ 
-  data, 
+const LIVE_ID = 'live';
+const LIVE_COLOR = '#10b981';
+const PASS_COLORS = [LIVE_COLOR, '#f97316', '#06b6d4', '#eab308', '#ec4899', '#84cc16'];
+const PEAK_COLOR = '#f87171';
+const FIT_COLOR = '#a78bfa';
+const CURSOR_COLORS = { a: '#38bdf8', b: '#fbbf24' };
+
+// Axis and readout numbers: enough digits for a zoomed-in view, no float noise
+const fmt = (value: number) => String(Number(value.toPrecision(7)));
+
+export const ChartPanel: React.FC<ChartPanelProps> = ({
+  data,
   rxConfigLabel = "Received (Bytes 7-8)",
-  totalPoints = 0
+  xUnit = 'kHz',
+  xConfigLabel = '(Val / 2^16 * 32000) kHz',
+  totalPoints = 0,
+  traces = [],
+  onUpdateTrace,
+  onDeleteTrace,
+  onExport,
+  onImport,
+  passLabels = []
 }) => {
-  // Calculate Peak
+  const [viewMode, setViewMode] = useState<'overlay' | 'diff'>('overlay');
+  const [exportFormat, setExportFormat] = useState<SweepExportFormat>('csv');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [diffA, setDiffA] = useState<string>(LIVE_ID);
+  const [diffB, setDiffB] = useState<string>('');
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [analysisOptions, setAnalysisOptions] = useState<ResonanceOptions>(DEFAULT_RESONANCE_OPTIONS);
+  const [analysisTarget, setAnalysisTarget] = useState<string>(LIVE_ID);
+  const [tool, setTool] = useState<ChartTool>('zoom');
+  const [xDomain, setXDomain] = useState<[number, number] | null>(null); // null = fit all data
+  const [yScale, setYScale] = useState<YScaleMode>('linear');
+  const [cursors, setCursors] = useState<{ a: number | null; b: number | null }>({ a: null, b: null });
+  const cursorTargetRef = useRef<'a' | 'b'>('a');
+
+  // Differences can be negative, so they always plot linearly
+  const yMode: YScaleMode = viewMode === 'diff' ? 'linear' : yScale;
+  const liveScaled = useMemo(() => scalePoints(data, yMode), [data, yMode]);
+
+  // Calculate Peak (skipped points carry y = null)
   const peakPoint = useMemo(() => {
-    if (data.length === 0) return null;
-    return data.reduce((max, current) => (current.y > max.y ? current : max), data[0]);
-  }, [data]);
+    const measured = liveScaled.filter(p => p.y !== null);
+    if (measured.length === 0) return null;
+    return measured.reduce((max, current) => (current.y! > max.y! ? current : max), measured[0]);
+  }, [liveScaled]);
+
+  // Multi-pass sweeps get one line per pass so up/down legs stay apart
+  const livePasses = useMemo(() => {
+    const byPass = new Map<number, ChartDataPoint[]>();
+    liveScaled.forEach(p => {
+      const pass = p.pass ?? 0;
+      const points = byPass.get(pass);
+      if (points) points.push(p);
+      else byPass.set(pass, [p]);
+    });
+    return Array.from(byPass.entries()).sort((a, b) => a[0] - b[0]);
+  }, [liveScaled]);
+
+  const traceData = (id: string): ChartDataPoint[] | null => {
+    if (id === LIVE_ID) return data;
+    return traces.find(t => t.id === id)?.data ?? null;
+  };
+  const traceName = (id: string) => id === LIVE_ID ? 'Live' : traces.find(t => t.id === id)?.name ?? '?';
+
+  const diffData = useMemo(() => {
+    if (viewMode !== 'diff') return null;
+    const a = traceData(diffA);
+    const b = traceData(diffB);
+    if (!a || !b || diffA === diffB) return null;
+    return diffTraces(a, b);
+  }, [viewMode, diffA, diffB, data, traces]);
+
+  const analysis = useMemo(() => {
+    if (!showAnalysis) return null;
+    return analyzeResonance(traceData(analysisTarget) ?? data, analysisOptions);
+  }, [showAnalysis, analysisTarget, analysisOptions, data, traces]);
+
+  const visibleTraces = useMemo(
+    () => traces.filter(t => t.visible).map(t => ({ ...t, data: scalePoints(t.data, yMode) })),
+    [traces, yMode]
+  );
+  const fitCurve = useMemo(() => (analysis?.fit ? scalePoints(analysis.fit.curve, yMode) : null), [analysis, yMode]);
+
+  const plottedSeries = viewMode === 'diff'
+    ? (diffData ? [diffData] : [])
+    : [liveScaled, ...visibleTraces.map(t => t.data)];
+
+  // Y follows the zoomed X range; log axes always need an explicit positive range
+  const yDomain = useMemo((): [number, number] | null => {
+    if (xDomain === null && yMode !== 'log') return null;
+    const extent = valueExtent(plottedSeries, xDomain?.[0] ?? -Infinity, xDomain?.[1] ?? Infinity);
+    if (!extent) return null;
+    const [lo, hi] = extent;
+    if (yMode === 'log') return [lo / 1.2, hi * 1.2];
+    const pad = (hi - lo) * 0.05 || Math.abs(hi) * 0.05 || 1;
+    return [lo - pad, hi + pad];
+  }, [xDomain, yMode, liveScaled, visibleTraces, diffData, viewMode]);
+
+  // Cursors read the live sweep, or the first visible trace when there is none
+  const cursorSeries = useMemo(() => {
+    const series = plottedSeries.find(points => points.some(p => p.y !== null)) ?? [];
+    return measuredSorted(series);
+  }, [liveScaled, visibleTraces, diffData, viewMode]);
+  const cursorY = (x: number | null) => (x === null ? null : interpolateAt(cursorSeries, x));
+
+  const handleCursor = (x: number, phase: 'start' | 'move') => {
+    if (phase === 'start') {
+      const { a, b } = cursors;
+      cursorTargetRef.current = a === null ? 'a' : b === null ? 'b' : Math.abs(x - a) <= Math.abs(x - b) ? 'a' : 'b';
+    }
+    setCursors(prev => ({ ...prev, [cursorTargetRef.current]: x }));
+  };
+
+  const selectableIds = [LIVE_ID, ...traces.map(t => t.id)];
 
   return (
     <div className="w-full h-full bg-slate-900 rounded-lg border border-slate-800 p-4 shadow-lg flex flex-col">
@@ -41,73 +163,400 @@ export const ChartPanel: React.FC<ChartPanelProps> = ({
             <span className="text-xs font-mono bg-slate-800 text-blue-400 px-2 py-0.5 rounded border border-slate-700">
               Points: {data.length} / {totalPoints > 0 ? totalPoints : '-'}
             </span>
+            <div className="flex text-xs rounded border border-slate-700 overflow-hidden">
+              <button
+                onClick={() => setViewMode('overlay')}
+                className={`px-2 py-0.5 flex items-center gap-1 ${viewMode === 'overlay' ? 'bg-slate-700 text-white' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}
+              >
+                <Layers size={12} /> Overlay
+              </button>
+              <button
+                onClick={() => setViewMode('diff')}
+                className={`px-2 py-0.5 flex items-center gap-1 ${viewMode === 'diff' ? 'bg-slate-700 text-white' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}
+              >
+                <GitCompare size={12} /> Difference
+              </button>
+            </div>
+            <button
+              onClick={() => setShowAnalysis(!showAnalysis)}
+              className={`px-2 py-0.5 text-xs rounded border flex items-center gap-1 ${showAnalysis ? 'bg-slate-700 border-slate-600 text-white' : 'bg-slate-800 border-slate-700 text-slate-500 hover:text-slate-300'}`}
+              title="Resonance analysis: peaks, bandwidth, Q, Lorentzian fit"
+            >
+              <Crosshair size={12} /> Analysis
+            </button>
+            {viewMode === 'diff' && (
+              <div className="flex items-center gap-1 text-xs">
+                <select
+                  className="bg-slate-800 border border-slate-700 text-slate-300 rounded px-1 py-0.5 outline-none"
+                  value={diffA}
+                  onChange={(e) => setDiffA(e.target.value)}
+                >
+                  {selectableIds.map(id => <option key={id} value={id}>{traceName(id)}</option>)}
+                </select>
+                <span className="text-slate-500">−</span>
+                <select
+                  className="bg-slate-800 border border-slate-700 text-slate-300 rounded px-1 py-0.5 outline-none"
+                  value={diffB}
+                  onChange={(e) => setDiffB(e.target.value)}
+                >
+                  <option value="">Select...</option>
+                  {selectableIds.map(id => <option key={id} value={id}>{traceName(id)}</option>)}
+                </select>
+              </div>
+            )}
           </div>
         </div>
-        <span className="text-xs font-normal normal-case opacity-50 text-right">
-           X: (Val / 65536 * 32000) kHz <br/> Y: {rxConfigLabel}
-        </span>
+        <div className="flex flex-col items-end gap-1">
+          <div className="flex items-center gap-1 text-xs">
+            <select
+              className="bg-slate-800 border border-slate-700 text-slate-300 rounded px-1 py-0.5 outline-none"
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as SweepExportFormat)}
+              title="Sweep export format"
+            >
+              <option value="csv">CSV</option>
+              <option value="json">JSON</option>
+            </select>
+            <button
+              onClick={() => onExport?.(null, exportFormat, showAnalysis ? analysisOptions : null)}
+              disabled={data.length === 0}
+              className="flex items-center gap-1 px-2 py-0.5 bg-slate-800 border border-slate-700 rounded text-slate-400 hover:text-blue-400 disabled:opacity-50"
+              title="Export the live sweep with its metadata"
+            >
+              <Download size={12} /> Export
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex items-center gap-1 px-2 py-0.5 bg-slate-800 border border-slate-700 rounded text-slate-400 hover:text-blue-400"
+              title="Load sweep CSV/JSON or legacy log exports as traces"
+            >
+              <Upload size={12} /> Import
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              accept=".csv,.json,.txt,.log"
+              className="hidden"
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? []);
+                e.target.value = '';
+                if (files.length > 0) onImport?.(files);
+              }}
+            />
+          </div>
+          <span className="text-xs font-normal normal-case opacity-50 text-right">
+             X: {xConfigLabel} <br/> Y: {rxConfigLabel}
+          </span>
+        </div>
+      </div>
+
+      {/* Zoom / Pan / Cursor Toolbar */}
+      <div className="flex flex-wrap items-center gap-2 mb-1 text-xs">
+        <div className="flex rounded border border-slate-700 overflow-hidden">
+          {([
+            ['zoom', <ZoomIn size={12} />, 'Drag to zoom into an X range'],
+            ['pan', <Move size={12} />, 'Drag to pan'],
+            ['cursor', <SplitSquareHorizontal size={12} />, 'Click or drag to place cursors A and B']
+          ] as const).map(([id, icon, title]) => (
+            <button
+              key={id}
+              onClick={() => setTool(id)}
+              className={`px-1.5 py-0.5 flex items-center gap-1 capitalize ${tool === id ? 'bg-slate-700 text-white' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}
+              title={title}
+            >
+              {icon} {id}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setXDomain(null)}
+          disabled={xDomain === null}
+          className="px-1.5 py-0.5 flex items-center gap-1 bg-slate-800 border border-slate-700 rounded text-slate-400 hover:text-white disabled:opacity-40"
+          title="Show all data"
+        >
+          <RotateCcw size={12} /> Reset
+        </button>
+        <select
+          className="bg-slate-800 border border-slate-700 text-slate-300 rounded px-1 py-0.5 outline-none disabled:opacity-50"
+          value={yMode}
+          onChange={(e) => setYScale(e.target.value as YScaleMode)}
+          disabled={viewMode === 'diff'}
+          title="Y axis scale"
+        >
+          <option value="linear">Linear Y</option>
+          <option value="log">Log Y</option>
+          <option value="db">dB Y (20·log10)</option>
+        </select>
+        {(cursors.a !== null || cursors.b !== null) && (
+          <div className="flex items-center gap-2 font-mono text-[11px] bg-slate-950 border border-slate-800 rounded px-2 py-0.5">
+            {(['a', 'b'] as const).map(id => {
+              const x = cursors[id];
+              const y = cursorY(x);
+              return x === null ? null : (
+                <span key={id} style={{ color: CURSOR_COLORS[id] }}>
+                  {id.toUpperCase()}: {fmt(x)} {xUnit}, {y === null ? '—' : fmt(y)}
+                </span>
+              );
+            })}
+            {cursors.a !== null && cursors.b !== null && (() => {
+              const ya = cursorY(cursors.a);
+              const yb = cursorY(cursors.b);
+              return (
+                <span className="text-slate-300">
+                  ΔX: {fmt(cursors.b - cursors.a)} {xUnit}, ΔY: {ya === null || yb === null ? '—' : fmt(yb - ya)}
+                </span>
+              );
+            })()}
+            <button onClick={() => setCursors({ a: null, b: null })} className="text-slate-500 hover:text-white" title="Remove cursors">
+              <X size={12} />
+            </button>
+          </div>
+        )}
       </div>
       
       <div className="flex-1 min-h-0">
+        {viewMode === 'diff' && !diffData ? (
+          <div className="h-full flex items-center justify-center text-slate-600 italic text-sm">
+            Select two different traces to compare.
+          </div>
+        ) : (
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart data={data} margin={{ top: 20, right: 30, left: 10, bottom: 20 }}>
+          <LineChart margin={{ top: 20, right: 30, left: 10, bottom: 20 }}>
             <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
             <XAxis 
               dataKey="x" 
               type="number"
-              domain={['auto', 'auto']}
+              domain={xDomain ?? ['auto', 'auto']}
+              allowDataOverflow={xDomain !== null}
+              tickFormatter={(v) => fmt(Number(v))}
               tickCount={10}
-              label={{ value: 'Frequency (kHz)', position: 'insideBottom', offset: -10, fill: '#94a3b8' }}
+              label={{ value: `Frequency (${xUnit})`, position: 'insideBottom', offset: -10, fill: '#94a3b8' }}
               stroke="#94a3b8" 
               fontSize={12} 
               tick={{fill: '#94a3b8'}}
             />
-            <YAxis 
-              label={{ value: 'Response', angle: -90, position: 'insideLeft', fill: '#94a3b8' }}
-              stroke="#94a3b8" 
-              fontSize={12} 
-              tick={{fill: '#94a3b8'}} 
+            <YAxis
+              scale={yMode === 'log' ? 'log' : 'auto'}
+              domain={yDomain ?? ['auto', 'auto']}
+              allowDataOverflow={yDomain !== null}
+              tickFormatter={(v) => fmt(Number(v))}
+              label={{ value: viewMode === 'diff' ? 'Difference' : yMode === 'db' ? 'Response (dB)' : 'Response', angle: -90, position: 'insideLeft', fill: '#94a3b8' }}
+              stroke="#94a3b8"
+              fontSize={12}
+              tick={{fill: '#94a3b8'}}
             />
             <Tooltip 
               contentStyle={{ backgroundColor: '#1e293b', borderColor: '#475569', color: '#f8fafc' }}
               itemStyle={{ color: '#f8fafc' }}
-              labelFormatter={(val) => `Freq: ${val} kHz`}
+              labelFormatter={(val) => `Freq: ${val} ${xUnit}`}
             />
             <Legend verticalAlign="top" height={36}/>
-            
-            <Line 
-              type="monotone" 
-              dataKey="y" 
-              name="Response Value" 
-              stroke="#10b981" 
-              strokeWidth={2} 
-              dot={{ r: 3, fill: '#10b981' }}
-              activeDot={{ r: 6 }}
-              isAnimationActive={false}
-              connectNulls
-            />
 
-            {/* Peak Annotation */}
-            {peakPoint && (
-              <ReferenceDot 
-                x={peakPoint.x} 
-                y={peakPoint.y} 
-                r={6} 
-                fill="#f87171" 
-                stroke="#fff"
-              >
-                <Label 
-                  value={`Peak: ${peakPoint.y} @ ${peakPoint.x}kHz`} 
-                  position="top" 
-                  fill="#f87171"
-                  fontSize={12}
-                  fontWeight="bold"
+            {viewMode === 'diff' && diffData ? (
+              <>
+                <ReferenceLine y={0} stroke="#64748b" strokeDasharray="4 4" />
+                <Line
+                  data={diffData}
+                  type="monotone"
+                  dataKey="y"
+                  name={`${traceName(diffA)} − ${traceName(diffB)}`}
+                  stroke="#f59e0b"
+                  strokeWidth={2}
+                  dot={{ r: 2, fill: '#f59e0b' }}
+                  isAnimationActive={false}
+                  connectNulls={false}
                 />
-              </ReferenceDot>
+              </>
+            ) : (
+              <>
+                {visibleTraces.map(trace => (
+                  <Line
+                    key={trace.id}
+                    data={trace.data}
+                    type="monotone"
+                    dataKey="y"
+                    name={trace.name}
+                    stroke={trace.color}
+                    strokeWidth={1.5}
+                    dot={false}
+                    isAnimationActive={false}
+                    connectNulls={false}
+                  />
+                ))}
+
+                {livePasses.length <= 1 ? (
+                  <Line
+                    data={liveScaled}
+                    type="monotone"
+                    dataKey="y"
+                    name="Response Value"
+                    stroke={LIVE_COLOR}
+                    strokeWidth={2}
+                    dot={{ r: 3, fill: LIVE_COLOR }}
+                    activeDot={{ r: 6 }}
+                    isAnimationActive={false}
+                    connectNulls={false}
+                  />
+                ) : livePasses.map(([pass, points]) => {
+                  const color = PASS_COLORS[pass % PASS_COLORS.length];
+                  return (
+                    <Line
+                      key={`pass-${pass}`}
+                      data={points}
+                      type="linear"
+                      dataKey="y"
+                      name={passLabels[pass] ?? `Pass ${pass + 1}`}
+                      stroke={color}
+                      strokeWidth={2}
+                      dot={{ r: 2, fill: color }}
+                      activeDot={{ r: 5 }}
+                      isAnimationActive={false}
+                      connectNulls={false}
+                    />
+                  );
+                })}
+
+                {/* Resonance Analysis */}
+                {fitCurve && (
+                  <Line
+                    data={fitCurve}
+                    type="monotone"
+                    dataKey="y"
+                    name="Lorentzian Fit"
+                    stroke={FIT_COLOR}
+                    strokeWidth={1.5}
+                    strokeDasharray="5 3"
+                    dot={false}
+                    activeDot={false}
+                    isAnimationActive={false}
+                  />
+                )}
+                {analysis?.peaks.map((peak, i) => {
+                  const bw = peak.bandwidth;
+                  const y = scaleY(peak.y, yMode);
+                  const level = scaleY(peak.y * Math.pow(10, -analysisOptions.levelDb / (analysisOptions.powerData ? 10 : 20)), yMode);
+                  if (y === null) return null;
+                  return (
+                    <React.Fragment key={`peak-${i}`}>
+                      {bw && level !== null && (
+                        <ReferenceLine
+                          segment={[{ x: bw.low, y: level }, { x: bw.high, y: level }]}
+                          stroke={PEAK_COLOR}
+                          strokeDasharray="3 3"
+                        />
+                      )}
+                      <ReferenceDot x={peak.x} y={y} r={5} fill={PEAK_COLOR} stroke="#fff">
+                        <Label
+                          value={`P${i + 1}: ${fmt(peak.x)}${xUnit}${peak.q !== null ? `, Q=${peak.q.toFixed(1)}` : ''}`}
+                          position="top"
+                          fill={PEAK_COLOR}
+                          fontSize={11}
+                          fontWeight="bold"
+                        />
+                      </ReferenceDot>
+                    </React.Fragment>
+                  );
+                })}
+
+                {/* Peak Annotation */}
+                {!analysis && peakPoint && (
+                  <ReferenceDot
+                    x={peakPoint.x}
+                    y={peakPoint.y!}
+                    r={6}
+                    fill="#f87171"
+                    stroke="#fff"
+                  >
+                    <Label
+                      value={`Peak: ${fmt(peakPoint.y!)} @ ${peakPoint.x}${xUnit}`}
+                      position="top"
+                      fill="#f87171"
+                      fontSize={12}
+                      fontWeight="bold"
+                    />
+                  </ReferenceDot>
+                )}
+              </>
             )}
+
+            {(['a', 'b'] as const).map(id => cursors[id] !== null && (
+              <ReferenceLine key={`cursor-${id}`} x={cursors[id]!} stroke={CURSOR_COLORS[id]} strokeDasharray="6 3">
+                <Label value={id.toUpperCase()} position="insideTopLeft" fill={CURSOR_COLORS[id]} fontSize={11} fontWeight="bold" />
+              </ReferenceLine>
+            ))}
+
+            <ChartInteractionLayer
+              tool={tool}
+              onZoom={(x1, x2) => { if (x2 > x1) setXDomain([x1, x2]); }}
+              onPan={setXDomain}
+              onCursor={handleCursor}
+            />
           </LineChart>
         </ResponsiveContainer>
+        )}
       </div>
+
+      {showAnalysis && analysis && (
+        <ResonancePanel
+          analysis={analysis}
+          options={analysisOptions}
+          onOptionsChange={setAnalysisOptions}
+          xUnit={xUnit}
+          targets={selectableIds.map(id => ({ id, name: traceName(id) }))}
+          target={selectableIds.includes(analysisTarget) ? analysisTarget : LIVE_ID}
+          onTargetChange={setAnalysisTarget}
+        />
+      )}
+
+      {/* Sweep History */}
+      {traces.length > 0 && (
+        <div className="mt-2 pt-2 border-t border-slate-800 flex flex-wrap gap-2 max-h-24 overflow-y-auto custom-scrollbar">
+          {traces.map(trace => (
+            <div
+              key={trace.id}
+              className={`flex items-center gap-1.5 bg-slate-950 border border-slate-800 rounded px-2 py-1 text-xs ${trace.visible ? '' : 'opacity-50'}`}
+              title={trace.config
+                ? `${trace.createdAt} · 0x${trace.config.rangeStartHex} → 0x${trace.config.rangeEndHex}, step ${trace.config.incrementStep}`
+                : `Imported from ${trace.source ?? 'file'}`}
+            >
+              <input
+                type="color"
+                value={trace.color}
+                onChange={(e) => onUpdateTrace?.(trace.id, { color: e.target.value })}
+                className="w-4 h-4 bg-transparent border-0 p-0 cursor-pointer"
+              />
+              <input
+                value={trace.name}
+                onChange={(e) => onUpdateTrace?.(trace.id, { name: e.target.value })}
+                className="bg-transparent text-slate-300 outline-none w-28 focus:bg-slate-900"
+              />
+              {trace.partial && <span className="text-[9px] text-amber-500">partial</span>}
+              <button
+                onClick={() => onUpdateTrace?.(trace.id, { visible: !trace.visible })}
+                className="text-slate-500 hover:text-white"
+                title={trace.visible ? 'Hide' : 'Show'}
+              >
+                {trace.visible ? <Eye size={12} /> : <EyeOff size={12} />}
+              </button>
+              <button
+                onClick={() => onExport?.(trace.id, exportFormat, showAnalysis ? analysisOptions : null)}
+                className="text-slate-500 hover:text-blue-400"
+                title={`Export as ${exportFormat.toUpperCase()}`}
+              >
+                <Download size={12} />
+              </button>
+              <button
+                onClick={() => onDeleteTrace?.(trace.id)}
+                className="text-slate-600 hover:text-red-400"
+                title="Delete trace"
+              >
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,82 @@
+import React from 'react';
+import { ChecksumAlgorithm, ChecksumConfig } from '../types';
+import { CHECKSUM_ALGORITHMS } from '../utils/checksum';
+
+interface ChecksumFieldsProps {
+  value: ChecksumConfig;
+  onChange: (config: ChecksumConfig) => void;
+  tailLabel?: string;
+}
+
+const fieldClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 outline-none focus:border-blue-500 disabled:opacity-50";
+const labelClass = "text-[10px] text-slate-500 block mb-1";
+
+export const ChecksumFields: React.FC<ChecksumFieldsProps> = ({ value, onChange, tailLabel = 'Bytes After' }) => {
+  const disabled = value.algorithm === 'none';
+  const toInt = (raw: string) => Math.max(0, Math.floor(Number(raw) || 0));
+
+  return (
+    <div className="grid grid-cols-4 gap-2">
+      <div className="col-span-2">
+        <label className={labelClass}>Algorithm</label>
+        <select
+          className={fieldClass}
+          value={value.algorithm}
+          onChange={(e) => {
+            const algorithm = e.target.value as ChecksumAlgorithm;
+            // Each algorithm brings its customary byte order
+            onChange({ ...value, algorithm, bigEndian: CHECKSUM_ALGORITHMS[algorithm].bigEndian });
+          }}
+        >
+          {(Object.keys(CHECKSUM_ALGORITHMS) as ChecksumAlgorithm[]).map(alg => (
+            <option key={alg} value={alg}>{CHECKSUM_ALGORITHMS[alg].label}</option>
+          ))}
+        </select>
+      </div>
+      <div className="col-span-2">
+        <label className={labelClass}>Byte Order</label>
+        <button
+          onClick={() => onChange({ ...value, bigEndian: !value.bigEndian })}
+          disabled={disabled || CHECKSUM_ALGORITHMS[value.algorithm].size < 2}
+          className={`${fieldClass} hover:bg-slate-800`}
+        >
+          {value.bigEndian ? 'High First' : 'Low First'}
+        </button>
+      </div>
+      <div>
+        <label className={labelClass}>From Byte</label>
+        <input
+          type="number"
+          min="0"
+          className={fieldClass}
+          value={value.rangeStart}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...value, rangeStart: toInt(e.target.value) })}
+        />
+      </div>
+      <div>
+        <label className={labelClass}>To (excl.)</label>
+        <input
+          type="number"
+          min="0"
+          className={fieldClass}
+          value={value.rangeEnd ?? ''}
+          placeholder="CRC"
+          disabled={disabled}
+          onChange={(e) => onChange({ ...value, rangeEnd: e.target.value === '' ? null : toInt(e.target.value) })}
+        />
+      </div>
+      <div className="col-span-2">
+        <label className={labelClass}>{tailLabel}</label>
+        <input
+          type="number"
+          min="0"
+          className={fieldClass}
+          value={value.tailOffset}
+          disabled={disabled}
+          onChange={(e) => onChange({ ...value, tailOffset: toInt(e.target.value) })}
+        />
+      </div>
+    </div>
+  );
+};
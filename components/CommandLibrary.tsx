@@ -0,0 +1,255 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { BookMarked, Plus, Pencil, Download, Upload, Trash2, Keyboard } from 'lucide-react';
+import { SavedCommand, LineEnding } from '../types';
+import { LINE_ENDINGS } from '../utils/textUtils';
+import { commandToHex, shortcutFromEvent, isSafeShortcut } from '../utils/commandLibrary';
+
+interface CommandLibraryProps {
+  commands: SavedCommand[];
+  onChange: (commands: SavedCommand[]) => void;
+  onSend: (command: SavedCommand) => void;
+  canSend: boolean;
+  currentPayload: () => Pick<SavedCommand, 'mode' | 'payload' | 'lineEnding'>; // Manual box contents for "Add"
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const UNGROUPED = 'General';
+
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const CommandLibrary: React.FC<CommandLibraryProps> = ({
+  commands,
+  onChange,
+  onSend,
+  canSend,
+  currentPayload,
+  onImport,
+  onExport
+}) => {
+  const [editMode, setEditMode] = useState(false);
+  const [draft, setDraft] = useState<SavedCommand | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const groups = useMemo(() => {
+    const map = new Map<string, SavedCommand[]>();
+    commands.forEach(cmd => {
+      const key = cmd.group || UNGROUPED;
+      map.set(key, [...(map.get(key) ?? []), cmd]);
+    });
+    return Array.from(map.entries());
+  }, [commands]);
+
+  // Global shortcuts; plain keys are ignored while typing in a field
+  const latest = useRef({ commands, onSend, canSend, editing: draft !== null });
+  latest.current = { commands, onSend, canSend, editing: draft !== null };
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      const { commands, onSend, canSend, editing } = latest.current;
+      if (editing || !canSend) return;
+      const shortcut = shortcutFromEvent(e);
+      if (!shortcut) return;
+      const cmd = commands.find(c => c.shortcut === shortcut);
+      if (!cmd || (isEditable(e.target) && !isSafeShortcut(shortcut))) return;
+      e.preventDefault();
+      onSend(cmd);
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  const draftError = useMemo(() => {
+    if (!draft) return null;
+    if (!draft.name.trim()) return 'Name is required';
+    try {
+      if (commandToHex(draft) === '') return 'Payload is empty';
+    } catch {
+      return 'Invalid hex payload';
+    }
+    if (draft.shortcut && commands.some(c => c.id !== draft.id && c.shortcut === draft.shortcut)) {
+      return `${draft.shortcut} is already used`;
+    }
+    return null;
+  }, [draft, commands]);
+
+  const saveDraft = () => {
+    if (!draft || draftError) return;
+    const cleaned: SavedCommand = {
+      ...draft,
+      name: draft.name.trim(),
+      group: draft.group?.trim() || undefined,
+      description: draft.description?.trim() || undefined,
+      lineEnding: draft.mode === 'text' ? draft.lineEnding ?? 'none' : undefined,
+      shortcut: draft.shortcut || undefined
+    };
+    const exists = commands.some(c => c.id === cleaned.id);
+    onChange(exists ? commands.map(c => c.id === cleaned.id ? cleaned : c) : [...commands, cleaned]);
+    setDraft(null);
+  };
+
+  const deleteDraft = () => {
+    if (!draft) return;
+    onChange(commands.filter(c => c.id !== draft.id));
+    setDraft(null);
+  };
+
+  const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 outline-none focus:border-blue-500";
+
+  return (
+    <div className="bg-slate-900 p-4 rounded-lg border border-slate-800 shadow-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-400 text-sm font-bold uppercase tracking-wider flex items-center gap-2">
+          <BookMarked size={16} /> Command Library
+        </h3>
+        <div className="flex items-center gap-2 text-slate-500">
+          <button
+            onClick={() => setDraft({ id: crypto.randomUUID(), name: '', ...currentPayload() })}
+            className="hover:text-white"
+            title="Save the manual box contents as a command"
+          >
+            <Plus size={14} />
+          </button>
+          <button
+            onClick={() => setEditMode(!editMode)}
+            className={editMode ? 'text-amber-400' : 'hover:text-white'}
+            title="Edit mode: click a command to edit it"
+          >
+            <Pencil size={14} />
+          </button>
+          <button onClick={onExport} className="hover:text-blue-400" title="Export library as JSON">
+            <Download size={14} />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} className="hover:text-blue-400" title="Import library JSON">
+            <Upload size={14} />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+        </div>
+      </div>
+
+      {commands.length === 0 && !draft && (
+        <div className="text-xs text-slate-600 italic">No saved commands. Use + to save the manual box contents.</div>
+      )}
+
+      {groups.map(([group, cmds]) => (
+        <div key={group} className="space-y-1">
+          <div className="text-[10px] text-slate-500 uppercase font-bold">{group}</div>
+          <div className="flex flex-wrap gap-1">
+            {cmds.map(cmd => (
+              <button
+                key={cmd.id}
+                onClick={() => editMode ? setDraft({ ...cmd }) : onSend(cmd)}
+                disabled={!editMode && !canSend}
+                className={`px-2 py-1 rounded border text-xs font-semibold flex items-center gap-1 transition-colors disabled:opacity-50 ${editMode
+                  ? 'bg-slate-900 border-amber-700 border-dashed text-amber-200 hover:bg-slate-800'
+                  : 'bg-slate-800 border-slate-700 text-slate-300 hover:text-white hover:bg-slate-700'}`}
+                title={[cmd.description, cmd.shortcut && `Shortcut: ${cmd.shortcut}`].filter(Boolean).join('\n') || cmd.payload}
+              >
+                {cmd.name}
+                {cmd.shortcut && <span className="text-[9px] text-slate-500 font-mono">{cmd.shortcut}</span>}
+              </button>
+            ))}
+          </div>
+        </div>
+      ))}
+
+      {draft && (
+        <div className="bg-slate-950/50 p-2 rounded border border-slate-800 grid grid-cols-2 gap-2">
+          <div>
+            <label className="text-[10px] text-slate-500 block mb-1">Name</label>
+            <input className={inputClass} value={draft.name} onChange={(e) => setDraft({ ...draft, name: e.target.value })} autoFocus />
+          </div>
+          <div>
+            <label className="text-[10px] text-slate-500 block mb-1">Group</label>
+            <input className={inputClass} value={draft.group ?? ''} onChange={(e) => setDraft({ ...draft, group: e.target.value })} placeholder={UNGROUPED} />
+          </div>
+          <div className="col-span-2 flex items-center gap-2">
+            <div className="flex text-xs rounded border border-slate-700 overflow-hidden">
+              {(['hex', 'text'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => setDraft({ ...draft, mode })}
+                  className={`px-2 py-0.5 uppercase ${draft.mode === mode ? 'bg-slate-700 text-white' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}
+                >
+                  {mode}
+                </button>
+              ))}
+            </div>
+            {draft.mode === 'text' && (
+              <select
+                className="bg-slate-800 border border-slate-700 text-slate-300 rounded px-1 py-0.5 text-xs outline-none"
+                value={draft.lineEnding ?? 'none'}
+                onChange={(e) => setDraft({ ...draft, lineEnding: e.target.value as LineEnding })}
+              >
+                {(Object.keys(LINE_ENDINGS) as LineEnding[]).map(k => (
+                  <option key={k} value={k}>{LINE_ENDINGS[k].label}</option>
+                ))}
+              </select>
+            )}
+          </div>
+          <textarea
+            className={`${inputClass} col-span-2 h-12 font-mono resize-none`}
+            value={draft.payload}
+            onChange={(e) => setDraft({ ...draft, payload: e.target.value })}
+            placeholder={draft.mode === 'hex' ? '05 43 46 0D' : '*IDN?'}
+            spellCheck={false}
+          />
+          <div className="col-span-2">
+            <label className="text-[10px] text-slate-500 block mb-1">Description</label>
+            <input className={inputClass} value={draft.description ?? ''} onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+          </div>
+          <div className="col-span-2">
+            <label className="text-[10px] text-slate-500 flex items-center gap-1 mb-1"><Keyboard size={10} /> Shortcut (press keys, Backspace clears)</label>
+            <input
+              className={`${inputClass} font-mono`}
+              value={draft.shortcut ?? ''}
+              readOnly
+              placeholder="None"
+              onKeyDown={(e) => {
+                if (e.key === 'Tab') return;
+                e.preventDefault();
+                if (e.key === 'Backspace' || e.key === 'Delete') {
+                  setDraft({ ...draft, shortcut: undefined });
+                  return;
+                }
+                const shortcut = shortcutFromEvent(e);
+                if (shortcut) setDraft({ ...draft, shortcut });
+              }}
+            />
+            {draft.shortcut && !isSafeShortcut(draft.shortcut) && (
+              <span className="text-[9px] text-amber-500">Without Ctrl/Alt this shortcut is ignored while typing in a field.</span>
+            )}
+          </div>
+          {draftError && <div className="col-span-2 text-[10px] text-red-400">{draftError}</div>}
+          <div className="col-span-2 flex gap-2">
+            <button
+              onClick={saveDraft}
+              disabled={draftError !== null}
+              className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-50 text-white py-1 rounded text-xs font-bold"
+            >
+              Save
+            </button>
+            <button onClick={() => setDraft(null)} className="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 py-1 rounded text-xs">
+              Cancel
+            </button>
+            {commands.some(c => c.id === draft.id) && (
+              <button onClick={deleteDraft} className="px-2 bg-slate-800 hover:bg-red-900/50 text-slate-400 hover:text-red-300 rounded" title="Delete command">
+                <Trash2 size={12} />
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,31 @@
+import React from 'react';
+import { FieldFormat } from '../types';
+import { describeFieldFormat, parseFieldFormat } from '../utils/hexUtils';
+
+interface FieldFormatSelectProps {
+  value: FieldFormat;
+  onChange: (format: FieldFormat) => void;
+  disabled?: boolean;
+}
+
+const FORMAT_CODES = ['u8', 'u16', 'u24', 'u32', 's8', 's16', 's24', 's32', 'f32'];
+
+const FORMAT_LABELS: Record<string, string> = { u: 'Unsigned', s: 'Signed', f: 'Float' };
+
+export const FieldFormatSelect: React.FC<FieldFormatSelectProps> = ({ value, onChange, disabled }) => (
+  <select
+    className="w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 outline-none disabled:opacity-50"
+    value={describeFieldFormat(value)}
+    onChange={(e) => {
+      const format = parseFieldFormat(e.target.value);
+      if (format) onChange(format);
+    }}
+    disabled={disabled}
+  >
+    {FORMAT_CODES.map(code => (
+      <option key={code} value={code}>
+        {FORMAT_LABELS[code[0]]} {code.slice(1)}-bit
+      </option>
+    ))}
+  </select>
+);
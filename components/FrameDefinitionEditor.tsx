@@ -0,0 +1,212 @@
+import React, { useMemo, useState } from 'react';
+import { X, Layers, RotateCcw } from 'lucide-react';
+import { FrameDefinition, FieldEncoding, FieldFormat } from '../types';
+import { FIELD_ENCODINGS, formatHexString } from '../utils/hexUtils';
+import { DEFAULT_FRAME_DEFINITION, validateFrameDefinition } from '../utils/frameParser';
+import { ChecksumFields } from './ChecksumFields';
+
+interface FrameDefinitionEditorProps {
+  value: FrameDefinition;
+  onApply: (def: FrameDefinition) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded px-2 py-1 outline-none focus:border-blue-500 font-mono";
+const labelClass = "text-[10px] text-slate-500 uppercase font-bold block mb-1";
+
+export const FrameDefinitionEditor: React.FC<FrameDefinitionEditorProps> = ({ value, onApply, onClose }) => {
+  const [draft, setDraft] = useState<FrameDefinition>(value);
+  const error = useMemo(() => validateFrameDefinition(draft), [draft]);
+
+  const update = (patch: Partial<FrameDefinition>) => setDraft(prev => ({ ...prev, ...patch }));
+  const num = (e: React.ChangeEvent<HTMLInputElement>) => Math.max(0, Math.floor(Number(e.target.value) || 0));
+
+  return (
+    <div className="absolute inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm animate-fade-in">
+      <div className="bg-slate-900 border border-slate-700 p-6 rounded-lg shadow-2xl w-[420px] relative flex flex-col gap-4">
+        <button
+          onClick={onClose}
+          className="absolute top-3 right-3 text-slate-500 hover:text-white transition-colors"
+        >
+          <X size={20}/>
+        </button>
+
+        <div className="flex items-center gap-2 border-b border-slate-800 pb-2">
+          <Layers size={20} className="text-amber-500"/>
+          <h2 className="text-lg font-bold text-white">Frame Definition</h2>
+        </div>
+
+        <div className="space-y-3">
+          {/* Header / Footer */}
+          <div>
+            <label className={labelClass}>Header Bytes</label>
+            <input
+              className={inputClass}
+              value={draft.header}
+              onChange={(e) => update({ header: formatHexString(e.target.value) })}
+              placeholder="FF FE FD FC"
+              spellCheck={false}
+            />
+          </div>
+          <div className="grid grid-cols-[1fr_90px] gap-2">
+            <div>
+              <label className={labelClass}>Footer Bytes</label>
+              <input
+                className={inputClass}
+                value={draft.footer}
+                onChange={(e) => update({ footer: formatHexString(e.target.value) })}
+                placeholder="(none)"
+                spellCheck={false}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Footer @</label>
+              <input
+                type="number"
+                min="0"
+                className={inputClass}
+                value={draft.footerOffset ?? ''}
+                onChange={(e) => update({ footerOffset: e.target.value === '' ? null : num(e) })}
+                placeholder="end"
+              />
+            </div>
+          </div>
+
+          {/* Size */}
+          <div className="bg-slate-950/50 p-2 rounded border border-slate-800 space-y-2">
+            <div className="flex gap-1">
+              {(['fixed', 'lengthField'] as const).map(mode => (
+                <button
+                  key={mode}
+                  onClick={() => update({ sizeMode: mode })}
+                  className={`flex-1 py-1 rounded text-xs border transition-colors ${draft.sizeMode === mode ? 'bg-blue-900/40 border-blue-600 text-blue-200' : 'bg-slate-900 border-slate-700 text-slate-500'}`}
+                >
+                  {mode === 'fixed' ? 'Fixed Size' : 'Length Field'}
+                </button>
+              ))}
+            </div>
+            {draft.sizeMode === 'fixed' ? (
+              <div>
+                <label className={labelClass}>Frame Length (bytes)</label>
+                <input type="number" min="1" className={inputClass} value={draft.frameLength} onChange={(e) => update({ frameLength: num(e) })} />
+              </div>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                <div>
+                  <label className={labelClass}>Field Offset</label>
+                  <input type="number" min="0" className={inputClass} value={draft.lengthFieldOffset} onChange={(e) => update({ lengthFieldOffset: num(e) })} />
+                </div>
+                <div>
+                  <label className={labelClass}>Field Width</label>
+                  <select
+                    className={inputClass}
+                    value={draft.lengthFieldWidth}
+                    onChange={(e) => update({ lengthFieldWidth: Number(e.target.value) as 1 | 2 })}
+                  >
+                    <option value={1}>1 byte</option>
+                    <option value={2}>2 bytes</option>
+                  </select>
+                </div>
+                <div>
+                  <label className={labelClass}>Adjust (+/-)</label>
+                  <input
+                    type="number"
+                    className={inputClass}
+                    value={draft.lengthAdjust}
+                    onChange={(e) => update({ lengthAdjust: Math.floor(Number(e.target.value) || 0) })}
+                  />
+                </div>
+                <div>
+                  <label className={labelClass}>Field Order</label>
+                  <button
+                    onClick={() => update({ lengthFieldBigEndian: !draft.lengthFieldBigEndian })}
+                    className="w-full px-2 py-1 bg-slate-800 border border-slate-700 rounded text-xs text-slate-300 hover:bg-slate-700"
+                  >
+                    {draft.lengthFieldBigEndian ? 'High First' : 'Low First'}
+                  </button>
+                </div>
+                <span className="col-span-2 text-[9px] text-slate-500">Total frame length = field value + adjust</span>
+              </div>
+            )}
+          </div>
+
+          {/* Value Field */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className={labelClass}>Value Offset</label>
+              <input type="number" min="0" className={inputClass} value={draft.valueOffset} onChange={(e) => update({ valueOffset: num(e) })} />
+            </div>
+            <div>
+              <label className={labelClass}>Value Width</label>
+              <select
+                className={inputClass}
+                value={draft.valueWidth}
+                onChange={(e) => update({ valueWidth: Number(e.target.value) as FieldFormat['width'] })}
+                disabled={draft.valueEncoding === 'float32'}
+              >
+                <option value={1}>8 bit</option>
+                <option value={2}>16 bit</option>
+                <option value={3}>24 bit</option>
+                <option value={4}>32 bit</option>
+              </select>
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>Value Type</label>
+              <select
+                className={inputClass}
+                value={draft.valueEncoding ?? 'unsigned'}
+                onChange={(e) => {
+                  const valueEncoding = e.target.value as FieldEncoding;
+                  update(valueEncoding === 'float32' ? { valueEncoding, valueWidth: 4 } : { valueEncoding });
+                }}
+              >
+                {(Object.keys(FIELD_ENCODINGS) as FieldEncoding[]).map(k => (
+                  <option key={k} value={k}>{FIELD_ENCODINGS[k]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Min Value</label>
+              <input type="number" className={inputClass} value={draft.minValue} onChange={(e) => update({ minValue: Number(e.target.value) })} />
+            </div>
+            <div>
+              <label className={labelClass}>Max Value</label>
+              <input type="number" className={inputClass} value={draft.maxValue} onChange={(e) => update({ maxValue: Number(e.target.value) })} />
+            </div>
+          </div>
+
+          {/* Checksum */}
+          <div className="bg-slate-950/50 p-2 rounded border border-slate-800">
+            <label className={labelClass}>Checksum</label>
+            <ChecksumFields
+              value={draft.checksum}
+              onChange={(checksum) => update({ checksum })}
+              tailLabel="Bytes After (Footer)"
+            />
+          </div>
+        </div>
+
+        {error && (
+          <div className="text-xs bg-red-900/20 text-red-300 p-1.5 rounded border border-red-800">{error}</div>
+        )}
+
+        <div className="flex gap-2 mt-2">
+          <button
+            onClick={() => setDraft(DEFAULT_FRAME_DEFINITION)}
+            className="px-3 bg-slate-800 hover:bg-slate-700 text-slate-400 hover:text-white border border-slate-700 rounded flex items-center gap-1 text-xs"
+            title="Restore the 15-byte DDS packet"
+          >
+            <RotateCcw size={12} /> Default
+          </button>
+          <button
+            onClick={() => onApply(draft)}
+            disabled={error !== null}
+            className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 disabled:cursor-not-allowed text-white py-2 rounded font-bold transition-colors"
+          >
+            Apply & Close
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
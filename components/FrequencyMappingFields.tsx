@@ -0,0 +1,59 @@
+import React, { useEffect, useState } from 'react';
+import { FrequencyMapping } from '../types';
+import { DEFAULT_FREQUENCY_MAPPING, describeFrequencyMapping, validateFrequencyMapping } from '../utils/frequencyMapping';
+
+interface FrequencyMappingFieldsProps {
+  value: FrequencyMapping;
+  onChange: (mapping: FrequencyMapping) => void;
+  disabled?: boolean;
+}
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-300 outline-none focus:border-blue-500 disabled:opacity-50";
+const labelClass = "text-[10px] text-slate-500 block mb-1 font-bold";
+
+// Edits a draft and only passes on mappings that can convert both ways
+export const FrequencyMappingFields: React.FC<FrequencyMappingFieldsProps> = ({ value, onChange, disabled }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+
+  const error = validateFrequencyMapping(draft);
+  const update = (patch: Partial<FrequencyMapping>) => {
+    const next = { ...draft, ...patch };
+    setDraft(next);
+    if (!validateFrequencyMapping(next)) onChange(next);
+  };
+
+  return (
+    <div className="bg-slate-950/50 p-2 rounded border border-slate-800 grid grid-cols-4 gap-2">
+      <div>
+        <label className={labelClass}>Ref. Clock</label>
+        <input type="number" className={inputClass} value={draft.refClock} onChange={(e) => update({ refClock: Number(e.target.value) })} disabled={disabled} />
+      </div>
+      <div>
+        <label className={labelClass}>Bits</label>
+        <input type="number" min="1" max="48" className={inputClass} value={draft.resolutionBits} onChange={(e) => update({ resolutionBits: Number(e.target.value) })} disabled={disabled} />
+      </div>
+      <div>
+        <label className={labelClass}>Offset</label>
+        <input type="number" className={inputClass} value={draft.offset} onChange={(e) => update({ offset: Number(e.target.value) })} disabled={disabled} />
+      </div>
+      <div>
+        <label className={labelClass}>Unit</label>
+        <input type="text" className={inputClass} value={draft.unit} onChange={(e) => update({ unit: e.target.value })} disabled={disabled} />
+      </div>
+      <div className="col-span-4 flex items-center justify-between text-[9px]">
+        {error
+          ? <span className="text-red-400">{error}</span>
+          : <span className="text-slate-600 font-mono">X = {describeFrequencyMapping(draft)}</span>}
+        <button
+          onClick={() => update(DEFAULT_FREQUENCY_MAPPING)}
+          disabled={disabled}
+          className="text-slate-500 hover:text-slate-300 disabled:opacity-50"
+          title="32 MHz reference, 16 bit, kHz"
+        >
+          Default
+        </button>
+      </div>
+    </div>
+  );
+};
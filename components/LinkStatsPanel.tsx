@@ -0,0 +1,85 @@
+import React from 'react';
+import { Timer, RotateCcw, AlertTriangle } from 'lucide-react';
+import { LinkStats, TrafficRate } from '../types';
+import { LatencyBin } from '../utils/linkStats';
+
+interface LinkStatsPanelProps {
+  stats: LinkStats | null;
+  histogram: LatencyBin[];
+  intervalMs: number;        // Sweep interval, to flag responses slower than it
+  responseTimeoutMs: number;
+  onReset: () => void;
+}
+
+const formatMs = (v: number | undefined) => v === undefined ? '--' : v.toFixed(v < 10 ? 2 : 1);
+
+const formatRate = (r: TrafficRate) =>
+  `${r.bytesPerSec < 1024 ? `${r.bytesPerSec.toFixed(0)} B/s` : `${(r.bytesPerSec / 1024).toFixed(1)} KB/s`}, ${r.framesPerSec.toFixed(1)} fr/s`;
+
+export const LinkStatsPanel: React.FC<LinkStatsPanelProps> = ({ stats, histogram, intervalMs, responseTimeoutMs, onReset }) => {
+  const latency = stats?.latency ?? null;
+  const peak = histogram.reduce((acc, b) => Math.max(acc, b.count), 0);
+
+  return (
+    <div className="bg-slate-900 p-4 rounded-lg border border-slate-800 shadow-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-400 text-sm font-bold uppercase tracking-wider flex items-center gap-2">
+          <Timer size={16} /> Link Timing
+        </h3>
+        <button onClick={onReset} className="text-slate-500 hover:text-white" title="Reset latency and throughput measurement">
+          <RotateCcw size={14} />
+        </button>
+      </div>
+
+      {/* Request-to-response latency */}
+      <div className="grid grid-cols-4 gap-2">
+        {(['min', 'avg', 'max', 'p95'] as const).map(key => (
+          <div key={key} className="bg-slate-950 p-1.5 rounded border border-slate-800 flex flex-col items-center">
+            <span className="text-[10px] text-slate-500 uppercase font-bold">{key}</span>
+            <span className="text-sm font-mono text-cyan-300">{formatMs(latency?.[key])}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-end gap-px h-12 bg-slate-950 rounded border border-slate-800 px-1 pt-1" title="Latency histogram">
+        {histogram.length === 0 && <span className="text-xs text-slate-600 italic m-auto">No responses matched yet</span>}
+        {histogram.map(bin => (
+          <div
+            key={bin.from}
+            className="flex-1 bg-cyan-700 hover:bg-cyan-500 rounded-t-sm"
+            style={{ height: `${peak ? Math.max(2, bin.count / peak * 100) : 0}%` }}
+            title={`${formatMs(bin.from)}-${formatMs(bin.to)} ms: ${bin.count}`}
+          />
+        ))}
+      </div>
+      {histogram.length > 0 && (
+        <div className="flex justify-between text-[10px] font-mono text-slate-600 -mt-2">
+          <span>{formatMs(histogram[0].from)} ms</span>
+          <span>n={latency?.count ?? 0}</span>
+          <span>{formatMs(histogram[histogram.length - 1].to)} ms</span>
+        </div>
+      )}
+
+      {/* Throughput over the last few seconds */}
+      <div className="grid grid-cols-2 gap-2 text-xs font-mono">
+        <div className="bg-slate-950 p-1.5 rounded border border-slate-800">
+          <span className="text-slate-500 font-bold">TX </span>
+          <span className="text-blue-400">{stats ? formatRate(stats.tx) : '--'}</span>
+        </div>
+        <div className="bg-slate-950 p-1.5 rounded border border-slate-800">
+          <span className="text-slate-500 font-bold">RX </span>
+          <span className="text-green-400">{stats ? formatRate(stats.rx) : '--'}</span>
+        </div>
+      </div>
+
+      {latency && latency.p95 > Math.min(intervalMs, responseTimeoutMs) && (
+        <div className="flex items-center gap-2 text-xs text-amber-300">
+          <AlertTriangle size={12} className="shrink-0" />
+          {latency.p95 > responseTimeoutMs
+            ? `p95 latency exceeds the ${responseTimeoutMs} ms response timeout; expect retries.`
+            : `p95 latency exceeds the ${intervalMs} ms sweep interval.`}
+        </div>
+      )}
+    </div>
+  );
+};
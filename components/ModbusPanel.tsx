@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { Cpu, Send } from 'lucide-react';
+import { ModbusSweepConfig } from '../types';
+import { ModbusFunction, ModbusRequest, MODBUS_FUNCTIONS, buildModbusRequest, isModbusRead } from '../utils/modbus';
+import { uint8ArrayToHex } from '../utils/hexUtils';
+
+interface ModbusPanelProps {
+  enabled: boolean;
+  onToggle: () => void;
+  sweep: ModbusSweepConfig;
+  onSweepChange: (sweep: ModbusSweepConfig) => void;
+  onSend: (request: ModbusRequest) => void;
+  canSend: boolean;
+  sweepLocked: boolean;
+}
+
+// Accepts decimal or 0x-prefixed hex
+const parseNumber = (text: string): number => {
+  const trimmed = text.trim();
+  return /^0x/i.test(trimmed) ? parseInt(trimmed.slice(2), 16) : parseInt(trimmed, 10);
+};
+
+const inputClass = "w-full bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs font-mono text-slate-300 outline-none focus:border-blue-500 disabled:opacity-50";
+
+export const ModbusPanel: React.FC<ModbusPanelProps> = ({
+  enabled,
+  onToggle,
+  sweep,
+  onSweepChange,
+  onSend,
+  canSend,
+  sweepLocked
+}) => {
+  const [fn, setFn] = useState<ModbusFunction>(0x03);
+  const [address, setAddress] = useState('0');
+  const [quantity, setQuantity] = useState(1);
+  const [valuesText, setValuesText] = useState('0');
+
+  const request = useMemo((): ModbusRequest | null => {
+    const addr = parseNumber(address);
+    if (isNaN(addr) || addr < 0 || addr > 0xFFFF) return null;
+    const values = valuesText.split(/[\s,]+/).filter(Boolean).map(parseNumber);
+    if (!isModbusRead(fn) && (values.length === 0 || values.some(v => isNaN(v) || v < 0 || v > 0xFFFF))) return null;
+    if (fn === 0x10 && values.length > 123) return null;
+    if (isModbusRead(fn) && (quantity < 1 || quantity > (fn === 0x01 ? 2000 : 125))) return null;
+    return { slaveId: sweep.slaveId, fn, address: addr, quantity, values };
+  }, [fn, address, quantity, valuesText, sweep.slaveId]);
+
+  const preview = request ? uint8ArrayToHex(buildModbusRequest(request)) : 'Invalid request';
+
+  return (
+    <div className="bg-slate-900 p-4 rounded-lg border border-slate-800 shadow-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-400 text-sm font-bold uppercase tracking-wider flex items-center gap-2">
+          <Cpu size={16} /> Modbus RTU
+        </h3>
+        <button
+          onClick={onToggle}
+          disabled={sweepLocked}
+          className={`px-2 py-0.5 border rounded text-xs transition-colors disabled:opacity-50 ${enabled ? 'bg-blue-900/30 border-blue-600 text-blue-200' : 'bg-slate-900 border-slate-700 text-slate-500'}`}
+          title="Parse RX as Modbus responses and sweep through registers"
+        >
+          {enabled ? 'Enabled' : 'Disabled'}
+        </button>
+      </div>
+
+      {enabled && (
+        <>
+          <div className="bg-slate-950/50 p-2 rounded border border-slate-800 grid grid-cols-3 gap-2">
+            <div>
+              <label className="text-[10px] text-slate-500 block mb-1 font-bold">Slave ID</label>
+              <input
+                type="number"
+                min="1"
+                max="247"
+                className={inputClass}
+                value={sweep.slaveId}
+                onChange={(e) => onSweepChange({ ...sweep, slaveId: Math.min(247, Math.max(1, Number(e.target.value))) })}
+                disabled={sweepLocked}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="text-[10px] text-slate-500 block mb-1 font-bold">Function</label>
+              <select
+                className={inputClass}
+                value={fn}
+                onChange={(e) => setFn(Number(e.target.value) as ModbusFunction)}
+              >
+                {Object.entries(MODBUS_FUNCTIONS).map(([code, name]) => (
+                  <option key={code} value={code}>
+                    {`0x${Number(code).toString(16).toUpperCase().padStart(2, '0')} ${name}`}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label className="text-[10px] text-slate-500 block mb-1">Address</label>
+              <input className={inputClass} value={address} onChange={(e) => setAddress(e.target.value)} placeholder="0 / 0x0000" />
+            </div>
+            {isModbusRead(fn) ? (
+              <div>
+                <label className="text-[10px] text-slate-500 block mb-1">Quantity</label>
+                <input
+                  type="number"
+                  min="1"
+                  className={inputClass}
+                  value={quantity}
+                  onChange={(e) => setQuantity(Math.floor(Number(e.target.value)))}
+                />
+              </div>
+            ) : (
+              <div>
+                <label className="text-[10px] text-slate-500 block mb-1">{fn === 0x06 ? 'Value' : 'Values'}</label>
+                <input
+                  className={inputClass}
+                  value={valuesText}
+                  onChange={(e) => setValuesText(e.target.value)}
+                  placeholder={fn === 0x06 ? '1234' : '1, 2, 0x0A'}
+                />
+              </div>
+            )}
+            <button
+              onClick={() => request && onSend(request)}
+              disabled={!request || !canSend}
+              className="self-end bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-400 hover:text-white border border-slate-700 py-1 rounded flex items-center justify-center gap-1 text-xs font-semibold"
+            >
+              <Send size={12} /> Send
+            </button>
+            <div className={`col-span-3 text-[9px] font-mono break-all ${request ? 'text-slate-500' : 'text-red-400'}`}>
+              {request ? `Sends: ${preview}` : preview}
+            </div>
+          </div>
+
+          <div className="bg-slate-950/50 p-2 rounded border border-slate-800 grid grid-cols-3 gap-2">
+            <label className="col-span-3 text-[10px] text-slate-500 font-bold">Sweep Mapping</label>
+            <div>
+              <label className="text-[10px] text-slate-500 block mb-1">Write Reg.</label>
+              <input
+                type="number"
+                min="0"
+                max="65535"
+                className={inputClass}
+                value={sweep.writeAddress}
+                onChange={(e) => onSweepChange({ ...sweep, writeAddress: Math.min(0xFFFF, Math.max(0, Number(e.target.value))) })}
+                disabled={sweepLocked}
+              />
+            </div>
+            <div>
+              <label className="text-[10px] text-slate-500 block mb-1">Read Reg.</label>
+              <input
+                type="number"
+                min="0"
+                max="65535"
+                className={inputClass}
+                value={sweep.readAddress}
+                onChange={(e) => onSweepChange({ ...sweep, readAddress: Math.min(0xFFFF, Math.max(0, Number(e.target.value))) })}
+                disabled={sweepLocked}
+              />
+            </div>
+            <div>
+              <label className="text-[10px] text-slate-500 block mb-1">Read As</label>
+              <select
+                className={inputClass}
+                value={sweep.readFunction}
+                onChange={(e) => onSweepChange({ ...sweep, readFunction: Number(e.target.value) as ModbusSweepConfig['readFunction'] })}
+                disabled={sweepLocked}
+              >
+                <option value={0x03}>Holding</option>
+                <option value={0x04}>Input</option>
+              </select>
+            </div>
+            <span className="col-span-3 text-[9px] text-slate-600 leading-tight">
+              Each point writes the counter with 0x06, then reads one register as the chart value.
+            </span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
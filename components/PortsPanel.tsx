@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Cable, Plus, X, ArrowRight, ArrowLeft } from 'lucide-react';
+import { ExtraPort, PortTraffic, SerialConfig, MAIN_PORT_ID } from '../types';
+
+interface PortsPanelProps {
+  mainLabel: string | null;   // null = main port closed
+  ports: ExtraPort[];
+  traffic: Record<string, PortTraffic>;
+  portOptions: { value: number; label: string }[]; // Port selector entries, as in the header
+  defaultConfig: SerialConfig;
+  canOpen: boolean;
+  onOpen: (portIndex: number, config: SerialConfig) => void;
+  onClose: (id: string) => void;
+  txPortId: string;
+  rxPortId: string;
+  onTxPortChange: (id: string) => void;
+  onRxPortChange: (id: string) => void;
+  routingLocked: boolean;     // Routing is fixed while a sweep runs
+}
+
+const BAUD_RATES = [9600, 19200, 38400, 57600, 115200, 230400, 921600];
+
+const formatBytes = (n: number) => n < 1024 ? `${n} B` : n < 1024 * 1024 ? `${(n / 1024).toFixed(1)} KB` : `${(n / 1024 / 1024).toFixed(2)} MB`;
+
+export const PortsPanel: React.FC<PortsPanelProps> = ({
+  mainLabel,
+  ports,
+  traffic,
+  portOptions,
+  defaultConfig,
+  canOpen,
+  onOpen,
+  onClose,
+  txPortId,
+  rxPortId,
+  onTxPortChange,
+  onRxPortChange,
+  routingLocked
+}) => {
+  const [portIndex, setPortIndex] = useState(portOptions[0]?.value ?? 0);
+  const [config, setConfig] = useState<SerialConfig>(defaultConfig);
+
+  const selectClass = "bg-slate-800 border border-slate-700 text-slate-200 text-xs rounded px-1.5 py-1 outline-none focus:border-blue-500 disabled:opacity-50";
+  const routeOptions = [
+    { id: MAIN_PORT_ID, label: `Main${mainLabel ? ` (${mainLabel})` : ' (closed)'}` },
+    ...ports.map(p => ({ id: p.id, label: `${p.id} (${p.label})` }))
+  ];
+
+  const row = (id: string, name: string, label: string, detail: string, closable: boolean) => {
+    const t = traffic[id] ?? { txBytes: 0, rxBytes: 0 };
+    return (
+      <div key={id} className="flex items-center gap-2 bg-slate-950 rounded border border-slate-800 px-2 py-1 text-xs">
+        <span className="font-mono font-bold text-slate-300 w-9">{name}</span>
+        <span className="text-slate-400 truncate flex-1" title={`${label} @ ${detail}`}>{label} <span className="text-slate-600">@ {detail}</span></span>
+        {txPortId === id && <span className="text-blue-400 flex items-center" title="Sweep and manual frames are sent here"><ArrowRight size={12} />TX</span>}
+        {rxPortId === id && <span className="text-green-400 flex items-center" title="Frames from this port feed the chart"><ArrowLeft size={12} />RX</span>}
+        <span className="font-mono text-slate-500" title="Bytes sent / received">{formatBytes(t.txBytes)} / {formatBytes(t.rxBytes)}</span>
+        {closable && (
+          <button onClick={() => onClose(id)} disabled={routingLocked && (txPortId === id || rxPortId === id)} className="text-slate-500 hover:text-red-400 disabled:opacity-40" title="Close port">
+            <X size={14} />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="bg-slate-900 p-4 rounded-lg border border-slate-800 shadow-lg space-y-3">
+      <h3 className="text-slate-400 text-sm font-bold uppercase tracking-wider flex items-center gap-2">
+        <Cable size={16} /> Ports
+      </h3>
+
+      <div className="space-y-1">
+        {mainLabel && row(MAIN_PORT_ID, 'Main', mainLabel, 'header settings', false)}
+        {ports.map(p => row(p.id, p.id, p.label, `${p.config.baudRate} ${p.config.dataBits}${p.config.parity[0].toUpperCase()}${p.config.stopBits}`, true))}
+        {!mainLabel && ports.length === 0 && <div className="text-xs text-slate-600 italic">No ports open</div>}
+      </div>
+
+      {/* Open another port with its own line settings */}
+      <div className="flex flex-wrap items-center gap-1.5">
+        <select className={`${selectClass} flex-1 min-w-[120px]`} value={portIndex} onChange={(e) => setPortIndex(Number(e.target.value))}>
+          {portOptions.map(o => <option key={o.value} value={o.value}>{o.label}</option>)}
+        </select>
+        <select className={selectClass} value={config.baudRate} onChange={(e) => setConfig({ ...config, baudRate: Number(e.target.value) })} title="Baud rate">
+          {BAUD_RATES.map(r => <option key={r} value={r}>{r}</option>)}
+        </select>
+        <select className={selectClass} value={config.dataBits} onChange={(e) => setConfig({ ...config, dataBits: Number(e.target.value) })} title="Data bits">
+          <option value={8}>8</option>
+          <option value={7}>7</option>
+        </select>
+        <select className={selectClass} value={config.parity} onChange={(e) => setConfig({ ...config, parity: e.target.value as SerialConfig['parity'] })} title="Parity">
+          <option value="none">N</option>
+          <option value="even">E</option>
+          <option value="odd">O</option>
+        </select>
+        <select className={selectClass} value={config.stopBits} onChange={(e) => setConfig({ ...config, stopBits: Number(e.target.value) })} title="Stop bits">
+          <option value={1}>1</option>
+          <option value={2}>2</option>
+        </select>
+        <button
+          onClick={() => onOpen(portIndex, config)}
+          disabled={!canOpen}
+          className="px-2 py-1 rounded bg-slate-700 hover:bg-slate-600 text-slate-200 text-xs font-semibold flex items-center gap-1 disabled:opacity-50"
+          title="Open this port next to the main connection"
+        >
+          <Plus size={12} /> Open
+        </button>
+      </div>
+
+      {/* Sweep routing: send on one port, chart the frames parsed on another */}
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1 text-xs text-slate-500 uppercase font-bold">
+          TX Port
+          <select className={selectClass} value={txPortId} disabled={routingLocked} onChange={(e) => onTxPortChange(e.target.value)}>
+            {routeOptions.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-xs text-slate-500 uppercase font-bold">
+          RX (Parse) Port
+          <select className={selectClass} value={rxPortId} disabled={routingLocked} onChange={(e) => onRxPortChange(e.target.value)}>
+            {routeOptions.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,112 @@
+import React, { useRef, useState } from 'react';
+import { SlidersHorizontal, Save, Plus, Trash2, Download, Upload, Check, X } from 'lucide-react';
+import { DeviceProfile } from '../types';
+
+interface ProfileBarProps {
+  profiles: DeviceProfile[];
+  activeId: string | null;
+  modified: boolean;          // Current settings differ from the active profile
+  disabled: boolean;          // Switching is blocked while connected
+  onSelect: (id: string) => void;
+  onSave: () => void;         // Overwrite the active profile with the current settings
+  onSaveAs: (name: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+export const ProfileBar: React.FC<ProfileBarProps> = ({
+  profiles,
+  activeId,
+  modified,
+  disabled,
+  onSelect,
+  onSave,
+  onSaveAs,
+  onDelete,
+  onImport,
+  onExport
+}) => {
+  const [newName, setNewName] = useState<string | null>(null); // Non-null while naming a new profile
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const active = profiles.find(p => p.id === activeId) ?? null;
+  const nameTaken = newName !== null && profiles.some(p => p.name === newName.trim());
+
+  const commitNew = () => {
+    if (!newName?.trim() || nameTaken) return;
+    onSaveAs(newName.trim());
+    setNewName(null);
+  };
+
+  const iconButton = "text-slate-500 hover:text-white disabled:opacity-40 disabled:hover:text-slate-500";
+
+  return (
+    <div className="flex flex-col gap-1">
+      <label className="text-xs text-slate-500 uppercase font-bold flex items-center gap-1">
+        <SlidersHorizontal size={12} /> Profile
+        {active && modified && <span className="text-amber-400 normal-case font-normal" title="Settings differ from the saved profile">● modified</span>}
+      </label>
+      <div className="flex items-center gap-2">
+        {newName === null ? (
+          <select
+            className="bg-slate-800 border border-slate-700 text-slate-200 text-sm rounded px-2 py-1 outline-none focus:border-blue-500 min-w-[140px]"
+            value={active?.id ?? ''}
+            disabled={disabled}
+            onChange={(e) => e.target.value && onSelect(e.target.value)}
+            title={disabled ? 'Disconnect to switch profiles' : 'Load a saved device profile'}
+          >
+            {!active && <option value="">(unsaved settings)</option>}
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+        ) : (
+          <div className="flex items-center gap-1">
+            <input
+              autoFocus
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') commitNew();
+                if (e.key === 'Escape') setNewName(null);
+              }}
+              placeholder="Profile name"
+              className={`bg-slate-800 border text-slate-200 text-sm rounded px-2 py-1 outline-none w-[140px] ${nameTaken ? 'border-red-500' : 'border-slate-700 focus:border-blue-500'}`}
+              title={nameTaken ? 'A profile with this name exists' : undefined}
+            />
+            <button onClick={commitNew} disabled={!newName.trim() || nameTaken} className={iconButton} title="Create profile">
+              <Check size={14} />
+            </button>
+            <button onClick={() => setNewName(null)} className={iconButton} title="Cancel">
+              <X size={14} />
+            </button>
+          </div>
+        )}
+        <button onClick={onSave} disabled={!active || !modified} className={iconButton} title={active ? `Save current settings to "${active.name}"` : 'No profile selected'}>
+          <Save size={14} />
+        </button>
+        <button onClick={() => setNewName(active ? `${active.name} copy` : '')} disabled={newName !== null} className={iconButton} title="Save current settings as a new profile">
+          <Plus size={14} />
+        </button>
+        <button onClick={() => active && onDelete(active.id)} disabled={!active} className={`${iconButton} hover:text-red-400`} title="Delete the selected profile">
+          <Trash2 size={14} />
+        </button>
+        <button onClick={onExport} disabled={profiles.length === 0} className={iconButton} title="Export profiles as JSON">
+          <Download size={14} />
+        </button>
+        <button onClick={() => fileInputRef.current?.click()} className={iconButton} title="Import profiles JSON">
+          <Upload size={14} />
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onImport(file);
+          }}
+        />
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React from 'react';
+import { ResonanceAnalysis, ResonanceOptions } from '../utils/resonance';
+
+interface ResonancePanelProps {
+  analysis: ResonanceAnalysis;
+  options: ResonanceOptions;
+  onOptionsChange: (options: ResonanceOptions) => void;
+  xUnit: string;
+  targets: { id: string; name: string }[];
+  target: string;
+  onTargetChange: (id: string) => void;
+}
+
+const inputClass = "w-14 bg-slate-800 border border-slate-700 text-slate-300 rounded px-1 py-0.5 outline-none text-center";
+
+// Enough digits to tell neighbouring sweep points apart
+const fmt = (value: number) => Number(value.toPrecision(7)).toString();
+
+export const ResonancePanel: React.FC<ResonancePanelProps> = ({
+  analysis,
+  options,
+  onOptionsChange,
+  xUnit,
+  targets,
+  target,
+  onTargetChange
+}) => {
+  const update = (patch: Partial<ResonanceOptions>) => onOptionsChange({ ...options, ...patch });
+  const { peaks, fit } = analysis;
+
+  return (
+    <div className="mt-2 pt-2 border-t border-slate-800 text-xs space-y-2">
+      <div className="flex flex-wrap items-center gap-3 text-slate-400">
+        <select
+          className="bg-slate-800 border border-slate-700 text-slate-300 rounded px-1 py-0.5 outline-none"
+          value={target}
+          onChange={(e) => onTargetChange(e.target.value)}
+          title="Trace to analyse"
+        >
+          {targets.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+        </select>
+        <label className="flex items-center gap-1">
+          Level -
+          <input type="number" min="0.1" step="0.1" className={inputClass} value={options.levelDb} onChange={(e) => update({ levelDb: Math.max(0.1, Number(e.target.value) || 3) })} />
+          dB
+        </label>
+        <label className="flex items-center gap-1" title="Values are power (10·log10) instead of amplitude (20·log10)">
+          <input type="checkbox" checked={options.powerData} onChange={(e) => update({ powerData: e.target.checked })} />
+          Power data
+        </label>
+        <label className="flex items-center gap-1" title="Minimum peak prominence, percent of the value span">
+          Prominence
+          <input type="number" min="0" max="100" className={inputClass} value={options.minProminence} onChange={(e) => update({ minProminence: Math.min(100, Math.max(0, Number(e.target.value))) })} />
+          %
+        </label>
+        <label className="flex items-center gap-1">
+          <input type="checkbox" checked={options.fitLorentzian} onChange={(e) => update({ fitLorentzian: e.target.checked })} />
+          Lorentzian fit
+        </label>
+      </div>
+
+      {peaks.length === 0 ? (
+        <div className="text-slate-600 italic">No peaks above the prominence threshold.</div>
+      ) : (
+        <div className="max-h-28 overflow-y-auto custom-scrollbar">
+          <table className="w-full font-mono text-[11px]">
+            <thead className="text-slate-500 text-left">
+              <tr>
+                <th className="font-normal">#</th>
+                <th className="font-normal">f0 ({xUnit})</th>
+                <th className="font-normal">Peak</th>
+                <th className="font-normal">Prominence</th>
+                <th className="font-normal">BW -{options.levelDb} dB</th>
+                <th className="font-normal">Q</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-300">
+              {peaks.map((p, i) => (
+                <tr key={i}>
+                  <td className="text-red-400">P{i + 1}</td>
+                  <td>{fmt(p.x)}</td>
+                  <td>{fmt(p.y)}</td>
+                  <td>{fmt(p.prominence)}</td>
+                  <td>{p.bandwidth ? fmt(p.bandwidth.width) : '—'}</td>
+                  <td>{p.q !== null ? p.q.toFixed(1) : '—'}</td>
+                </tr>
+              ))}
+              {fit && (
+                <tr className="text-violet-300">
+                  <td>Fit</td>
+                  <td>{fmt(fit.center)}</td>
+                  <td>{fmt(fit.baseline + fit.amplitude)}</td>
+                  <td title="Residual RMS">rms {fmt(fit.rms)}</td>
+                  <td title="Lorentzian FWHM">{fmt(2 * fit.halfWidth)}</td>
+                  <td>{fit.q.toFixed(1)}</td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+      {options.fitLorentzian && peaks.length > 0 && !fit && (
+        <div className="text-amber-500 text-[10px]">Lorentzian fit did not converge for the main peak.</div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,273 @@
+import React, { useRef } from 'react';
+import { ListChecks, Play, Square, ArrowUp, ArrowDown, Trash2, Download, Upload } from 'lucide-react';
+import { Sequence, SequenceStep, SequenceStepKind, SequenceResult, SequenceCompareOp, LineEnding } from '../types';
+import { SEQUENCE_STEP_KINDS, createSequenceStep, validateSequence } from '../utils/sequence';
+import { LINE_ENDINGS } from '../utils/textUtils';
+
+interface SequencePanelProps {
+  sequence: Sequence;
+  onChange: (sequence: Sequence) => void;
+  isRunning: boolean;
+  currentStep: number | null;
+  lastResult: SequenceResult | null;
+  canRun: boolean;
+  onRun: () => void;
+  onStop: () => void;
+  onImport: (file: File) => void;
+  onExport: () => void;
+}
+
+const COMPARE_OPS: SequenceCompareOp[] = ['==', '!=', '<', '<=', '>', '>='];
+
+const OUTCOME_STYLES: Record<SequenceResult['outcome'], string> = {
+  passed: 'text-green-400 border-green-800 bg-green-900/20',
+  failed: 'text-red-400 border-red-800 bg-red-900/20',
+  aborted: 'text-red-400 border-red-800 bg-red-900/20',
+  stopped: 'text-amber-400 border-amber-800 bg-amber-900/20'
+};
+
+const fieldClass = "bg-slate-900 border border-slate-700 rounded px-1 py-0.5 text-[11px] text-slate-300 outline-none focus:border-blue-500 disabled:opacity-50";
+
+const StepFields: React.FC<{ step: SequenceStep; onChange: (step: SequenceStep) => void; disabled: boolean }> = ({ step, onChange, disabled }) => {
+  const update = (patch: Partial<SequenceStep>) => onChange({ ...step, ...patch } as SequenceStep);
+  const num = (value: string) => Math.max(0, Math.floor(Number(value) || 0));
+
+  switch (step.kind) {
+    case 'send':
+      return (
+        <div className="flex flex-wrap items-center gap-1">
+          <select className={fieldClass} value={step.mode} disabled={disabled} onChange={(e) => update({ mode: e.target.value as 'hex' | 'text' })}>
+            <option value="hex">HEX</option>
+            <option value="text">TEXT</option>
+          </select>
+          <input
+            className={`${fieldClass} flex-1 min-w-[120px] font-mono`}
+            value={step.payload}
+            disabled={disabled}
+            onChange={(e) => update({ payload: e.target.value })}
+            placeholder={step.mode === 'hex' ? '01 03 00 00 00 01' : 'MEAS? ${n}'}
+          />
+          {step.mode === 'text' && (
+            <select className={fieldClass} value={step.lineEnding ?? 'none'} disabled={disabled} onChange={(e) => update({ lineEnding: e.target.value as LineEnding })}>
+              {(Object.keys(LINE_ENDINGS) as LineEnding[]).map(k => <option key={k} value={k}>{LINE_ENDINGS[k].label}</option>)}
+            </select>
+          )}
+        </div>
+      );
+    case 'wait':
+      return (
+        <div className="flex items-center gap-1 text-[11px] text-slate-500">
+          <input type="number" min="0" className={`${fieldClass} w-20`} value={step.ms} disabled={disabled} onChange={(e) => update({ ms: num(e.target.value) })} /> ms
+        </div>
+      );
+    case 'expect':
+      return (
+        <div className="flex flex-wrap items-center gap-1 text-[11px] text-slate-500">
+          <input
+            className={`${fieldClass} flex-1 min-w-[120px] font-mono`}
+            value={step.pattern}
+            disabled={disabled}
+            onChange={(e) => update({ pattern: e.target.value })}
+            placeholder="Pattern: 01 03 02 ?? ??"
+          />
+          <input
+            className={`${fieldClass} w-24 font-mono`}
+            value={step.mask}
+            disabled={disabled}
+            onChange={(e) => update({ mask: e.target.value })}
+            placeholder="Mask (opt.)"
+          />
+          within
+          <input type="number" min="1" className={`${fieldClass} w-16`} value={step.timeoutMs} disabled={disabled} onChange={(e) => update({ timeoutMs: Math.max(1, num(e.target.value)) })} /> ms,
+          on fail
+          <select className={fieldClass} value={step.onFail} disabled={disabled} onChange={(e) => update({ onFail: e.target.value as typeof step.onFail })}>
+            <option value="abort">abort</option>
+            <option value="continue">continue</option>
+            <option value="goto">go to</option>
+          </select>
+          {step.onFail === 'goto' && (
+            <input className={`${fieldClass} w-16`} value={step.failTarget ?? ''} disabled={disabled} onChange={(e) => update({ failTarget: e.target.value })} placeholder="label" />
+          )}
+        </div>
+      );
+    case 'capture':
+      return (
+        <div className="flex flex-wrap items-center gap-1 text-[11px] text-slate-500">
+          <input className={`${fieldClass} w-20 font-mono`} value={step.variable} disabled={disabled} onChange={(e) => update({ variable: e.target.value })} placeholder="variable" />
+          = bytes from
+          <input type="number" min="0" className={`${fieldClass} w-12`} value={step.offset} disabled={disabled} onChange={(e) => update({ offset: num(e.target.value) })} />
+          <select className={fieldClass} value={step.width} disabled={disabled} onChange={(e) => update({ width: Number(e.target.value) as 1 | 2 | 4 })}>
+            <option value={1}>8-bit</option>
+            <option value={2}>16-bit</option>
+            <option value={4}>32-bit</option>
+          </select>
+          <select className={fieldClass} value={step.bigEndian ? 'be' : 'le'} disabled={disabled} onChange={(e) => update({ bigEndian: e.target.value === 'be' })}>
+            <option value="be">High First</option>
+            <option value="le">Low First</option>
+          </select>
+        </div>
+      );
+    case 'loop':
+      return (
+        <div className="flex items-center gap-1 text-[11px] text-slate-500">
+          back to
+          <input className={`${fieldClass} w-20`} value={step.target} disabled={disabled} onChange={(e) => update({ target: e.target.value })} placeholder="label" />
+          until run
+          <input type="number" min="1" className={`${fieldClass} w-14`} value={step.count} disabled={disabled} onChange={(e) => update({ count: Math.max(1, num(e.target.value)) })} />
+          times
+        </div>
+      );
+    case 'branch':
+      return (
+        <div className="flex flex-wrap items-center gap-1 text-[11px] text-slate-500">
+          if
+          <select className={fieldClass} value={step.when} disabled={disabled} onChange={(e) => update({ when: e.target.value as typeof step.when })}>
+            <option value="failed">last step failed</option>
+            <option value="compare">variable</option>
+          </select>
+          {step.when === 'compare' && (
+            <>
+              <input className={`${fieldClass} w-16 font-mono`} value={step.variable} disabled={disabled} onChange={(e) => update({ variable: e.target.value })} placeholder="name" />
+              <select className={fieldClass} value={step.op} disabled={disabled} onChange={(e) => update({ op: e.target.value as SequenceCompareOp })}>
+                {COMPARE_OPS.map(op => <option key={op} value={op}>{op}</option>)}
+              </select>
+              <input type="number" className={`${fieldClass} w-16`} value={step.value} disabled={disabled} onChange={(e) => update({ value: Number(e.target.value) })} />
+            </>
+          )}
+          go to
+          <input className={`${fieldClass} w-16`} value={step.target} disabled={disabled} onChange={(e) => update({ target: e.target.value })} placeholder="label" />
+        </div>
+      );
+  }
+};
+
+export const SequencePanel: React.FC<SequencePanelProps> = ({
+  sequence,
+  onChange,
+  isRunning,
+  currentStep,
+  lastResult,
+  canRun,
+  onRun,
+  onStop,
+  onImport,
+  onExport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const error = validateSequence(sequence);
+  const steps = sequence.steps;
+
+  const setSteps = (next: SequenceStep[]) => onChange({ ...sequence, steps: next });
+  const updateStep = (index: number, step: SequenceStep) => setSteps(steps.map((s, i) => (i === index ? step : s)));
+  const moveStep = (index: number, delta: number) => {
+    const target = index + delta;
+    if (target < 0 || target >= steps.length) return;
+    const next = steps.slice();
+    [next[index], next[target]] = [next[target], next[index]];
+    setSteps(next);
+  };
+
+  return (
+    <div className="bg-slate-900 p-4 rounded-lg border border-slate-800 shadow-lg space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-slate-400 text-sm font-bold uppercase tracking-wider flex items-center gap-2">
+          <ListChecks size={16} /> Test Sequence
+        </h3>
+        <div className="flex items-center gap-2 text-slate-500">
+          <button onClick={onExport} className="hover:text-blue-400" title="Export sequence as JSON">
+            <Download size={14} />
+          </button>
+          <button onClick={() => fileInputRef.current?.click()} disabled={isRunning} className="hover:text-blue-400 disabled:opacity-50" title="Import sequence JSON">
+            <Upload size={14} />
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) onImport(file);
+            }}
+          />
+        </div>
+      </div>
+
+      <input
+        className="w-full bg-slate-950 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 outline-none focus:border-blue-500"
+        value={sequence.name}
+        disabled={isRunning}
+        onChange={(e) => onChange({ ...sequence, name: e.target.value })}
+        placeholder="Sequence name"
+      />
+
+      <div className="space-y-1 max-h-72 overflow-y-auto custom-scrollbar pr-1">
+        {steps.length === 0 && <div className="text-xs text-slate-600 italic">No steps yet.</div>}
+        {steps.map((step, i) => (
+          <div
+            key={step.id}
+            className={`p-1.5 rounded border space-y-1 ${currentStep === i && isRunning ? 'border-blue-500 bg-blue-900/20' : 'border-slate-800 bg-slate-950/50'}`}
+          >
+            <div className="flex items-center gap-1">
+              <span className="text-[10px] text-slate-600 w-5 text-right">{i + 1}</span>
+              <span className="text-[11px] font-bold text-slate-300 w-14">{SEQUENCE_STEP_KINDS[step.kind]}</span>
+              <input
+                className={`${fieldClass} w-16`}
+                value={step.label ?? ''}
+                disabled={isRunning}
+                onChange={(e) => updateStep(i, { ...step, label: e.target.value.trim() || undefined })}
+                placeholder="label"
+                title="Target for loop / branch / go to"
+              />
+              <div className="ml-auto flex items-center gap-1 text-slate-500">
+                <button onClick={() => moveStep(i, -1)} disabled={isRunning || i === 0} className="hover:text-white disabled:opacity-30"><ArrowUp size={12} /></button>
+                <button onClick={() => moveStep(i, 1)} disabled={isRunning || i === steps.length - 1} className="hover:text-white disabled:opacity-30"><ArrowDown size={12} /></button>
+                <button onClick={() => setSteps(steps.filter((_, j) => j !== i))} disabled={isRunning} className="hover:text-red-400 disabled:opacity-30"><Trash2 size={12} /></button>
+              </div>
+            </div>
+            <StepFields step={step} onChange={(s) => updateStep(i, s)} disabled={isRunning} />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center gap-2">
+        <select
+          className="flex-1 bg-slate-800 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 outline-none disabled:opacity-50"
+          value=""
+          disabled={isRunning}
+          onChange={(e) => {
+            if (e.target.value) setSteps([...steps, createSequenceStep(e.target.value as SequenceStepKind)]);
+          }}
+        >
+          <option value="">+ Add step...</option>
+          {(Object.keys(SEQUENCE_STEP_KINDS) as SequenceStepKind[]).map(kind => (
+            <option key={kind} value={kind}>{SEQUENCE_STEP_KINDS[kind]}</option>
+          ))}
+        </select>
+        <button
+          onClick={isRunning ? onStop : onRun}
+          disabled={!isRunning && (!canRun || error !== null || steps.length === 0)}
+          className={`flex-1 py-1 rounded font-bold text-xs flex items-center justify-center gap-1 disabled:opacity-50 ${isRunning
+            ? 'bg-amber-600 hover:bg-amber-700 text-white'
+            : 'bg-blue-600 hover:bg-blue-700 text-white disabled:bg-slate-800 disabled:text-slate-600'}`}
+        >
+          {isRunning ? <><Square size={12} fill="currentColor" /> Stop</> : <><Play size={12} /> Run</>}
+        </button>
+      </div>
+
+      {error && steps.length > 0 && <div className="text-[10px] text-red-400">{error}</div>}
+
+      {lastResult && !isRunning && (
+        <div className={`text-[11px] p-1.5 rounded border font-mono ${OUTCOME_STYLES[lastResult.outcome]}`}>
+          {lastResult.outcome.toUpperCase()} · {lastResult.stepsExecuted} steps · {lastResult.failures} failure(s) · {(lastResult.durationMs / 1000).toFixed(2)} s
+          {Object.keys(lastResult.variables).length > 0 && (
+            <div className="text-slate-400">
+              {Object.entries(lastResult.variables).map(([k, v]) => `${k}=${v}`).join(', ')}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
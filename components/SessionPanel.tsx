@@ -0,0 +1,102 @@
+import React, { useRef } from 'react';
+import { Circle, Square, Play, FolderOpen, Film } from 'lucide-react';
+
+interface SessionPanelProps {
+  isRecording: boolean;
+  onToggleRecord: () => void;
+  loadedSession: { name: string; events: number; durationMs: number } | null;
+  onLoad: (file: File) => void;
+  replaySpeed: number;
+  onReplaySpeedChange: (speed: number) => void;
+  isReplaying: boolean;
+  canReplay: boolean;
+  onToggleReplay: () => void;
+}
+
+const SPEEDS = [
+  { value: 1, label: '1x (original)' },
+  { value: 2, label: '2x' },
+  { value: 5, label: '5x' },
+  { value: 20, label: '20x' },
+  { value: 0, label: 'Max' }
+];
+
+export const SessionPanel: React.FC<SessionPanelProps> = ({
+  isRecording,
+  onToggleRecord,
+  loadedSession,
+  onLoad,
+  replaySpeed,
+  onReplaySpeedChange,
+  isReplaying,
+  canReplay,
+  onToggleReplay
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  return (
+    <div className="bg-slate-900 p-4 rounded-lg border border-slate-800 shadow-lg space-y-3">
+      <h3 className="text-slate-400 text-sm font-bold uppercase tracking-wider flex items-center gap-2">
+        <Film size={16} /> Session Recording
+      </h3>
+
+      <div className="grid grid-cols-2 gap-2">
+        <button
+          onClick={onToggleRecord}
+          disabled={isReplaying}
+          className={`py-1.5 rounded border flex items-center justify-center gap-2 text-xs font-semibold transition-colors disabled:opacity-50 ${isRecording
+            ? 'bg-red-900/40 border-red-600 text-red-200 animate-pulse'
+            : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700'}`}
+        >
+          {isRecording ? <><Square size={12} fill="currentColor" /> Stop & Save</> : <><Circle size={12} className="text-red-500" fill="currentColor" /> Record</>}
+        </button>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRecording || isReplaying}
+          className="py-1.5 rounded border bg-slate-800 border-slate-700 text-slate-400 hover:text-white hover:bg-slate-700 flex items-center justify-center gap-2 text-xs font-semibold disabled:opacity-50"
+        >
+          <FolderOpen size={12} /> Load Session
+        </button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) onLoad(file);
+          }}
+        />
+      </div>
+
+      {loadedSession && (
+        <div className="bg-slate-950/50 p-2 rounded border border-slate-800 space-y-2">
+          <div className="text-[10px] text-slate-500 font-mono break-all">
+            {loadedSession.name} · {loadedSession.events} events · {(loadedSession.durationMs / 1000).toFixed(1)} s
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              className="flex-1 bg-slate-900 border border-slate-700 rounded px-2 py-1 text-xs text-slate-300 outline-none disabled:opacity-50"
+              value={replaySpeed}
+              onChange={(e) => onReplaySpeedChange(Number(e.target.value))}
+              disabled={isReplaying}
+            >
+              {SPEEDS.map(s => <option key={s.value} value={s.value}>{s.label}</option>)}
+            </select>
+            <button
+              onClick={onToggleReplay}
+              disabled={!canReplay && !isReplaying}
+              className={`flex-1 py-1 rounded font-bold text-xs flex items-center justify-center gap-1 disabled:opacity-50 ${isReplaying
+                ? 'bg-amber-600 hover:bg-amber-700 text-white'
+                : 'bg-blue-600 hover:bg-blue-700 text-white disabled:bg-slate-800 disabled:text-slate-600'}`}
+              title={canReplay || isReplaying ? '' : 'Disconnect the port to replay'}
+            >
+              {isReplaying ? <><Square size={12} fill="currentColor" /> Stop</> : <><Play size={12} /> Replay</>}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
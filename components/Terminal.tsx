@@ -1,29 +1,299 @@
-import React, { useEffect, useRef } from 'react';
-import { LogEntry } from '../types';
-import { ArrowDown, ArrowUp, Info, AlertCircle, Save } from 'lucide-react';
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { LogEntry, TerminalDisplayMode, PortTraffic, MAIN_PORT_ID, FrameFieldKind } from '../types';
+import { ArrowDown, ArrowUp, Info, AlertCircle, Save, Search, Pause, Play, ChevronRight, ChevronDown, X } from 'lucide-react';
+import { FRAME_REJECT_LABELS } from '../utils/frameParser';
+import { hexToUint8Array } from '../utils/hexUtils';
+import { bytesToEscapedText, bytesToAsciiColumn } from '../utils/textUtils';
+import { LogExportFormat, LOG_EXPORT_FORMATS } from '../utils/logExport';
 
 interface TerminalProps {
-  logs: LogEntry[];
+  logs: LogEntry[];   // Appended in place; logVersion changes when it grows
+  logVersion: number;
   clearLogs: () => void;
-  onExport: () => void;
+  onExport: (format: LogExportFormat) => void;
+  displayMode: TerminalDisplayMode;
+  onDisplayModeChange?: (mode: TerminalDisplayMode) => void;
+  rxDelimiter?: string; // Escaped text, e.g. "\n"; empty = one entry per chunk
+  onRxDelimiterChange?: (delimiter: string) => void;
+  ports?: { id: string; name: string; traffic: PortTraffic }[]; // Tabs shown with two or more open ports
 }
 
-export const Terminal: React.FC<TerminalProps> = ({ logs, clearLogs, onExport }) => {
-  const endRef = useRef<HTMLDivElement>(null);
+type LogType = LogEntry['type'];
+
+const DISPLAY_MODES: { value: TerminalDisplayMode; label: string }[] = [
+  { value: 'hex', label: 'HEX' },
+  { value: 'ascii', label: 'ASCII' },
+  { value: 'both', label: 'HEX+ASCII' }
+];
+
+const LOG_TYPES: { type: LogType; label: string; color: string }[] = [
+  { type: 'tx', label: 'TX', color: 'text-blue-300' },
+  { type: 'rx', label: 'RX', color: 'text-green-300' },
+  { type: 'info', label: 'INFO', color: 'text-yellow-300' },
+  { type: 'error', label: 'ERR', color: 'text-red-300' },
+  { type: 'frame', label: 'FRAME', color: 'text-violet-300' }
+];
+
+const FRAME_FIELDS: Record<FrameFieldKind, { label: string; color: string }> = {
+  header: { label: 'Header', color: 'text-sky-300' },
+  length: { label: 'Length', color: 'text-orange-300' },
+  payload: { label: 'Payload', color: 'text-slate-400' },
+  value: { label: 'Value', color: 'text-green-300 font-bold' },
+  checksum: { label: 'Checksum', color: 'text-pink-300' },
+  footer: { label: 'Footer', color: 'text-violet-300' }
+};
+
+const frameSummary = (log: LogEntry): string => {
+  const frame = log.frame;
+  if (!frame) return '';
+  if (frame.reject) return `REJECTED: ${FRAME_REJECT_LABELS[frame.reject]}${frame.value !== undefined ? ` (value ${frame.value})` : ''}`;
+  return `value ${frame.value}`;
+};
+
+// Hex bytes of one field; log data is space separated "AA BB CC"
+const fieldHex = (log: LogEntry, start: number, end: number): string =>
+  log.data.slice(start * 3, end * 3 - 1);
+
+const ALL_PORTS = 'all'; // Port tab showing every connection
+
+// Rows never wrap so every row has the same height; long lines scroll sideways
+const ROW_HEIGHT = 20;
+const OVERSCAN = 20;
+
+// TX/RX payloads are logged as hex; the text shown per display mode.
+// HEX+ASCII has two columns, hence the list.
+// Frames always show their dissected hex next to the verdict.
+const payloadParts = (log: LogEntry, mode: TerminalDisplayMode): string[] => {
+  if (log.type === 'frame') return [log.data, frameSummary(log)];
+  if ((log.type !== 'tx' && log.type !== 'rx') || mode === 'hex') return [log.data];
+  const bytes = hexToUint8Array(log.data);
+  if (mode === 'ascii') return [bytesToEscapedText(bytes)];
+  return [log.data, bytesToAsciiColumn(bytes)];
+};
+
+const highlight = (text: string, re: RegExp | null): React.ReactNode => {
+  if (!re) return text;
+  const nodes: React.ReactNode[] = [];
+  let last = 0;
+  re.lastIndex = 0;
+  for (let m = re.exec(text); m !== null; m = re.exec(text)) {
+    if (m[0] === '') {
+      re.lastIndex++; // Empty matches would loop forever
+      continue;
+    }
+    nodes.push(text.slice(last, m.index), <mark key={m.index} className="bg-amber-500/70 text-black rounded-sm">{m[0]}</mark>);
+    last = m.index + m[0].length;
+  }
+  if (nodes.length === 0) return text;
+  nodes.push(text.slice(last));
+  return nodes;
+};
+
+interface FilterCache {
+  key: string;
+  source: LogEntry[];
+  firstId: string | undefined;
+  scanned: number;   // Entries of `source` already tested
+  indices: number[]; // Matching entry indices
+}
+
+export const Terminal: React.FC<TerminalProps> = ({
+  logs,
+  logVersion,
+  clearLogs,
+  onExport,
+  displayMode,
+  onDisplayModeChange,
+  rxDelimiter = '',
+  onRxDelimiterChange,
+  ports = []
+}) => {
+  const [portTab, setPortTab] = useState(ALL_PORTS);
+  const [shownTypes, setShownTypes] = useState<Record<LogType, boolean>>({ tx: true, rx: true, info: true, error: true, frame: true });
+  const [openFrame, setOpenFrame] = useState<LogEntry | null>(null); // Frame shown in the dissector pane
+  const [query, setQuery] = useState('');
+  const [caseSensitive, setCaseSensitive] = useState(false);
+  const [followTail, setFollowTail] = useState(true);
+  const [exportFormat, setExportFormat] = useState<LogExportFormat>('text');
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewHeight, setViewHeight] = useState(0);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const filterCache = useRef<FilterCache | null>(null);
+
+  const search = useMemo((): { re: RegExp | null; error: boolean } => {
+    if (!query) return { re: null, error: false };
+    try {
+      return { re: new RegExp(query, caseSensitive ? 'g' : 'gi'), error: false };
+    } catch {
+      return { re: null, error: true };
+    }
+  }, [query, caseSensitive]);
+
+  // Indices of the entries that pass the filters. New entries are tested
+  // incrementally; anything else (filter change, clear, trim) starts over.
+  const tab = ports.length > 1 && ports.some(p => p.id === portTab) ? portTab : ALL_PORTS;
+  const visible = useMemo((): number[] | null => {
+    const allTypes = LOG_TYPES.every(t => shownTypes[t.type]);
+    if (allTypes && !search.re && tab === ALL_PORTS) return null; // Everything; skip the index list
+
+    const key = `${tab}|${LOG_TYPES.map(t => shownTypes[t.type] ? 1 : 0).join('')}|${displayMode}|${search.re?.source ?? ''}|${search.re?.flags ?? ''}`;
+    let cache = filterCache.current;
+    if (!cache || cache.key !== key || cache.source !== logs || cache.firstId !== logs[0]?.id || cache.scanned > logs.length) {
+      cache = { key, source: logs, firstId: logs[0]?.id, scanned: 0, indices: [] };
+    }
+    const test = search.re ? new RegExp(search.re.source, search.re.flags.replace('g', '')) : null;
+    const indices = cache.indices;
+    for (let i = cache.scanned; i < logs.length; i++) {
+      const log = logs[i];
+      if (!shownTypes[log.type]) continue;
+      if (tab !== ALL_PORTS && (log.port ?? MAIN_PORT_ID) !== tab) continue;
+      if (test && !payloadParts(log, displayMode).some(part => test.test(part))) continue;
+      indices.push(i);
+    }
+    cache.scanned = logs.length;
+    filterCache.current = cache;
+    return indices;
+  }, [logs, logVersion, shownTypes, search, displayMode, tab]);
+
+  const rowCount = visible ? visible.length : logs.length;
+
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewHeight(el.clientHeight));
+    observer.observe(el);
+    setViewHeight(el.clientHeight);
+    return () => observer.disconnect();
+  }, []);
+
+  // Stick to the newest entry unless the user scrolled away from it
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (!el || !followTail) return;
+    el.scrollTop = el.scrollHeight;
+    setScrollTop(el.scrollTop);
+  }, [rowCount, followTail, logVersion]);
 
   useEffect(() => {
-    endRef.current?.scrollIntoView({ behavior: 'smooth' });
-  }, [logs]);
+    if (logs.length === 0) {
+      setFollowTail(true);
+      setOpenFrame(null);
+    }
+  }, [logs.length]);
+
+  const onScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    setScrollTop(el.scrollTop);
+    const atBottom = el.scrollHeight - el.scrollTop - el.clientHeight < ROW_HEIGHT;
+    if (atBottom !== followTail) setFollowTail(atBottom);
+  };
+
+  const jumpToLatest = () => {
+    setFollowTail(true);
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  };
+
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN);
+  const last = Math.min(rowCount, Math.ceil((scrollTop + viewHeight) / ROW_HEIGHT) + OVERSCAN);
+  const rows: React.ReactNode[] = [];
+  for (let row = first; row < last; row++) {
+    const log = logs[visible ? visible[row] : row];
+    if (!log) continue;
+    const parts = payloadParts(log, displayMode);
+    const frame = log.frame;
+    if (frame) {
+      rows.push(
+        <div
+          key={log.id}
+          onClick={() => setOpenFrame(openFrame === log ? null : log)}
+          className={`absolute left-0 flex gap-3 px-4 whitespace-pre cursor-pointer hover:bg-slate-900 ${openFrame === log ? 'bg-slate-900' : ''}`}
+          style={{ top: row * ROW_HEIGHT, height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px` }}
+          title="Show the frame fields"
+        >
+          <span className="text-slate-600 shrink-0 text-xs w-[70px]">{log.timestamp}</span>
+          {ports.length > 1 && <span className="text-slate-500 shrink-0 text-xs w-[28px]">{log.port ?? 'Main'}</span>}
+          <span className="flex items-center shrink-0 text-slate-500">
+            {openFrame === log ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          </span>
+          <span className={frame.reject ? 'line-through decoration-red-500/60' : ''}>
+            {frame.fields.map((f, i) => (
+              <span key={f.start} className={FRAME_FIELDS[f.kind].color}>
+                {i > 0 ? ' ' : ''}{highlight(fieldHex(log, f.start, f.end), search.re)}
+              </span>
+            ))}
+          </span>
+          <span className={frame.reject ? 'text-red-400 font-bold' : 'text-green-400'}>{highlight(parts[1], search.re)}</span>
+        </div>
+      );
+      continue;
+    }
+    rows.push(
+      <div
+        key={log.id}
+        className="absolute left-0 flex gap-3 px-4 whitespace-pre"
+        style={{ top: row * ROW_HEIGHT, height: ROW_HEIGHT, lineHeight: `${ROW_HEIGHT}px` }}
+      >
+        <span className="text-slate-600 shrink-0 text-xs w-[70px]">{log.timestamp}</span>
+        {ports.length > 1 && <span className="text-slate-500 shrink-0 text-xs w-[28px]">{log.port ?? 'Main'}</span>}
+        <span className="flex items-center shrink-0">
+          {log.type === 'tx' && <ArrowUp size={14} className="text-blue-500" />}
+          {log.type === 'rx' && <ArrowDown size={14} className="text-green-500" />}
+          {log.type === 'info' && <Info size={14} className="text-yellow-500" />}
+          {log.type === 'error' && <AlertCircle size={14} className="text-red-500" />}
+        </span>
+        <span className={`
+          ${log.type === 'tx' ? 'text-blue-300' : ''}
+          ${log.type === 'rx' ? 'text-green-300' : ''}
+          ${log.type === 'info' ? 'text-yellow-300 italic' : ''}
+          ${log.type === 'error' ? 'text-red-300 font-bold' : ''}
+        `}>
+          {highlight(parts[0], search.re)}
+        </span>
+        {parts[1] !== undefined && <span className="text-slate-400">{highlight(parts[1], search.re)}</span>}
+      </div>
+    );
+  }
 
   return (
     <div className="flex flex-col h-full bg-black rounded-lg border border-slate-800 font-mono text-sm shadow-inner">
-      <div className="flex justify-between items-center px-4 py-2 bg-slate-900 border-b border-slate-800">
+      <div className="flex justify-between items-center px-4 py-2 bg-slate-900 border-b border-slate-800 gap-2 flex-wrap">
         <span className="text-slate-400 font-bold uppercase tracking-wider text-xs">Terminal</span>
         <div className="flex items-center gap-3">
-          <button 
-            onClick={onExport}
+          <div className="flex text-[10px] rounded border border-slate-700 overflow-hidden">
+            {DISPLAY_MODES.map(m => (
+              <button
+                key={m.value}
+                onClick={() => onDisplayModeChange?.(m.value)}
+                className={`px-1.5 py-0.5 ${displayMode === m.value ? 'bg-slate-700 text-white' : 'bg-slate-800 text-slate-500 hover:text-slate-300'}`}
+              >
+                {m.label}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-1 text-[10px] text-slate-500" title="Split RX into lines on this delimiter (escapes like \r\n, \x03 allowed). Empty logs each chunk as received.">
+            Split
+            <input
+              value={rxDelimiter}
+              onChange={(e) => onRxDelimiterChange?.(e.target.value)}
+              placeholder="off"
+              className="w-12 bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none focus:border-blue-500"
+            />
+          </label>
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as LogExportFormat)}
+            className="text-[10px] bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-300 outline-none"
+            title="Log export format"
+          >
+            {(Object.keys(LOG_EXPORT_FORMATS) as LogExportFormat[]).map(f => (
+              <option key={f} value={f}>{LOG_EXPORT_FORMATS[f].label}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => onExport(exportFormat)}
             className="flex items-center gap-1 text-xs text-slate-500 hover:text-blue-400 transition-colors"
-            title="Export all logs to file"
+            title="Export the whole session history to file"
           >
             <Save size={14} /> Export
           </button>
@@ -35,32 +305,102 @@ export const Terminal: React.FC<TerminalProps> = ({ logs, clearLogs, onExport })
           </button>
         </div>
       </div>
-      <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar">
+
+      {/* One tab per open port */}
+      {ports.length > 1 && (
+        <div className="flex items-center gap-1 px-4 pt-1 bg-slate-900 border-b border-slate-800 text-[10px]">
+          {[{ id: ALL_PORTS, name: 'All', traffic: null as PortTraffic | null }, ...ports].map(p => (
+            <button
+              key={p.id}
+              onClick={() => setPortTab(p.id)}
+              className={`px-2 py-0.5 rounded-t border-t border-x ${tab === p.id ? 'bg-black border-slate-700 text-white' : 'border-transparent text-slate-500 hover:text-slate-300'}`}
+              title={p.traffic ? `TX ${p.traffic.txBytes.toLocaleString()} bytes, RX ${p.traffic.rxBytes.toLocaleString()} bytes` : 'Entries from every port'}
+            >
+              {p.name}
+              {p.traffic && <span className="ml-1 text-slate-600">↑{p.traffic.txBytes.toLocaleString()} ↓{p.traffic.rxBytes.toLocaleString()}</span>}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="flex items-center gap-2 px-4 py-1 bg-slate-900/60 border-b border-slate-800 text-[10px] flex-wrap">
+        <div className="flex rounded border border-slate-700 overflow-hidden">
+          {LOG_TYPES.map(t => (
+            <button
+              key={t.type}
+              onClick={() => setShownTypes({ ...shownTypes, [t.type]: !shownTypes[t.type] })}
+              className={`px-1.5 py-0.5 ${shownTypes[t.type] ? `bg-slate-700 ${t.color}` : 'bg-slate-800 text-slate-600 line-through'}`}
+              title={`Show ${t.label} entries`}
+            >
+              {t.label}
+            </button>
+          ))}
+        </div>
+        <div className={`flex items-center gap-1 flex-1 min-w-[120px] bg-slate-800 border rounded px-1 ${search.error ? 'border-red-500' : 'border-slate-700'}`}>
+          <Search size={10} className="text-slate-500 shrink-0" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Regex search (filters and highlights)"
+            className="flex-1 min-w-0 bg-transparent py-0.5 text-slate-300 outline-none"
+            spellCheck={false}
+          />
+          <button
+            onClick={() => setCaseSensitive(!caseSensitive)}
+            className={`px-1 rounded ${caseSensitive ? 'text-white bg-slate-600' : 'text-slate-500 hover:text-slate-300'}`}
+            title="Case sensitive"
+          >
+            Aa
+          </button>
+        </div>
+        <span className="text-slate-500">
+          {visible ? `${visible.length.toLocaleString()} / ` : ''}{logs.length.toLocaleString()}
+        </span>
+        <button
+          onClick={() => followTail ? setFollowTail(false) : jumpToLatest()}
+          className={`flex items-center gap-1 px-1.5 py-0.5 rounded border ${followTail ? 'border-slate-700 text-slate-500 hover:text-slate-300' : 'border-amber-600 text-amber-300 bg-amber-900/30'}`}
+          title={followTail ? 'Pause autoscroll' : 'Resume autoscroll and jump to the newest entry'}
+        >
+          {followTail ? <Pause size={10} /> : <Play size={10} />}
+          {followTail ? 'Auto' : 'Paused'}
+        </button>
+      </div>
+
+      <div ref={scrollRef} onScroll={onScroll} className="flex-1 overflow-auto custom-scrollbar relative">
         {logs.length === 0 && (
           <div className="text-slate-600 text-center italic mt-10">No activity yet...</div>
         )}
-        {logs.map((log) => (
-          <div key={log.id} className="flex gap-3 animate-fade-in">
-            <span className="text-slate-600 shrink-0 text-xs mt-0.5 w-[70px]">{log.timestamp}</span>
-            <div className="flex items-start gap-2 break-all">
-              {log.type === 'tx' && <ArrowUp size={14} className="text-blue-500 mt-0.5 shrink-0" />}
-              {log.type === 'rx' && <ArrowDown size={14} className="text-green-500 mt-0.5 shrink-0" />}
-              {log.type === 'info' && <Info size={14} className="text-yellow-500 mt-0.5 shrink-0" />}
-              {log.type === 'error' && <AlertCircle size={14} className="text-red-500 mt-0.5 shrink-0" />}
-              
-              <span className={`
-                ${log.type === 'tx' ? 'text-blue-300' : ''}
-                ${log.type === 'rx' ? 'text-green-300' : ''}
-                ${log.type === 'info' ? 'text-yellow-300 italic' : ''}
-                ${log.type === 'error' ? 'text-red-300 font-bold' : ''}
-              `}>
-                {log.data}
-              </span>
-            </div>
-          </div>
-        ))}
-        <div ref={endRef} />
+        <div className="relative min-w-full w-max" style={{ height: rowCount * ROW_HEIGHT + 16 }}>
+          {rows}
+        </div>
       </div>
+
+      {/* Frame dissector */}
+      {openFrame?.frame && (
+        <div className="border-t border-slate-800 bg-slate-950 px-4 py-2 text-xs space-y-1">
+          <div className="flex items-center gap-2">
+            <span className="text-slate-400 font-bold uppercase tracking-wider text-[10px]">Frame</span>
+            <span className="text-slate-600">{openFrame.timestamp}{openFrame.port ? ` ${openFrame.port}` : ''}, {openFrame.frame.fields[openFrame.frame.fields.length - 1]?.end ?? 0} bytes</span>
+            <span className={openFrame.frame.reject ? 'text-red-400 font-bold' : 'text-green-400'}>{frameSummary(openFrame)}</span>
+            <button onClick={() => setOpenFrame(null)} className="ml-auto text-slate-500 hover:text-white" title="Close">
+              <X size={12} />
+            </button>
+          </div>
+          <table className="w-full">
+            <tbody>
+              {openFrame.frame.fields.map(f => (
+                <tr key={f.start}>
+                  <td className={`pr-3 w-20 ${FRAME_FIELDS[f.kind].color}`}>{FRAME_FIELDS[f.kind].label}</td>
+                  <td className="pr-3 w-16 text-slate-600">{f.end - f.start > 1 ? `${f.start}-${f.end - 1}` : f.start}</td>
+                  <td className={`whitespace-pre-wrap break-all ${FRAME_FIELDS[f.kind].color}`}>{fieldHex(openFrame, f.start, f.end)}</td>
+                  <td className="pl-3 text-right text-slate-300 w-24">{f.kind === 'value' && openFrame.frame?.value !== undefined ? openFrame.frame.value : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,226 @@
+import { SerialConfig, SerialTransport, TransportInfo, MockDeviceConfig, FieldFormat, DeviceSettings } from '../types';
+import { DEFAULT_FIELD_FORMAT, decimalToBytes, readField } from '../utils/hexUtils';
+import { crc16Modbus } from '../utils/checksum';
+
+// A mock script maps one written frame to the bytes the device answers with.
+// Returning null means the device stays silent.
+export type MockScript = (frame: Uint8Array) => Uint8Array | null;
+
+export interface MockTransport extends SerialTransport {
+  setScript(script: MockScript): void;
+  setTiming(options: Pick<MockDeviceConfig, 'latencyMs' | 'dropRate'>): void;
+  inject(data: Uint8Array): void; // Push unsolicited bytes to the reader
+}
+
+export const echoScript: MockScript = (frame) => frame.slice();
+
+export const silentScript: MockScript = () => null;
+
+export interface ResonatorOptions {
+  counterIndex: number;  // Where the sweep counter sits in the TX frame
+  bigEndian: boolean;
+  counterFormat?: FieldFormat; // Defaults to unsigned 16-bit
+  centerRaw: number;     // Resonance position in raw counter units
+  widthRaw: number;      // Half width at half maximum, raw counter units
+  amplitude?: number;
+  noise?: number;
+}
+
+const resonatorValue = (raw: number, centerRaw: number, widthRaw: number, amplitude: number, noise: number): number => {
+  const detune = (raw - centerRaw) / Math.max(1, widthRaw);
+  const ideal = amplitude / (1 + detune * detune);
+  return Math.round(Math.min(4096, Math.max(0, ideal + 100 + (Math.random() - 0.5) * noise)));
+};
+
+/**
+ * Emulates the DDS board: reads the tuning word from the TX frame and
+ * answers with the 15-byte FF FE FD FC 02 56 .. FB FA F9 F8 packet carrying a
+ * Lorentzian response value.
+ */
+export const createResonatorScript = (options: ResonatorOptions): MockScript => {
+  const { counterIndex, bigEndian, counterFormat = DEFAULT_FIELD_FORMAT, centerRaw, widthRaw, amplitude = 3500, noise = 20 } = options;
+
+  return (frame) => {
+    if (counterIndex < 0 || counterIndex + counterFormat.width > frame.length) return null;
+    const raw = readField(frame, counterIndex, counterFormat, bigEndian);
+
+    const value = resonatorValue(raw, centerRaw, widthRaw, amplitude, noise);
+
+    const [high, low] = decimalToBytes(value);
+    return new Uint8Array([
+      0xFF, 0xFE, 0xFD, 0xFC, 0x02, 0x56,
+      high, low,
+      0x00, 0x00, 0x00,
+      0xFB, 0xFA, 0xF9, 0xF8
+    ]);
+  };
+};
+
+const withModbusCrc = (bytes: number[]): Uint8Array => {
+  const crc = crc16Modbus(bytes);
+  return new Uint8Array([...bytes, crc & 0xFF, (crc >> 8) & 0xFF]);
+};
+
+/**
+ * Modbus RTU slave backed by a register map. Registers that were never written
+ * read back the resonator response to the most recently written value, so a
+ * write-counter / read-result sweep traces a resonance curve.
+ */
+export const createModbusSlaveScript = (options: { slaveId: number; centerRaw: number; widthRaw: number }): MockScript => {
+  const registers = new Map<number, number>();
+  let lastWritten = 0;
+
+  return (frame) => {
+    if (frame.length < 4 || frame[0] !== options.slaveId) return null;
+    const crc = crc16Modbus(frame.subarray(0, frame.length - 2));
+    if (frame[frame.length - 2] !== (crc & 0xFF) || frame[frame.length - 1] !== ((crc >> 8) & 0xFF)) return null;
+
+    const fn = frame[1];
+    const address = (frame[2] << 8) | frame[3];
+    const word = (frame[4] << 8) | frame[5];
+
+    switch (fn) {
+      case 0x01: {
+        const bytes = new Array(Math.ceil(word / 8)).fill(0);
+        return withModbusCrc([options.slaveId, fn, bytes.length, ...bytes]);
+      }
+      case 0x03:
+      case 0x04: {
+        if (word < 1 || word > 125) return withModbusCrc([options.slaveId, fn | 0x80, 0x03]);
+        const data: number[] = [];
+        for (let i = 0; i < word; i++) {
+          const v = registers.get(address + i)
+            ?? resonatorValue(lastWritten, options.centerRaw, options.widthRaw, 3500, 20);
+          data.push((v >> 8) & 0xFF, v & 0xFF);
+        }
+        return withModbusCrc([options.slaveId, fn, data.length, ...data]);
+      }
+      case 0x06:
+        registers.set(address, word);
+        lastWritten = word;
+        return withModbusCrc(Array.from(frame.slice(0, 6)));
+      case 0x10: {
+        for (let i = 0; i < word; i++) {
+          const v = (frame[7 + i * 2] << 8) | frame[8 + i * 2];
+          registers.set(address + i, v);
+          lastWritten = v;
+        }
+        return withModbusCrc(Array.from(frame.slice(0, 6)));
+      }
+      default:
+        return withModbusCrc([options.slaveId, fn | 0x80, 0x01]);
+    }
+  };
+};
+
+// The script picked in the settings, with the resonance in the middle of the sweep range
+export const createMockScriptForSettings = (
+  settings: Pick<DeviceSettings, 'mock' | 'rangeStartHex' | 'rangeEndHex' | 'targetByteIndex' | 'txBigEndian' | 'txFormat' | 'modbus'>
+): MockScript => {
+  const start = parseInt(settings.rangeStartHex.replace(/[^0-9A-Fa-f]/g, ''), 16) || 0;
+  const end = parseInt(settings.rangeEndHex.replace(/[^0-9A-Fa-f]/g, ''), 16) || start;
+  const centerRaw = (start + end) / 2;
+  const widthRaw = Math.max(1, (end - start) / 12);
+
+  switch (settings.mock.script) {
+    case 'echo':
+      return echoScript;
+    case 'silent':
+      return silentScript;
+    case 'modbus':
+      return createModbusSlaveScript({ slaveId: settings.modbus.sweep.slaveId, centerRaw, widthRaw });
+    default:
+      return createResonatorScript({
+        counterIndex: settings.targetByteIndex,
+        bigEndian: settings.txBigEndian,
+        counterFormat: settings.txFormat,
+        centerRaw,
+        widthRaw
+      });
+  }
+};
+
+export const createMockTransport = (
+  initialScript: MockScript,
+  timing: Pick<MockDeviceConfig, 'latencyMs' | 'dropRate'>
+): MockTransport => {
+  let script = initialScript;
+  let latencyMs = timing.latencyMs;
+  let dropRate = timing.dropRate;
+  let readable: ReadableStream<Uint8Array> | null = null;
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  const pendingTimers = new Set<ReturnType<typeof setTimeout>>();
+
+  const enqueue = (data: Uint8Array) => {
+    if (!controller) return;
+    try {
+      controller.enqueue(data);
+    } catch {
+      // Reader already cancelled
+    }
+  };
+
+  return {
+    kind: 'mock',
+
+    get readable() {
+      return readable;
+    },
+
+    async open(_config: SerialConfig) {
+      if (readable) throw new Error('Mock device already open');
+      readable = new ReadableStream<Uint8Array>({
+        start(c) {
+          controller = c;
+        },
+        cancel() {
+          controller = null;
+        }
+      });
+    },
+
+    async write(data: Uint8Array) {
+      if (!readable) throw new Error('Port not open');
+      const response = script(data);
+      if (!response || response.length === 0) return;
+      if (Math.random() < dropRate) return;
+
+      const timer = setTimeout(() => {
+        pendingTimers.delete(timer);
+        enqueue(response);
+      }, latencyMs);
+      pendingTimers.add(timer);
+    },
+
+    async close() {
+      pendingTimers.forEach(t => clearTimeout(t));
+      pendingTimers.clear();
+      if (controller) {
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed or cancelled
+        }
+      }
+      controller = null;
+      readable = null;
+    },
+
+    getInfo(): TransportInfo {
+      return { label: 'Mock Device' };
+    },
+
+    setScript(next: MockScript) {
+      script = next;
+    },
+
+    setTiming(next) {
+      latencyMs = next.latencyMs;
+      dropRate = next.dropRate;
+    },
+
+    inject(data: Uint8Array) {
+      enqueue(data);
+    }
+  };
+};
@@ -0,0 +1,112 @@
+import fs from 'node:fs';
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
+import tty from 'node:tty';
+import { SerialConfig, SerialTransport, TransportInfo } from '../types';
+
+const run = promisify(execFile);
+const openFd = promisify(fs.open);
+const closeFd = promisify(fs.close);
+const writeFd = promisify(fs.write);
+
+// Line settings as `stty` arguments: raw bytes, no echo, no modem control
+export const sttyArgs = (config: SerialConfig): string[] => [
+  String(config.baudRate),
+  'raw', '-echo', 'clocal',
+  config.dataBits === 7 ? 'cs7' : 'cs8',
+  ...(config.parity === 'none' ? ['-parenb'] : ['parenb', config.parity === 'odd' ? 'parodd' : '-parodd']),
+  config.stopBits === 2 ? 'cstopb' : '-cstopb'
+];
+
+/**
+ * A serial device path (/dev/ttyUSB0, /dev/cu.usbserial-*, a pty) for the
+ * headless runner. Node has no serial API, so the line is configured with
+ * `stty` and read and written as a terminal device.
+ */
+export const createNodeSerialTransport = (path: string): SerialTransport => {
+  let input: tty.ReadStream | null = null;
+  let output: number | null = null; // Separate blocking descriptor, so writes never see EAGAIN
+  let readable: ReadableStream<Uint8Array> | null = null;
+
+  return {
+    kind: 'node',
+
+    get readable() {
+      return readable;
+    },
+
+    async open(config: SerialConfig) {
+      if (readable) throw new Error(`${path} already open`);
+      const { O_RDONLY, O_WRONLY, O_NOCTTY, O_NONBLOCK } = fs.constants;
+      const fd = await openFd(path, O_RDONLY | O_NOCTTY | O_NONBLOCK);
+      if (!tty.isatty(fd)) {
+        await closeFd(fd);
+        throw new Error(`${path} is not a serial device`);
+      }
+      try {
+        // clocal first, so the blocking open below does not wait for carrier detect
+        await run('stty', [process.platform === 'darwin' ? '-f' : '-F', path, ...sttyArgs(config)]);
+        output = await openFd(path, O_WRONLY | O_NOCTTY);
+      } catch (e: any) {
+        await closeFd(fd);
+        throw new Error(e?.stderr?.trim() || e?.message || String(e));
+      }
+
+      // The tty stream owns the read descriptor from here on
+      const stream = new tty.ReadStream(fd);
+      input = stream;
+      readable = new ReadableStream<Uint8Array>({
+        start(controller) {
+          stream.on('data', (chunk: Buffer) => {
+            try {
+              controller.enqueue(new Uint8Array(chunk));
+            } catch {
+              // Reader already cancelled
+            }
+          });
+          stream.on('error', (e) => {
+            try {
+              controller.error(e);
+            } catch {
+              // Already closed
+            }
+          });
+          stream.on('close', () => {
+            try {
+              controller.close();
+            } catch {
+              // Already errored or closed
+            }
+          });
+        },
+        cancel() {
+          stream.pause();
+        }
+      });
+    },
+
+    async write(data: Uint8Array) {
+      if (output === null) throw new Error('Port not open');
+      let offset = 0;
+      while (offset < data.length) {
+        const { bytesWritten } = await writeFd(output, data, offset, data.length - offset);
+        offset += bytesWritten;
+      }
+    },
+
+    async close() {
+      input?.destroy();
+      input = null;
+      readable = null;
+      if (output !== null) {
+        const fd = output;
+        output = null;
+        await closeFd(fd);
+      }
+    },
+
+    getInfo(): TransportInfo {
+      return { label: path };
+    }
+  };
+};
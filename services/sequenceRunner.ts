@@ -0,0 +1,241 @@
+import { Sequence, SequenceStep, SequenceResult, SequenceCompareOp } from '../types';
+import { hexToUint8Array, uint8ArrayToHex, readUInt } from '../utils/hexUtils';
+import { encodeText } from '../utils/textUtils';
+import { BytePattern, compilePattern, findPattern } from '../utils/sequence';
+
+// Guards against branches that jump back forever
+const MAX_STEPS_EXECUTED = 100000;
+// RX kept for expect steps; older bytes are dropped
+const MAX_RX_BUFFER = 65536;
+
+export interface SequenceRunnerCallbacks {
+  send: (hex: string) => Promise<boolean>;
+  onStep?: (index: number) => void;
+  onLog?: (level: 'info' | 'error', step: number, message: string) => void;
+  onFinish?: (result: SequenceResult) => void;
+}
+
+export interface SequenceRunner {
+  start(): void;
+  stop(): void;
+  notifyRx(chunk: Uint8Array): void;
+  isRunning(): boolean;
+}
+
+const compare = (a: number, op: SequenceCompareOp, b: number): boolean => {
+  switch (op) {
+    case '==': return a === b;
+    case '!=': return a !== b;
+    case '<': return a < b;
+    case '<=': return a <= b;
+    case '>': return a > b;
+    case '>=': return a >= b;
+  }
+};
+
+const expandVariables = (text: string, variables: Record<string, number>) =>
+  text.replace(/\$\{(\w+)\}/g, (whole, name) => (name in variables ? String(variables[name]) : whole));
+
+/**
+ * Executes a sequence step by step. RX bytes arriving after the last send are
+ * buffered so an expect step also sees a response that beat it.
+ */
+export const createSequenceRunner = (sequence: Sequence, callbacks: SequenceRunnerCallbacks): SequenceRunner => {
+  const { steps } = sequence;
+  const labelIndex = new Map(steps.flatMap((s, i) => (s.label ? [[s.label, i] as const] : [])));
+
+  let running = false;
+  let stopped = false;
+  let rx = new Uint8Array(0);
+  let waiter: { pattern: BytePattern; resolve: (match: Uint8Array | null) => void; timer: ReturnType<typeof setTimeout> } | null = null;
+  let sleeper: { resolve: () => void; timer: ReturnType<typeof setTimeout> } | null = null;
+
+  const log = (level: 'info' | 'error', step: number, message: string) => callbacks.onLog?.(level, step, message);
+
+  // Consumes and returns the bytes up to the end of the first match
+  const takeMatch = (pattern: BytePattern): Uint8Array | null => {
+    const at = findPattern(rx, pattern);
+    if (at === -1) return null;
+    const match = rx.slice(at, at + pattern.value.length);
+    rx = rx.slice(at + pattern.value.length);
+    return match;
+  };
+
+  const waitForMatch = (pattern: BytePattern, timeoutMs: number): Promise<Uint8Array | null> => {
+    const immediate = takeMatch(pattern);
+    if (immediate) return Promise.resolve(immediate);
+    return new Promise(resolve => {
+      waiter = {
+        pattern,
+        resolve,
+        timer: setTimeout(() => {
+          waiter = null;
+          resolve(null);
+        }, timeoutMs)
+      };
+    });
+  };
+
+  const sleep = (ms: number): Promise<void> => new Promise(resolve => {
+    sleeper = {
+      resolve,
+      timer: setTimeout(() => {
+        sleeper = null;
+        resolve();
+      }, ms)
+    };
+  });
+
+  const stepBytes = (step: Extract<SequenceStep, { kind: 'send' }>, variables: Record<string, number>): Uint8Array =>
+    step.mode === 'text'
+      ? encodeText(expandVariables(step.payload, variables), step.lineEnding ?? 'none')
+      : hexToUint8Array(step.payload);
+
+  const run = async (): Promise<SequenceResult> => {
+    const t0 = performance.now();
+    const variables: Record<string, number> = {};
+    const loopCounts = new Map<string, number>();
+    let failures = 0;
+    let executed = 0;
+    let lastFailed = false;
+    let lastMatch: Uint8Array | null = null;
+
+    const result = (outcome: SequenceResult['outcome'], error?: string): SequenceResult => ({
+      outcome,
+      failures,
+      stepsExecuted: executed,
+      durationMs: Math.round(performance.now() - t0),
+      variables: { ...variables },
+      error
+    });
+
+    let pc = 0;
+    while (pc < steps.length) {
+      if (stopped) return result('stopped');
+      if (++executed > MAX_STEPS_EXECUTED) return result('aborted', `More than ${MAX_STEPS_EXECUTED} steps executed`);
+
+      const step = steps[pc];
+      const n = pc + 1;
+      callbacks.onStep?.(pc);
+
+      switch (step.kind) {
+        case 'send': {
+          let bytes: Uint8Array;
+          try {
+            bytes = stepBytes(step, variables);
+          } catch (e: any) {
+            return result('aborted', `Step ${n}: ${e.message}`);
+          }
+          rx = new Uint8Array(0);
+          if (!(await callbacks.send(uint8ArrayToHex(bytes)))) return result('aborted', `Step ${n}: send failed`);
+          break;
+        }
+
+        case 'wait':
+          await sleep(step.ms);
+          break;
+
+        case 'expect': {
+          const match = await waitForMatch(compilePattern(step.pattern, step.mask), step.timeoutMs);
+          if (stopped) return result('stopped');
+          if (match) {
+            lastMatch = match;
+            lastFailed = false;
+            log('info', pc, `Step ${n} PASS: got ${uint8ArrayToHex(match)}`);
+            break;
+          }
+
+          failures++;
+          lastFailed = true;
+          lastMatch = null; // Captures must not read a stale response
+          log('error', pc, `Step ${n} FAIL: no match for ${step.pattern} within ${step.timeoutMs} ms`);
+          if (step.onFail === 'abort') return result('failed', `Step ${n}: expected response not received`);
+          if (step.onFail === 'goto') {
+            pc = labelIndex.get(step.failTarget ?? '')!;
+            continue;
+          }
+          break;
+        }
+
+        case 'capture': {
+          if (!lastMatch || step.offset + step.width > lastMatch.length) {
+            failures++;
+            lastFailed = true;
+            log('error', pc, `Step ${n} FAIL: no response bytes ${step.offset}-${step.offset + step.width - 1} to capture`);
+            break;
+          }
+          variables[step.variable] = readUInt(lastMatch, step.offset, step.width, step.bigEndian);
+          lastFailed = false;
+          log('info', pc, `Step ${n}: ${step.variable} = ${variables[step.variable]}`);
+          break;
+        }
+
+        case 'loop': {
+          const done = (loopCounts.get(step.id) ?? 1);
+          if (done < step.count) {
+            loopCounts.set(step.id, done + 1);
+            pc = labelIndex.get(step.target)!;
+            continue;
+          }
+          loopCounts.delete(step.id); // An enclosing loop may run this one again
+          break;
+        }
+
+        case 'branch': {
+          const taken = step.when === 'failed'
+            ? lastFailed
+            : step.variable in variables && compare(variables[step.variable], step.op, step.value);
+          if (taken) {
+            pc = labelIndex.get(step.target)!;
+            continue;
+          }
+          break;
+        }
+      }
+      pc++;
+    }
+    return result(failures > 0 ? 'failed' : 'passed');
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      void run().then(res => {
+        running = false;
+        callbacks.onFinish?.(res);
+      });
+    },
+
+    stop() {
+      stopped = true;
+      if (waiter) {
+        clearTimeout(waiter.timer);
+        waiter.resolve(null);
+        waiter = null;
+      }
+      if (sleeper) {
+        clearTimeout(sleeper.timer);
+        sleeper.resolve();
+        sleeper = null;
+      }
+    },
+
+    notifyRx(chunk: Uint8Array) {
+      const merged = new Uint8Array(rx.length + chunk.length);
+      merged.set(rx);
+      merged.set(chunk, rx.length);
+      rx = merged.length > MAX_RX_BUFFER ? merged.slice(merged.length - MAX_RX_BUFFER) : merged;
+
+      if (!waiter) return;
+      const match = takeMatch(waiter.pattern);
+      if (!match) return;
+      const { resolve, timer } = waiter;
+      clearTimeout(timer);
+      waiter = null;
+      resolve(match);
+    },
+
+    isRunning: () => running
+  };
+};
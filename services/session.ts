@@ -0,0 +1,166 @@
+import { SessionEvent, SessionRecording, SessionSettings } from '../types';
+import { FIELD_ENCODINGS } from '../utils/hexUtils';
+import { normalizeDeviceSettings } from '../utils/deviceProfiles';
+
+// Events without the timestamp; the recorder stamps them
+type DistributiveOmit<T, K extends keyof any> = T extends any ? Omit<T, K> : never;
+type UnstampedEvent = DistributiveOmit<SessionEvent, 't'>;
+
+// Events delivered per timer tick when replaying as fast as possible
+const MAX_SPEED_BATCH = 20;
+
+export interface SessionRecorder {
+  record(event: UnstampedEvent): void;
+  finish(): SessionRecording;
+  readonly eventCount: number;
+}
+
+export const createSessionRecorder = (settings: SessionSettings): SessionRecorder => {
+  const startedAt = new Date();
+  const t0 = performance.now();
+  const events: SessionEvent[] = [];
+
+  return {
+    record(event) {
+      events.push({ ...event, t: Number((performance.now() - t0).toFixed(3)) } as SessionEvent);
+    },
+    finish() {
+      return {
+        format: 'hexserial-session',
+        version: 1,
+        startedAt: startedAt.toISOString(),
+        settings,
+        events: events.slice()
+      };
+    },
+    get eventCount() {
+      return events.length;
+    }
+  };
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isCount = (v: unknown): v is number => Number.isInteger(v) && (v as number) >= 0;
+
+// Which part of the recorded settings is malformed, or null; optional parts are checked when present
+const sessionSettingsError = (s: Record<string, unknown>): string | null => {
+  const { serial, frameDef, rxFormat, modbus } = s;
+  if (!isObject(serial) || !isCount(serial.baudRate) || !isCount(serial.dataBits) || !isCount(serial.stopBits)
+    || !['none', 'even', 'odd'].includes(serial.parity as string)) return 'serial settings';
+  if (!isObject(frameDef)) return 'frame definition';
+  const flags = ['enableHeaderCheck', 'rxIsBigEndian'].find(k => typeof s[k] !== 'boolean');
+  if (flags) return flags;
+  if (!isCount(s.rxByteIndex)) return 'rxByteIndex';
+  if (rxFormat !== undefined && !(isObject(rxFormat) && [1, 2, 3, 4].includes(rxFormat.width as number)
+    && typeof rxFormat.encoding === 'string' && rxFormat.encoding in FIELD_ENCODINGS)) return 'rxFormat';
+  if (modbus !== undefined && !(isObject(modbus) && typeof modbus.enabled === 'boolean' && isObject(modbus.sweep)
+    && isCount(modbus.sweep.slaveId) && isCount(modbus.sweep.writeAddress) && isCount(modbus.sweep.readAddress)
+    && [0x03, 0x04].includes(modbus.sweep.readFunction as number))) return 'modbus settings';
+  return null;
+};
+
+// The recorded RX settings go through the same checks as an imported profile.
+// A recording whose settings would need defaults cannot replay the way it ran,
+// so it is rejected instead of patched.
+const parseSessionSettings = (raw: unknown): SessionSettings => {
+  if (!isObject(raw)) throw new Error('Recording has no settings');
+  const error = sessionSettingsError(raw);
+  if (error) throw new Error(`Recording has invalid ${error}`);
+
+  const issues: string[] = [];
+  const settings = normalizeDeviceSettings(
+    { serial: raw.serial, frameDef: raw.frameDef, rxFormat: raw.rxFormat, modbus: raw.modbus },
+    message => issues.push(message)
+  );
+  if (issues.length > 0) throw new Error(`Recording cannot be replayed. ${issues[0]}`);
+  return {
+    serial: settings.serial,
+    frameDef: settings.frameDef,
+    enableHeaderCheck: raw.enableHeaderCheck as boolean,
+    rxByteIndex: raw.rxByteIndex as number,
+    rxIsBigEndian: raw.rxIsBigEndian as boolean,
+    ...(raw.rxFormat !== undefined ? { rxFormat: settings.rxFormat } : {}),
+    ...(raw.modbus !== undefined ? { modbus: settings.modbus } : {})
+  };
+};
+
+export const parseSessionRecording = (text: string): SessionRecording => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('Not a valid JSON file');
+  }
+  if (!isObject(parsed) || parsed.format !== 'hexserial-session' || !Array.isArray(parsed.events)) {
+    throw new Error('Not a session recording');
+  }
+  return { ...parsed, settings: parseSessionSettings(parsed.settings) } as SessionRecording;
+};
+
+export const sessionDurationMs = (recording: SessionRecording): number =>
+  recording.events.length > 0 ? recording.events[recording.events.length - 1].t : 0;
+
+export interface SessionPlayer {
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Replays recorded events in order. `speed` scales the original gaps
+ * (2 = twice as fast); 0 replays as fast as possible while still yielding
+ * between events so the UI can render.
+ */
+export const createSessionPlayer = (
+  recording: SessionRecording,
+  speed: number,
+  onEvent: (event: SessionEvent, index: number) => void,
+  onDone: (completed: boolean) => void
+): SessionPlayer => {
+  const { events } = recording;
+  let index = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let startWall = 0;
+  let running = false;
+
+  const scheduleNext = () => {
+    if (!running) return;
+    if (index >= events.length) {
+      running = false;
+      onDone(true);
+      return;
+    }
+    // Schedule against the start time so timer jitter does not accumulate
+    const due = speed > 0 ? startWall + events[index].t / speed : performance.now();
+    timer = setTimeout(() => {
+      timer = null;
+      if (!running) return;
+      const now = performance.now();
+      const batchEnd = index + MAX_SPEED_BATCH;
+      // Deliver every event that is already due in one go
+      do {
+        onEvent(events[index], index);
+        index++;
+      } while (
+        index < events.length &&
+        (speed > 0 ? startWall + events[index].t / speed <= now : index < batchEnd)
+      );
+      scheduleNext();
+    }, Math.max(0, due - performance.now()));
+  };
+
+  return {
+    start() {
+      if (running) return;
+      running = true;
+      startWall = performance.now();
+      scheduleNext();
+    },
+    stop() {
+      if (!running) return;
+      running = false;
+      if (timer !== null) clearTimeout(timer);
+      timer = null;
+      onDone(false);
+    }
+  };
+};
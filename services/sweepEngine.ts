@@ -0,0 +1,156 @@
+import { SweepFailurePolicy } from '../types';
+
+export type SweepEngineState = 'idle' | 'sending' | 'waiting' | 'done';
+export type SweepOutcome = 'complete' | 'aborted' | 'stopped';
+
+export interface SweepEngineOptions {
+  points: number[];          // Raw counter values, in send order
+  awaitResponse: boolean;    // false = open loop, one point every intervalMs
+  intervalMs: number;        // Open-loop pacing
+  responseTimeoutMs: number; // Per attempt, counted from the start of its send; closed loop only
+  maxRetries: number;        // Resends after the first attempt times out
+  failurePolicy: SweepFailurePolicy;
+  startIndex?: number;       // Resume point; earlier points are not sent
+  stopIndex?: number;        // Exclusive end, for sub-range runs; defaults to all points
+}
+
+export interface SweepEngineCallbacks {
+  sendPoint: (raw: number, index: number, attempt: number) => Promise<void>;
+  onPointAcked?: (raw: number, index: number) => void;
+  onRetry?: (raw: number, index: number, attempt: number) => void;
+  onPointSkipped?: (raw: number, index: number) => void;
+  onStateChange?: (state: SweepEngineState) => void;
+  onFinish?: (outcome: SweepOutcome, detail: { index: number; raw: number | null; error?: string }) => void;
+}
+
+export interface SweepEngine {
+  start(): void;
+  stop(): void;
+  notifyResponse(): boolean; // Valid response received; false if nothing was pending
+  getState(): SweepEngineState;
+  getIndex(): number;
+}
+
+/**
+ * Drives a sweep point by point. In closed-loop mode each point is resent
+ * until a response arrives or the retry budget runs out, then skipped or the
+ * sweep aborted per policy. The next point goes out as soon as the current one
+ * is acknowledged.
+ */
+export const createSweepEngine = (options: SweepEngineOptions, callbacks: SweepEngineCallbacks): SweepEngine => {
+  const { points } = options;
+  const stopIndex = Math.min(options.stopIndex ?? points.length, points.length);
+  let state: SweepEngineState = 'idle';
+  let index = options.startIndex ?? 0;
+  let attempt = 0;
+  let acked = false; // Response arrived while the send was still in flight
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let generation = 0; // Bumped on finish so late async continuations bail out
+
+  const setState = (next: SweepEngineState) => {
+    if (state === next) return;
+    state = next;
+    callbacks.onStateChange?.(next);
+  };
+
+  const clearTimer = () => {
+    if (timer !== null) {
+      clearTimeout(timer);
+      timer = null;
+    }
+  };
+
+  const finish = (outcome: SweepOutcome, error?: string) => {
+    if (state === 'done') return;
+    generation++;
+    clearTimer();
+    setState('done');
+    callbacks.onFinish?.(outcome, { index, raw: index < points.length ? points[index] : null, error });
+  };
+
+  const advance = () => {
+    index++;
+    attempt = 0;
+    void sendCurrent();
+  };
+
+  const onTimeout = () => {
+    timer = null;
+    if (attempt < options.maxRetries) {
+      attempt++;
+      callbacks.onRetry?.(points[index], index, attempt);
+      void sendCurrent();
+      return;
+    }
+    if (options.failurePolicy === 'abort') {
+      finish('aborted', `No valid response after ${attempt + 1} attempt(s)`);
+      return;
+    }
+    callbacks.onPointSkipped?.(points[index], index);
+    advance();
+  };
+
+  const sendCurrent = async () => {
+    if (index >= stopIndex) {
+      finish('complete');
+      return;
+    }
+
+    const gen = generation;
+    const attemptStart = Date.now();
+    acked = false;
+    setState('sending');
+    try {
+      await callbacks.sendPoint(points[index], index, attempt);
+    } catch (e: any) {
+      if (gen === generation) finish('aborted', e?.message ?? String(e));
+      return;
+    }
+    if (gen !== generation) return;
+
+    if (!options.awaitResponse) {
+      setState('waiting');
+      timer = setTimeout(() => {
+        timer = null;
+        advance();
+      }, options.intervalMs);
+      return;
+    }
+
+    if (acked) {
+      callbacks.onPointAcked?.(points[index], index);
+      advance();
+      return;
+    }
+    // A send that itself waits for replies (Modbus write + read-back) uses up the same budget
+    setState('waiting');
+    timer = setTimeout(onTimeout, Math.max(0, options.responseTimeoutMs - (Date.now() - attemptStart)));
+  };
+
+  return {
+    start() {
+      if (state !== 'idle') return;
+      void sendCurrent();
+    },
+
+    stop() {
+      finish('stopped');
+    },
+
+    notifyResponse() {
+      if (!options.awaitResponse) return false;
+      if (state === 'sending') {
+        acked = true;
+        return true;
+      }
+      if (state !== 'waiting') return false;
+      clearTimer();
+      callbacks.onPointAcked?.(points[index], index);
+      advance();
+      return true;
+    },
+
+    getState: () => state,
+    getIndex: () => index
+  };
+};
@@ -0,0 +1,301 @@
+import { ChartDataPoint, DeviceSettings, LinkStats, LogRecord, SerialTransport, SweepStats } from '../types';
+import { uint8ArrayToHex } from '../utils/hexUtils';
+import { applyChecksum } from '../utils/checksum';
+import { buildSweepFrame } from '../utils/frameBuilder';
+import { FRAME_REJECT_LABELS } from '../utils/frameParser';
+import { rawToX } from '../utils/frequencyMapping';
+import { SweepSchedule, passOfIndex } from '../utils/sweepPlan';
+import { createRxParser } from '../utils/rxParser';
+import { createLinkMeter, describeLinkStats } from '../utils/linkStats';
+import { ModbusRequest, ModbusResponse, buildModbusRequest, parseModbusResponse, describeModbusRequest, describeModbusResponse } from '../utils/modbus';
+import { SweepOutcome, createSweepEngine } from './sweepEngine';
+
+export interface SweepRunOptions {
+  settings: DeviceSettings;
+  transport: SerialTransport; // Already open; left open when the run ends
+  schedule: SweepSchedule;
+  startIndex?: number;
+  stopIndex?: number;         // Exclusive
+  onRecord?: (record: LogRecord) => void; // Every TX/RX/info/error/data record, as the app logs them
+  onPoint?: (point: ChartDataPoint, index: number) => void;
+}
+
+export interface SweepRunResult {
+  outcome: SweepOutcome;
+  error?: string;
+  startedAt: Date;
+  durationMs: number;
+  data: ChartDataPoint[];
+  stats: SweepStats;
+  link: LinkStats;
+}
+
+export interface SweepRunner {
+  run(): Promise<SweepRunResult>; // Resolves once the sweep completes, aborts or is stopped
+  stop(): void;
+}
+
+const hex16 = (raw: number) => `0x${raw.toString(16).toUpperCase().padStart(4, '0')}`;
+
+/**
+ * Runs a sweep over a transport without any UI: the same engine, frame
+ * builder and RX parser the app uses, so a profile measures the same way
+ * in the browser and from a script.
+ */
+export const createSweepRunner = (options: SweepRunOptions): SweepRunner => {
+  const { settings, transport, schedule } = options;
+  const modbus = settings.modbus.enabled ? settings.modbus.sweep : null;
+  const parser = createRxParser(settings);
+  const meter = createLinkMeter();
+  const data: ChartDataPoint[] = [];
+  const stats: SweepStats = { tx: 0, rx: 0, invalid: 0 };
+  let pending: { raw: number; pass: number } | null = null; // Point awaiting its response
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  let readError: string | null = null;
+
+  // Modbus: one outstanding request, answered from the RX buffer
+  let modbusBuffer = new Uint8Array(0);
+  let modbusPending: { request: ModbusRequest; resolve: (r: ModbusResponse | null) => void; timer: ReturnType<typeof setTimeout> } | null = null;
+
+  const emit = (record: Omit<LogRecord, 'time'>) => options.onRecord?.({ time: Date.now(), ...record });
+
+  const sweepPoint = (raw: number, pass: number) => ({ raw, x: rawToX(settings.freqMapping, raw), unit: settings.freqMapping.unit, pass });
+
+  const write = async (bytes: Uint8Array, raw: boolean, point?: { raw: number; pass: number }) => {
+    const frame = raw ? bytes : applyChecksum(bytes, settings.txChecksum);
+    meter.noteTx(frame.length); // Before the write: a fast reply can arrive before it resolves
+    await transport.write(frame).catch(e => {
+      meter.cancelTx();
+      throw e;
+    });
+    stats.tx++;
+    emit({ direction: 'tx', bytes: uint8ArrayToHex(frame), ...(point ? { sweep: sweepPoint(point.raw, point.pass) } : {}) });
+  };
+
+  const recordPoint = (value: number) => {
+    if (!pending) return;
+    const { raw, pass } = pending;
+    pending = null;
+    const point: ChartDataPoint = { x: Number(rawToX(settings.freqMapping, raw).toFixed(4)), y: value, pass };
+    data.push(point);
+    emit({ direction: 'data', value, sweep: sweepPoint(raw, pass) });
+    options.onPoint?.(point, data.length - 1);
+  };
+
+  // RTU allows a single outstanding request, so a new one supersedes the old;
+  // `deadline` (epoch ms) is shared by the write and the read-back of a point
+  const modbusTransact = (request: ModbusRequest, deadline: number, point?: { raw: number; pass: number }): Promise<ModbusResponse | null> => {
+    if (modbusPending) {
+      clearTimeout(modbusPending.timer);
+      modbusPending.resolve(null);
+    }
+
+    return new Promise(resolve => {
+      const entry = {
+        request,
+        resolve,
+        timer: setTimeout(() => {
+          if (modbusPending !== entry) return;
+          modbusPending = null;
+          emit({ direction: 'error', text: `MODBUS timeout: ${describeModbusRequest(request)}` });
+          resolve(null);
+        }, Math.max(0, deadline - Date.now()))
+      };
+      modbusPending = entry;
+      modbusBuffer = new Uint8Array(0);
+      write(buildModbusRequest(request), true, point).catch(() => {
+        if (modbusPending !== entry) return;
+        clearTimeout(entry.timer);
+        modbusPending = null;
+        resolve(null);
+      });
+    });
+  };
+
+  const handleModbusChunk = (chunk: Uint8Array) => {
+    const pending = modbusPending;
+    if (!pending || !modbus) return; // Nothing asked for; drop stray bytes
+    const merged = new Uint8Array(modbusBuffer.length + chunk.length);
+    merged.set(modbusBuffer);
+    merged.set(chunk, modbusBuffer.length);
+    modbusBuffer = merged;
+
+    while (modbusBuffer.length > 0) {
+      const result = parseModbusResponse(modbusBuffer, pending.request);
+      if (result.status === 'incomplete') {
+        modbusBuffer = modbusBuffer.slice(result.offset);
+        return;
+      }
+      if (result.status === 'crc-error') {
+        stats.invalid++;
+        emit({ direction: 'error', text: 'MODBUS response CRC mismatch' });
+        modbusBuffer = modbusBuffer.slice(result.offset + 1);
+        continue;
+      }
+
+      modbusBuffer = modbusBuffer.slice(result.offset + result.length);
+      const { response } = result;
+      meter.noteResponse();
+      if (response.kind === 'exception') {
+        stats.invalid++;
+        emit({ direction: 'error', text: describeModbusResponse(response) });
+      } else {
+        stats.rx++;
+        emit({ direction: 'info', text: describeModbusResponse(response) });
+      }
+
+      // The read-back register is the sweep value
+      const { request } = pending;
+      if (response.kind === 'registers' && response.registers.length > 0
+        && request.fn === modbus.readFunction && request.address === modbus.readAddress) {
+        recordPoint(response.registers[0]);
+        engine.notifyResponse();
+      }
+
+      clearTimeout(pending.timer);
+      modbusPending = null;
+      pending.resolve(response);
+      return;
+    }
+  };
+
+  const handleChunk = (chunk: Uint8Array) => {
+    meter.noteRxBytes(chunk.length);
+    emit({ direction: 'rx', bytes: uint8ArrayToHex(chunk) });
+    if (modbus) {
+      handleModbusChunk(chunk);
+      return;
+    }
+
+    parser.push(chunk).forEach(event => {
+      if (event.kind === 'rejected') {
+        stats.invalid++;
+        meter.noteRxFrame();
+        emit({ direction: 'error', text: `Frame rejected (${FRAME_REJECT_LABELS[event.reason]}): ${uint8ArrayToHex(event.bytes)}` });
+        return;
+      }
+      stats.rx++;
+      meter.noteResponse();
+      if (!Number.isFinite(event.value)) return; // NaN / Infinity float
+      recordPoint(event.value);
+      if (event.framed) engine.notifyResponse();
+    });
+  };
+
+  const readLoop = async () => {
+    if (!transport.readable) {
+      readError = 'Transport is not readable';
+      engine.stop();
+      return;
+    }
+    reader = transport.readable.getReader();
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) break;
+        if (value) handleChunk(value);
+      }
+    } catch (e: any) {
+      if (engine.getState() !== 'done') {
+        readError = `Read failed: ${e?.message ?? e}`;
+        engine.stop();
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  };
+
+  let resolveRun: (result: SweepRunResult) => void = () => {};
+  const startedAt = new Date();
+
+  const engine = createSweepEngine({
+    points: schedule.points,
+    awaitResponse: settings.strictValidation || !!modbus,
+    intervalMs: settings.autoIntervalMs,
+    responseTimeoutMs: settings.responseTimeoutMs,
+    maxRetries: settings.maxRetries,
+    failurePolicy: settings.failurePolicy,
+    startIndex: options.startIndex,
+    stopIndex: options.stopIndex
+  }, {
+    sendPoint: async (raw, index) => {
+      const pass = passOfIndex(schedule, index);
+      pending = { raw, pass };
+
+      if (modbus) {
+        // Write the counter, then read back the result register, both within
+        // one response timeout; a missing reply just returns and the engine's
+        // timeout drives the retry
+        const { slaveId, writeAddress, readAddress, readFunction } = modbus;
+        const deadline = Date.now() + settings.responseTimeoutMs;
+        const ack = await modbusTransact({ slaveId, fn: 0x06, address: writeAddress, quantity: 1, values: [raw] }, deadline, { raw, pass });
+        if (ack?.kind !== 'write-ack') return;
+        await modbusTransact({ slaveId, fn: readFunction, address: readAddress, quantity: 1, values: [] }, deadline);
+        return;
+      }
+
+      const frame = buildSweepFrame(settings.sweepBaseHex, settings.targetByteIndex, settings.txBigEndian, raw, settings.txFormat);
+      await write(frame, false, { raw, pass });
+    },
+    onRetry: (raw, _index, attempt) => {
+      emit({ direction: 'info', text: `Timeout, retry ${attempt}/${settings.maxRetries} for ${hex16(raw)}` });
+    },
+    onPointSkipped: (raw, index) => {
+      const pass = passOfIndex(schedule, index);
+      pending = null;
+      const point: ChartDataPoint = { x: Number(rawToX(settings.freqMapping, raw).toFixed(4)), y: null, pass };
+      data.push(point);
+      emit({ direction: 'error', text: `Point ${hex16(raw)} skipped: no valid response after ${settings.maxRetries + 1} attempt(s)` });
+      emit({ direction: 'data', value: null, sweep: sweepPoint(raw, pass) });
+      options.onPoint?.(point, data.length - 1);
+    },
+    onFinish: (engineOutcome, detail) => {
+      if (modbusPending) {
+        clearTimeout(modbusPending.timer);
+        modbusPending.resolve(null);
+        modbusPending = null;
+      }
+      reader?.cancel().catch(() => {});
+
+      const outcome: SweepOutcome = readError ? 'aborted' : engineOutcome;
+      const error = readError ?? detail.error;
+      if (outcome === 'complete') {
+        emit({ direction: 'info', text: 'Sweep Complete.' });
+      } else if (outcome === 'aborted') {
+        const at = detail.raw !== null ? ` at ${hex16(detail.raw)}` : '';
+        emit({ direction: 'error', text: `Sweep aborted${at}: ${error ?? 'unknown error'}` });
+      } else {
+        emit({ direction: 'info', text: 'Sweep stopped.' });
+      }
+      const link = meter.stats(0);
+      emit({ direction: 'info', text: describeLinkStats(link), link });
+
+      resolveRun({
+        outcome,
+        ...(error ? { error } : {}),
+        startedAt,
+        durationMs: Date.now() - startedAt.getTime(),
+        data,
+        stats: { ...stats },
+        link
+      });
+    }
+  });
+
+  return {
+    run() {
+      return new Promise(resolve => {
+        resolveRun = resolve;
+        const first = options.startIndex ?? 0;
+        const stop = Math.min(options.stopIndex ?? schedule.points.length, schedule.points.length);
+        emit({ direction: 'info', text: `Starting Sweep: ${stop - first} points on ${transport.getInfo().label}` });
+        void readLoop();
+        engine.start();
+      });
+    },
+
+    stop() {
+      engine.stop();
+    }
+  };
+};
@@ -0,0 +1,83 @@
+import { SerialConfig, SerialTransport, TransportInfo } from '../types';
+
+// Web Serial API Type Definitions
+export interface WebSerialPort {
+  readable: ReadableStream<Uint8Array> | null;
+  writable: WritableStream<Uint8Array> | null;
+  open(options: {
+    baudRate: number;
+    dataBits?: number;
+    stopBits?: number;
+    parity?: 'none' | 'even' | 'odd';
+  }): Promise<void>;
+  close(): Promise<void>;
+  getInfo(): { usbVendorId?: number; usbProductId?: number };
+}
+
+declare global {
+  interface Navigator {
+    serial: {
+      requestPort(options?: any): Promise<WebSerialPort>;
+      getPorts(): Promise<WebSerialPort[]>;
+      addEventListener(type: string, listener: (e: any) => void): void;
+      removeEventListener(type: string, listener: (e: any) => void): void;
+    };
+  }
+}
+
+export const isWebSerialSupported = (): boolean => 'serial' in navigator;
+
+export const describeWebSerialPort = (port: WebSerialPort, index: number): string => {
+  const info = port.getInfo();
+  return info.usbVendorId
+    ? `Port ${index + 1} (ID:${info.usbVendorId.toString(16).toUpperCase()})`
+    : `Port ${index + 1}`;
+};
+
+// Ports carry no serial number, so a returning device is recognised by VID/PID
+export const isSameDevice = (port: WebSerialPort, info: { usbVendorId?: number; usbProductId?: number }): boolean => {
+  const { usbVendorId, usbProductId } = port.getInfo();
+  return usbVendorId !== undefined && usbVendorId === info.usbVendorId && usbProductId === info.usbProductId;
+};
+
+export const createWebSerialTransport = (port: WebSerialPort, label: string): SerialTransport => {
+  let writer: WritableStreamDefaultWriter<Uint8Array> | null = null;
+
+  return {
+    kind: 'webserial',
+
+    get readable() {
+      return port.readable;
+    },
+
+    async open(config: SerialConfig) {
+      await port.open({
+        baudRate: config.baudRate,
+        dataBits: config.dataBits,
+        stopBits: config.stopBits,
+        parity: config.parity
+      });
+      if (port.writable) {
+        writer = port.writable.getWriter();
+      }
+    },
+
+    async write(data: Uint8Array) {
+      if (!writer) throw new Error('Port not open');
+      await writer.write(data);
+    },
+
+    async close() {
+      if (writer) {
+        writer.releaseLock();
+        writer = null;
+      }
+      await port.close();
+    },
+
+    getInfo(): TransportInfo {
+      const info = port.getInfo();
+      return { label, usbVendorId: info.usbVendorId, usbProductId: info.usbProductId };
+    }
+  };
+};
@@ -8,18 +8,339 @@ export interface SerialConfig {
 export interface LogEntry {
   id: string;
   timestamp: string;
-  type: 'tx' | 'rx' | 'info' | 'error';
+  type: 'tx' | 'rx' | 'info' | 'error' | 'frame'; // 'frame' = parsed RX frame, terminal only
   data: string; // Hex string
+  port?: string; // Extra connection tag (e.g. "P2"); absent = main port
+  frame?: FrameDissection;
+}
+
+export type TerminalDisplayMode = 'hex' | 'ascii' | 'both';
+
+// Session history kept for log export; 'data' marks a decoded sweep point
+export type LogDirection = Exclude<LogEntry['type'], 'frame'> | 'data';
+
+export interface LogRecord {
+  time: number;            // Epoch ms
+  direction: LogDirection;
+  bytes?: string;          // Hex, TX/RX only
+  text?: string;           // Info/error message
+  port?: string;           // Extra connection tag; absent = main port
+  value?: number | null;   // Decoded RX value; null = point skipped
+  link?: LinkStats;        // Timing summary appended on export
+  sweep?: {                // Sweep point the record belongs to
+    raw: number;
+    x: number;             // In `unit`
+    unit: string;
+    pass: number;
+  };
+}
+
+// Request-to-response timing, in ms
+export interface LatencySummary {
+  count: number;
+  min: number;
+  avg: number;
+  max: number;
+  p95: number;
+}
+
+export interface TrafficRate {
+  bytes: number;        // Totals since the meter was reset
+  frames: number;
+  bytesPerSec: number;
+  framesPerSec: number;
+}
+
+export interface LinkStats {
+  since: number;        // Epoch ms of the last reset
+  latency: LatencySummary | null; // null = no matched pairs yet
+  tx: TrafficRate;
+  rx: TrafficRate;
+}
+
+export type PayloadMode = 'hex' | 'text';
+
+export type LineEnding = 'none' | 'cr' | 'lf' | 'crlf';
+
+export interface SavedCommand {
+  id: string;
+  name: string;
+  mode: PayloadMode;
+  payload: string;          // Hex bytes, or text with escapes (\r, \n, \xNN)
+  lineEnding?: LineEnding;  // Text mode only
+  description?: string;
+  group?: string;
+  shortcut?: string;        // e.g. "Ctrl+1", "F5"
 }
 
 export interface ChartDataPoint {
-  x: number; // Frequency (kHz)
-  y: number; // Received Value
+  x: number; // Frequency, in the unit of the frequency mapping (kHz by default)
+  y: number | null; // Received Value, null = point skipped (gap)
+  pass?: number; // 0-based sweep pass for hysteresis / repeated sweeps
+}
+
+export type SweepFailurePolicy = 'skip' | 'abort';
+
+export interface SweepStats {
+  tx: number;
+  rx: number;
+  invalid: number;
+}
+
+// Settings a sweep was run with, kept alongside its data
+export interface SweepTraceConfig {
+  serial: SerialConfig;
+  sweepBaseHex: string;
+  rangeStartHex: string;
+  rangeEndHex: string;
+  incrementStep: number;
+  targetByteIndex: number;
+  txBigEndian: boolean;
+  rxByteIndex: number;
+  rxBigEndian: boolean;
+  txFormat?: FieldFormat; // Absent = unsigned 16-bit
+  rxFormat?: FieldFormat;
+  strictValidation: boolean;
+  rxLabel: string;
+  modbus?: ModbusSweepConfig; // Set when the sweep ran in Modbus mode
+  plan?: SweepPlanConfig;     // Absent = linear, ascending, single pass
+  mapping?: FrequencyMapping; // Absent = 32 MHz / 16 bit in kHz
+}
+
+// Raw counter to physical X: x = offset + raw * refClock / 2^resolutionBits
+export interface FrequencyMapping {
+  refClock: number;       // In `unit`
+  resolutionBits: number; // Phase accumulator width
+  offset: number;         // In `unit`
+  unit: string;           // Axis label, e.g. "kHz"
+}
+
+export type SweepSpacing = 'linear' | 'log' | 'list';
+export type SweepDirection = 'up' | 'down' | 'updown';
+
+export interface SweepPlanConfig {
+  spacing: SweepSpacing;
+  direction: SweepDirection;
+  repeats: number;     // Whole-range repetitions
+  logPoints: number;   // Point count for log spacing
+  pointList: string;   // List spacing: raw values or X values, one per line/cell
+  listUnit: 'raw' | 'unit'; // 'unit' = the frequency mapping's unit
+}
+
+export interface SweepTrace {
+  id: string;
+  name: string;
+  color: string;
+  visible: boolean;
+  createdAt: string; // ISO timestamp of sweep start
+  partial: boolean;  // Sweep was stopped or aborted before the last point
+  durationMs: number;
+  stats: SweepStats;
+  config: SweepTraceConfig | null; // null for traces imported without metadata
+  source?: string;   // File name for imported traces
+  data: ChartDataPoint[];
 }
 
 export enum ConnectionStatus {
   DISCONNECTED = 'disconnected',
   CONNECTING = 'connecting',
   CONNECTED = 'connected',
-  ERROR = 'error'
-}
\ No newline at end of file
+  ERROR = 'error',
+  INTERRUPTED = 'interrupted' // Open port vanished; waiting for the device to return
+}
+
+export type TransportKind = 'webserial' | 'mock' | 'node'; // 'node' = a device path opened by the headless runner
+
+export interface TransportInfo {
+  label: string;
+  usbVendorId?: number;
+  usbProductId?: number;
+}
+
+// Backend-agnostic byte pipe. The Web Serial port is one implementation,
+// the in-browser mock device another.
+export interface SerialTransport {
+  readonly kind: TransportKind;
+  readonly readable: ReadableStream<Uint8Array> | null;
+  open(config: SerialConfig): Promise<void>;
+  close(): Promise<void>;
+  write(data: Uint8Array): Promise<void>;
+  getInfo(): TransportInfo;
+}
+
+export const MAIN_PORT_ID = 'main'; // Port id of the header connection
+
+// A connection opened next to the main port, e.g. a detector read alongside the generator
+export interface ExtraPort {
+  id: string;        // Short tag ("P2"), shown in the terminal and logs
+  label: string;     // Device description
+  config: SerialConfig;
+  transport: SerialTransport;
+}
+
+export interface PortTraffic {
+  txBytes: number;
+  rxBytes: number;
+}
+
+export type MockScriptName = 'resonator' | 'modbus' | 'echo' | 'silent';
+
+export interface MockDeviceConfig {
+  script: MockScriptName;
+  latencyMs: number;
+  dropRate: number; // 0..1, probability a response is swallowed
+}
+
+
+export type ChecksumAlgorithm = 'none' | 'sum8' | 'xor8' | 'crc8' | 'crc16-modbus' | 'crc16-ccitt' | 'crc32';
+
+export interface ChecksumConfig {
+  algorithm: ChecksumAlgorithm;
+  rangeStart: number;       // First covered byte, from frame start
+  rangeEnd: number | null;  // Exclusive end from frame start; null = up to the checksum field
+  tailOffset: number;       // Bytes between the checksum field and the frame end (e.g. a footer)
+  bigEndian: boolean;       // Byte order of multi-byte checksums
+}
+
+// Binary layout of the TX sweep counter and the RX value field
+export type FieldEncoding = 'unsigned' | 'signed' | 'float32';
+
+export interface FieldFormat {
+  width: 1 | 2 | 3 | 4; // Bytes; float32 is always 4
+  encoding: FieldEncoding;
+}
+
+export type FrameRejectReason = 'footer' | 'checksum' | 'range' | 'length' | 'truncated';
+
+export type FrameFieldKind = 'header' | 'length' | 'payload' | 'value' | 'checksum' | 'footer';
+
+// A received frame split into the fields of the frame definition
+export interface FrameDissection {
+  fields: { kind: FrameFieldKind; start: number; end: number }[]; // Byte ranges, in order, end exclusive
+  value?: number;             // Decoded value field
+  reject?: FrameRejectReason; // Absent = accepted
+}
+
+// Describes how a valid response packet is laid out. Used by Strict Validation.
+export interface FrameDefinition {
+  header: string;            // Hex bytes every frame starts with
+  footer: string;            // Hex bytes every frame ends with (may be empty)
+  footerOffset: number | null; // Footer position from frame start; null = last bytes of the frame
+  sizeMode: 'fixed' | 'lengthField';
+  frameLength: number;       // Total length in fixed mode
+  lengthFieldOffset: number;
+  lengthFieldWidth: 1 | 2;
+  lengthFieldBigEndian: boolean;
+  lengthAdjust: number;      // Total length = length field value + adjust
+  valueOffset: number;
+  valueWidth: FieldFormat['width'];
+  valueEncoding?: FieldEncoding; // Absent = unsigned
+  minValue: number;
+  maxValue: number;
+  checksum: ChecksumConfig;
+}
+
+
+export type SessionEvent =
+  | { t: number; kind: 'rx'; data: string }
+  | { t: number; kind: 'tx'; data: string; sweepRaw?: number; sweepPass?: number }
+  | { t: number; kind: 'sweep-start' }
+  | { t: number; kind: 'sweep-skip'; sweepRaw: number; sweepPass?: number }
+  | { t: number; kind: 'sweep-end' }
+  | { t: number; kind: 'seq-start'; sequence: Sequence }
+  | { t: number; kind: 'seq-log'; level: 'info' | 'error'; step: number; message: string }
+  | { t: number; kind: 'seq-end'; name: string; result: SequenceResult };
+
+// Receive-side settings needed to parse a recording the same way again
+export interface SessionSettings {
+  serial: SerialConfig;
+  frameDef: FrameDefinition;
+  enableHeaderCheck: boolean;
+  rxByteIndex: number;
+  rxIsBigEndian: boolean;
+  rxFormat?: FieldFormat; // Manual index mode; absent = unsigned 16-bit
+  modbus?: { enabled: boolean; sweep: ModbusSweepConfig };
+}
+
+export interface SessionRecording {
+  format: 'hexserial-session';
+  version: 1;
+  startedAt: string;  // ISO timestamp
+  settings: SessionSettings;
+  events: SessionEvent[]; // t = ms since recording start, sub-millisecond resolution
+}
+
+// Sweep over Modbus: write the counter into one register, chart another
+export interface ModbusSweepConfig {
+  slaveId: number;
+  writeAddress: number;
+  readAddress: number;
+  readFunction: 0x03 | 0x04;
+}
+// Test sequences: a flat step list; loops and branches jump to step labels
+export type SequenceFailAction = 'abort' | 'continue' | 'goto';
+export type SequenceCompareOp = '==' | '!=' | '<' | '<=' | '>' | '>=';
+
+interface SequenceStepBase {
+  id: string;
+  label?: string;
+}
+
+export type SequenceStep = SequenceStepBase & (
+  | { kind: 'send'; mode: PayloadMode; payload: string; lineEnding?: LineEnding } // Text payloads expand ${var}
+  | { kind: 'wait'; ms: number }
+  | { kind: 'expect'; pattern: string; mask: string; timeoutMs: number; onFail: SequenceFailAction; failTarget?: string }
+  | { kind: 'capture'; variable: string; offset: number; width: 1 | 2 | 4; bigEndian: boolean } // From the last expected response
+  | { kind: 'loop'; target: string; count: number } // Jumps back until the body ran `count` times
+  | { kind: 'branch'; when: 'failed' | 'compare'; variable: string; op: SequenceCompareOp; value: number; target: string }
+);
+
+export type SequenceStepKind = SequenceStep['kind'];
+
+export interface Sequence {
+  name: string;
+  steps: SequenceStep[];
+}
+
+export interface SequenceResult {
+  outcome: 'passed' | 'failed' | 'aborted' | 'stopped';
+  failures: number;
+  stepsExecuted: number;
+  durationMs: number;
+  variables: Record<string, number>;
+  error?: string;
+}
+
+// Full device setup: persisted between reloads and shared as named profiles
+export interface DeviceSettings {
+  serial: SerialConfig;
+  mock: MockDeviceConfig;
+  sweepBaseHex: string;
+  txChecksum: ChecksumConfig;
+  rangeStartHex: string;
+  rangeEndHex: string;
+  incrementStep: number;
+  sweepPlan: SweepPlanConfig;
+  freqMapping: FrequencyMapping;
+  targetByteIndex: number;
+  txBigEndian: boolean;
+  txFormat: FieldFormat;
+  rxByteIndex: number;
+  rxBigEndian: boolean;
+  rxFormat: FieldFormat;
+  strictValidation: boolean;
+  frameDef: FrameDefinition;
+  autoIntervalMs: number;
+  responseTimeoutMs: number;
+  maxRetries: number;
+  failurePolicy: SweepFailurePolicy;
+  modbus: { enabled: boolean; sweep: ModbusSweepConfig };
+  terminalMode: TerminalDisplayMode;
+  rxDelimiter: string;
+}
+
+export interface DeviceProfile {
+  id: string;
+  name: string;
+  settings: DeviceSettings;
+}
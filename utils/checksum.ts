@@ -0,0 +1,140 @@
+import { ChecksumAlgorithm, ChecksumConfig } from '../types';
+
+export const CHECKSUM_ALGORITHMS: Record<ChecksumAlgorithm, { label: string; size: number; bigEndian: boolean }> = {
+  'none': { label: 'None', size: 0, bigEndian: true },
+  'sum8': { label: 'SUM8', size: 1, bigEndian: true },
+  'xor8': { label: 'XOR8', size: 1, bigEndian: true },
+  'crc8': { label: 'CRC-8', size: 1, bigEndian: true },
+  'crc16-modbus': { label: 'CRC16 Modbus', size: 2, bigEndian: false },
+  'crc16-ccitt': { label: 'CRC16 CCITT', size: 2, bigEndian: true },
+  'crc32': { label: 'CRC-32', size: 4, bigEndian: false }
+};
+
+export const NO_CHECKSUM: ChecksumConfig = {
+  algorithm: 'none',
+  rangeStart: 0,
+  rangeEnd: null,
+  tailOffset: 0,
+  bigEndian: true
+};
+
+export const checksumSize = (config: ChecksumConfig): number => CHECKSUM_ALGORITHMS[config.algorithm].size;
+
+export const sum8 = (data: ArrayLike<number>): number => {
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) sum = (sum + data[i]) & 0xFF;
+  return sum;
+};
+
+export const xor8 = (data: ArrayLike<number>): number => {
+  let x = 0;
+  for (let i = 0; i < data.length; i++) x ^= data[i];
+  return x;
+};
+
+// CRC-8/SMBUS: poly 0x07, init 0x00
+export const crc8 = (data: ArrayLike<number>): number => {
+  let crc = 0;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i];
+    for (let b = 0; b < 8; b++) {
+      crc = crc & 0x80 ? ((crc << 1) ^ 0x07) & 0xFF : (crc << 1) & 0xFF;
+    }
+  }
+  return crc;
+};
+
+// CRC-16/MODBUS: reflected poly 0xA001, init 0xFFFF
+export const crc16Modbus = (data: ArrayLike<number>): number => {
+  let crc = 0xFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i];
+    for (let b = 0; b < 8; b++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xA001 : crc >>> 1;
+    }
+  }
+  return crc;
+};
+
+// CRC-16/CCITT-FALSE: poly 0x1021, init 0xFFFF
+export const crc16Ccitt = (data: ArrayLike<number>): number => {
+  let crc = 0xFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i] << 8;
+    for (let b = 0; b < 8; b++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xFFFF : (crc << 1) & 0xFFFF;
+    }
+  }
+  return crc;
+};
+
+// CRC-32 (IEEE 802.3): reflected poly 0xEDB88320
+export const crc32 = (data: ArrayLike<number>): number => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < data.length; i++) {
+    crc ^= data[i];
+    for (let b = 0; b < 8; b++) {
+      crc = crc & 1 ? (crc >>> 1) ^ 0xEDB88320 : crc >>> 1;
+    }
+  }
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+export const computeChecksum = (algorithm: ChecksumAlgorithm, data: ArrayLike<number>): number => {
+  switch (algorithm) {
+    case 'sum8': return sum8(data);
+    case 'xor8': return xor8(data);
+    case 'crc8': return crc8(data);
+    case 'crc16-modbus': return crc16Modbus(data);
+    case 'crc16-ccitt': return crc16Ccitt(data);
+    case 'crc32': return crc32(data);
+    default: return 0;
+  }
+};
+
+export const checksumToBytes = (value: number, size: number, bigEndian: boolean): number[] => {
+  const bytes: number[] = [];
+  for (let i = size - 1; i >= 0; i--) {
+    bytes.push(Math.floor(value / 2 ** (8 * i)) & 0xFF);
+  }
+  return bigEndian ? bytes : bytes.reverse();
+};
+
+const coveredBytes = (frame: Uint8Array, config: ChecksumConfig, fieldAt: number): Uint8Array => {
+  const end = config.rangeEnd ?? fieldAt;
+  return frame.slice(Math.max(0, config.rangeStart), Math.min(end, fieldAt));
+};
+
+/**
+ * Inserts the checksum `tailOffset` bytes before the frame end (appends when 0).
+ * Returns the frame unchanged when no algorithm is selected.
+ */
+export const applyChecksum = (frame: Uint8Array, config: ChecksumConfig): Uint8Array => {
+  const size = checksumSize(config);
+  if (size === 0) return frame;
+
+  const insertAt = Math.max(0, frame.length - config.tailOffset);
+  const value = computeChecksum(config.algorithm, coveredBytes(frame, config, insertAt));
+  const out = new Uint8Array(frame.length + size);
+  out.set(frame.slice(0, insertAt));
+  out.set(checksumToBytes(value, size, config.bigEndian), insertAt);
+  out.set(frame.slice(insertAt), insertAt + size);
+  return out;
+};
+
+// Position of the checksum field inside a received frame, or -1 when it does not fit
+export const checksumFieldOffset = (frameLength: number, config: ChecksumConfig): number => {
+  const size = checksumSize(config);
+  const at = frameLength - config.tailOffset - size;
+  return at < 0 ? -1 : at;
+};
+
+export const verifyChecksum = (frame: Uint8Array, config: ChecksumConfig): boolean => {
+  const size = checksumSize(config);
+  if (size === 0) return true;
+
+  const fieldAt = checksumFieldOffset(frame.length, config);
+  if (fieldAt < 0) return false;
+  const expected = checksumToBytes(computeChecksum(config.algorithm, coveredBytes(frame, config, fieldAt)), size, config.bigEndian);
+  return expected.every((b, i) => frame[fieldAt + i] === b);
+};
@@ -0,0 +1,111 @@
+import { SavedCommand, LineEnding } from '../types';
+import { hexToUint8Array, uint8ArrayToHex } from './hexUtils';
+import { LINE_ENDINGS, encodeText } from './textUtils';
+
+export const COMMAND_LIBRARY_STORAGE_KEY = 'hexserial.commandLibrary';
+
+export interface CommandLibraryFile {
+  format: 'hexserial-commands';
+  version: 1;
+  commands: SavedCommand[];
+}
+
+export const DEFAULT_COMMANDS: SavedCommand[] = [
+  { id: 'default-dds', name: 'DDS Default', mode: 'hex', payload: '05 43 46 0D 46 04 00 0D', group: 'DDS' }
+];
+
+// Bytes a command puts on the wire, as hex (before any TX checksum)
+export const commandToHex = (cmd: SavedCommand): string =>
+  cmd.mode === 'text'
+    ? uint8ArrayToHex(encodeText(cmd.payload, cmd.lineEnding ?? 'none'))
+    : uint8ArrayToHex(hexToUint8Array(cmd.payload));
+
+const isString = (v: unknown): v is string => typeof v === 'string';
+
+const validateCommand = (raw: any, index: number): SavedCommand => {
+  if (!raw || typeof raw !== 'object') throw new Error(`Command ${index + 1} is not an object`);
+  if (!isString(raw.name) || !raw.name.trim()) throw new Error(`Command ${index + 1} has no name`);
+  if (!isString(raw.payload)) throw new Error(`Command "${raw.name}" has no payload`);
+
+  const mode = raw.mode === 'text' ? 'text' : 'hex';
+  const cmd: SavedCommand = {
+    id: isString(raw.id) && raw.id ? raw.id : crypto.randomUUID(),
+    name: raw.name.trim(),
+    mode,
+    payload: raw.payload
+  };
+  if (mode === 'text' && isString(raw.lineEnding) && raw.lineEnding in LINE_ENDINGS) {
+    cmd.lineEnding = raw.lineEnding as LineEnding;
+  }
+  if (isString(raw.description) && raw.description) cmd.description = raw.description;
+  if (isString(raw.group) && raw.group.trim()) cmd.group = raw.group.trim();
+  if (isString(raw.shortcut) && raw.shortcut) cmd.shortcut = raw.shortcut;
+
+  try {
+    commandToHex(cmd);
+  } catch {
+    throw new Error(`Command "${cmd.name}" has an invalid hex payload`);
+  }
+  return cmd;
+};
+
+export const serializeCommandLibrary = (commands: SavedCommand[]): string => {
+  const file: CommandLibraryFile = { format: 'hexserial-commands', version: 1, commands };
+  return JSON.stringify(file, null, 2);
+};
+
+// Accepts a library file or a bare array of commands
+export const parseCommandLibrary = (text: string): SavedCommand[] => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  const list = Array.isArray(data) ? data : data?.format === 'hexserial-commands' ? data.commands : null;
+  if (!Array.isArray(list)) throw new Error('Not a command library');
+  return list.map(validateCommand);
+};
+
+// Imported commands replace ones with the same id, the rest are appended
+export const mergeCommands = (existing: SavedCommand[], incoming: SavedCommand[]): SavedCommand[] => {
+  const byId = new Map(incoming.map(c => [c.id, c]));
+  const merged = existing.map(c => byId.get(c.id) ?? c);
+  const known = new Set(existing.map(c => c.id));
+  return [...merged, ...incoming.filter(c => !known.has(c.id))];
+};
+
+export const loadCommandLibrary = (): SavedCommand[] => {
+  try {
+    const stored = localStorage.getItem(COMMAND_LIBRARY_STORAGE_KEY);
+    return stored ? parseCommandLibrary(stored) : DEFAULT_COMMANDS;
+  } catch {
+    return DEFAULT_COMMANDS;
+  }
+};
+
+export const storeCommandLibrary = (commands: SavedCommand[]) => {
+  try {
+    localStorage.setItem(COMMAND_LIBRARY_STORAGE_KEY, serializeCommandLibrary(commands));
+  } catch {
+    // Storage full or disabled; the library still lives for this session
+  }
+};
+
+const MODIFIER_KEYS = new Set(['Control', 'Alt', 'Shift', 'Meta']);
+
+// Canonical shortcut text for a key event, e.g. "Ctrl+Shift+A"; null for bare modifiers
+export const shortcutFromEvent = (e: { key: string; ctrlKey: boolean; altKey: boolean; shiftKey: boolean; metaKey: boolean }): string | null => {
+  if (MODIFIER_KEYS.has(e.key)) return null;
+  const parts: string[] = [];
+  if (e.ctrlKey) parts.push('Ctrl');
+  if (e.altKey) parts.push('Alt');
+  if (e.shiftKey) parts.push('Shift');
+  if (e.metaKey) parts.push('Meta');
+  parts.push(e.key.length === 1 ? e.key.toUpperCase() : e.key);
+  return parts.join('+');
+};
+
+// Shortcuts without Ctrl/Alt/Meta or a function key would fire while typing
+export const isSafeShortcut = (shortcut: string): boolean =>
+  /(^|\+)(Ctrl|Alt|Meta)\+/.test(shortcut) || /(^|\+)F\d{1,2}$/.test(shortcut);
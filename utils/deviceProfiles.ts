@@ -0,0 +1,213 @@
+import { DeviceProfile, DeviceSettings, FieldEncoding, FieldFormat, FrameDefinition } from '../types';
+import { DEFAULT_FIELD_FORMAT, FIELD_ENCODINGS } from './hexUtils';
+import { CHECKSUM_ALGORITHMS, NO_CHECKSUM } from './checksum';
+import { DEFAULT_FRAME_DEFINITION, validateFrameDefinition } from './frameParser';
+import { DEFAULT_SWEEP_PLAN } from './sweepPlan';
+import { DEFAULT_FREQUENCY_MAPPING, validateFrequencyMapping } from './frequencyMapping';
+
+export const SETTINGS_STORAGE_KEY = 'hexserial.settings';
+export const PROFILES_STORAGE_KEY = 'hexserial.profiles';
+
+export interface ProfileFile {
+  format: 'hexserial-profiles';
+  version: 1;
+  profiles: DeviceProfile[];
+}
+
+// What is restored on reload: the working settings and the profile they came from
+export interface StoredSettings {
+  profileId: string | null;
+  settings: DeviceSettings;
+}
+
+export const DEFAULT_DEVICE_SETTINGS: DeviceSettings = {
+  serial: { baudRate: 115200, dataBits: 8, stopBits: 1, parity: 'none' },
+  mock: { script: 'resonator', latencyMs: 20, dropRate: 0 },
+  sweepBaseHex: '05 43 46 0D 46 04 00 0D',
+  txChecksum: NO_CHECKSUM,
+  rangeStartHex: '0000',
+  rangeEndHex: '00C8', // 200 decimal
+  incrementStep: 3,
+  sweepPlan: DEFAULT_SWEEP_PLAN,
+  freqMapping: DEFAULT_FREQUENCY_MAPPING,
+  targetByteIndex: 3,
+  txBigEndian: true,
+  txFormat: DEFAULT_FIELD_FORMAT,
+  rxByteIndex: 6,
+  rxBigEndian: true,
+  rxFormat: DEFAULT_FIELD_FORMAT,
+  strictValidation: true,
+  frameDef: DEFAULT_FRAME_DEFINITION,
+  autoIntervalMs: 100,
+  responseTimeoutMs: 500,
+  maxRetries: 3,
+  failurePolicy: 'skip',
+  modbus: { enabled: false, sweep: { slaveId: 1, writeAddress: 0, readAddress: 1, readFunction: 0x03 } },
+  terminalMode: 'hex',
+  rxDelimiter: ''
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+
+// Copies the keys `defaults` knows about when the stored value has the same
+// type; nullable numbers (footerOffset, rangeEnd) may switch between the two.
+// Always returns fresh objects, so the result can be patched in place.
+const mergeKnown = <T extends object>(defaults: T, raw: unknown): T => {
+  const src = isObject(raw) ? raw : {};
+  const out = { ...defaults } as Record<string, unknown>;
+  Object.entries(defaults).forEach(([key, d]) => {
+    const v = src[key];
+    if (isObject(d)) out[key] = mergeKnown(d, v);
+    else if (v === undefined) return;
+    else if (typeof v === typeof d && v !== null && d !== null) out[key] = v;
+    else if ((d === null && typeof v === 'number') || (v === null && typeof d === 'number')) out[key] = v;
+  });
+  return out as T;
+};
+
+const oneOf = <T extends string | number>(value: T, allowed: readonly T[], fallback: T): T =>
+  allowed.includes(value) ? value : fallback;
+
+const isCount = (v: number | null) => v === null || (Number.isInteger(v) && v >= 0);
+
+// Offsets and widths the frame editor only lets through as whole, non-negative
+// numbers, then the layout checks the editor runs before applying
+const frameDefinitionError = (def: FrameDefinition): string | null =>
+  [def.frameLength, def.footerOffset, def.lengthFieldOffset, def.valueOffset, def.checksum.rangeStart, def.checksum.rangeEnd, def.checksum.tailOffset].every(isCount)
+    ? validateFrameDefinition(def)
+    : 'Offsets and lengths must be whole, non-negative numbers.';
+
+const validFieldFormat = (f: FieldFormat, fallback: FieldFormat): FieldFormat =>
+  [1, 2, 3, 4].includes(f.width) && f.encoding in FIELD_ENCODINGS && (f.encoding !== 'float32' || f.width === 4) ? f : fallback;
+
+/**
+ * Settings from storage or an imported file, filled up with defaults. Unknown
+ * keys are dropped and enum values checked, so an old or hand-edited file
+ * cannot put the app into a state it does not handle. `onIssue` hears about
+ * parts that were replaced by defaults.
+ */
+export const normalizeDeviceSettings = (raw: unknown, onIssue?: (message: string) => void): DeviceSettings => {
+  const s = mergeKnown(DEFAULT_DEVICE_SETTINGS, raw);
+  const d = DEFAULT_DEVICE_SETTINGS;
+  const algorithms = Object.keys(CHECKSUM_ALGORITHMS) as (keyof typeof CHECKSUM_ALGORITHMS)[];
+  const rawFrame = isObject(raw) && isObject(raw.frameDef) ? raw.frameDef : {};
+
+  s.serial.parity = oneOf(s.serial.parity, ['none', 'even', 'odd'], 'none');
+  s.mock.script = oneOf(s.mock.script, ['resonator', 'modbus', 'echo', 'silent'], d.mock.script);
+  s.txChecksum.algorithm = oneOf(s.txChecksum.algorithm, algorithms, 'none');
+  s.frameDef.checksum.algorithm = oneOf(s.frameDef.checksum.algorithm, algorithms, 'none');
+  s.frameDef.sizeMode = oneOf(s.frameDef.sizeMode, ['fixed', 'lengthField'], d.frameDef.sizeMode);
+  s.frameDef.lengthFieldWidth = oneOf(s.frameDef.lengthFieldWidth, [1, 2], d.frameDef.lengthFieldWidth);
+  // Optional in the type, so not in the defaults mergeKnown walks
+  if (typeof rawFrame.valueEncoding === 'string' && rawFrame.valueEncoding in FIELD_ENCODINGS) {
+    s.frameDef.valueEncoding = rawFrame.valueEncoding as FieldEncoding;
+  }
+  const frameFormat = validFieldFormat(
+    { width: s.frameDef.valueWidth, encoding: s.frameDef.valueEncoding ?? 'unsigned' },
+    { width: d.frameDef.valueWidth, encoding: 'unsigned' }
+  );
+  s.frameDef.valueWidth = frameFormat.width;
+  s.frameDef.valueEncoding = frameFormat.encoding === 'unsigned' ? undefined : frameFormat.encoding;
+  // A frame that does not compile would break RX parsing on every render
+  const frameError = frameDefinitionError(s.frameDef);
+  if (frameError) {
+    onIssue?.(`Frame definition: ${frameError}`);
+    s.frameDef = mergeKnown(d.frameDef, undefined);
+  }
+  s.sweepPlan.spacing = oneOf(s.sweepPlan.spacing, ['linear', 'log', 'list'], 'linear');
+  s.sweepPlan.direction = oneOf(s.sweepPlan.direction, ['up', 'down', 'updown'], 'up');
+  s.sweepPlan.listUnit = oneOf(s.sweepPlan.listUnit, ['raw', 'unit'], 'raw');
+  if (validateFrequencyMapping(s.freqMapping)) s.freqMapping = d.freqMapping;
+  s.txFormat = validFieldFormat(s.txFormat, d.txFormat);
+  s.rxFormat = validFieldFormat(s.rxFormat, d.rxFormat);
+  s.failurePolicy = oneOf(s.failurePolicy, ['skip', 'abort'], 'skip');
+  s.modbus.sweep.readFunction = oneOf(s.modbus.sweep.readFunction, [0x03, 0x04], 0x03);
+  s.terminalMode = oneOf(s.terminalMode, ['hex', 'ascii', 'both'], 'hex');
+  return s;
+};
+
+export const loadStoredSettings = (): StoredSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    if (!stored) return { profileId: null, settings: DEFAULT_DEVICE_SETTINGS };
+    const data = JSON.parse(stored);
+    return {
+      profileId: typeof data?.profileId === 'string' ? data.profileId : null,
+      settings: normalizeDeviceSettings(data?.settings)
+    };
+  } catch {
+    return { profileId: null, settings: DEFAULT_DEVICE_SETTINGS };
+  }
+};
+
+export const storeSettings = (stored: StoredSettings) => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(stored));
+  } catch {
+    // Storage full or disabled; settings still apply for this session
+  }
+};
+
+const validateProfile = (raw: unknown, index: number, onIssue?: (profile: string, message: string) => void): DeviceProfile => {
+  if (!isObject(raw)) throw new Error(`Profile ${index + 1} is not an object`);
+  if (typeof raw.name !== 'string' || !raw.name.trim()) throw new Error(`Profile ${index + 1} has no name`);
+  if (!isObject(raw.settings)) throw new Error(`Profile "${raw.name}" has no settings`);
+  const name = raw.name.trim();
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : crypto.randomUUID(),
+    name,
+    settings: normalizeDeviceSettings(raw.settings, message => onIssue?.(name, message))
+  };
+};
+
+export const serializeProfiles = (profiles: DeviceProfile[]): string => {
+  const file: ProfileFile = { format: 'hexserial-profiles', version: 1, profiles };
+  return JSON.stringify(file, null, 2);
+};
+
+// Accepts a profile file, a bare array of profiles or a single profile
+export const parseProfiles = (text: string, onIssue?: (profile: string, message: string) => void): DeviceProfile[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  const list = Array.isArray(data)
+    ? data
+    : !isObject(data) ? null
+    : data.format === 'hexserial-profiles' ? data.profiles
+    : isObject(data.settings) ? [data]
+    : null;
+  if (!Array.isArray(list)) throw new Error('Not a profile file');
+  return list.map((raw, i) => validateProfile(raw, i, onIssue));
+};
+
+// Imported profiles replace ones with the same id, the rest are appended
+export const mergeProfiles = (existing: DeviceProfile[], incoming: DeviceProfile[]): DeviceProfile[] => {
+  const byId = new Map(incoming.map(p => [p.id, p]));
+  const merged = existing.map(p => byId.get(p.id) ?? p);
+  const known = new Set(existing.map(p => p.id));
+  return [...merged, ...incoming.filter(p => !known.has(p.id))];
+};
+
+export const loadStoredProfiles = (): DeviceProfile[] => {
+  try {
+    const stored = localStorage.getItem(PROFILES_STORAGE_KEY);
+    return stored ? parseProfiles(stored) : [];
+  } catch {
+    return [];
+  }
+};
+
+export const storeProfiles = (profiles: DeviceProfile[]) => {
+  try {
+    localStorage.setItem(PROFILES_STORAGE_KEY, serializeProfiles(profiles));
+  } catch {
+    // Storage full or disabled; profiles still live for this session
+  }
+};
+
+// Key-order independent comparison, for the "modified" marker
+export const sameSettings = (a: DeviceSettings, b: DeviceSettings): boolean =>
+  JSON.stringify(normalizeDeviceSettings(a)) === JSON.stringify(normalizeDeviceSettings(b));
@@ -0,0 +1,45 @@
+export interface SaveFileOptions {
+  suggestedName: string;
+  description: string;
+  mimeType: string;
+  extension: string;
+}
+
+/**
+ * Saves text through the File System Access API when available, otherwise
+ * falls back to a download link. Returns false when the user cancelled.
+ */
+export const saveTextFile = async (content: string, options: SaveFileOptions): Promise<boolean> => {
+  if ('showSaveFilePicker' in window) {
+    try {
+      const handle = await (window as any).showSaveFilePicker({
+        suggestedName: options.suggestedName,
+        types: [{
+          description: options.description,
+          accept: { [options.mimeType]: [options.extension] },
+        }],
+      });
+      const writable = await handle.createWritable();
+      await writable.write(content);
+      await writable.close();
+      return true;
+    } catch (err: any) {
+      if (err.name === 'AbortError') return false;
+      throw err;
+    }
+  }
+
+  // Fallback for browsers without File System API
+  const blob = new Blob([content], { type: options.mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = options.suggestedName;
+  a.click();
+  URL.revokeObjectURL(url);
+  return true;
+};
+
+// Timestamp suitable for file names: 2024-05-01_14-03-22
+export const fileTimestamp = (date: Date = new Date()): string =>
+  date.toISOString().slice(0, 19).replace('T', '_').replace(/:/g, '-');
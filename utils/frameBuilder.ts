@@ -0,0 +1,20 @@
+import { FieldFormat } from '../types';
+import { DEFAULT_FIELD_FORMAT, hexToUint8Array, writeField } from './hexUtils';
+
+// Writes the sweep counter into the base template at targetByteIndex
+export const buildSweepFrame = (
+  baseHex: string,
+  targetByteIndex: number,
+  bigEndian: boolean,
+  value: number,
+  format: FieldFormat = DEFAULT_FIELD_FORMAT
+): Uint8Array => {
+  const baseBytes = hexToUint8Array(baseHex);
+
+  if (targetByteIndex < 0 || targetByteIndex + format.width > baseBytes.length) {
+    throw new Error(`Target Byte Index ${targetByteIndex} out of bounds`);
+  }
+
+  baseBytes.set(writeField(value, format, bigEndian), targetByteIndex);
+  return baseBytes;
+};
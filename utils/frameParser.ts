@@ -0,0 +1,250 @@
+import { FrameDefinition, FrameDissection, FrameFieldKind, FrameRejectReason } from '../types';
+import { describeFieldFormat, hexToUint8Array, readField, readUInt } from './hexUtils';
+import { NO_CHECKSUM, CHECKSUM_ALGORITHMS, checksumFieldOffset, checksumSize, verifyChecksum } from './checksum';
+
+// The original DDS board packet: FF FE FD FC 02 56 [val hi] [val lo] xx xx xx FB FA F9 F8
+export const DEFAULT_FRAME_DEFINITION: FrameDefinition = {
+  header: 'FF FE FD FC 02 56',
+  footer: 'FB FA F9 F8',
+  footerOffset: null,
+  sizeMode: 'fixed',
+  frameLength: 15,
+  lengthFieldOffset: 6,
+  lengthFieldWidth: 1,
+  lengthFieldBigEndian: true,
+  lengthAdjust: 0,
+  valueOffset: 6,
+  valueWidth: 2,
+  minValue: 0,
+  maxValue: 4096,
+  checksum: NO_CHECKSUM
+};
+
+// Upper bound for length-field driven frames, guards against garbage lengths
+export const MAX_FRAME_LENGTH = 1024;
+
+// Rejected frames carry `span`, the bytes they covered, for display; `length` is what to skip
+export type FrameScanResult =
+  | { kind: 'frame'; offset: number; length: number; value: number }
+  | { kind: 'rejected'; offset: number; length: number; span: number; reason: FrameRejectReason; value?: number }
+  | { kind: 'incomplete'; offset: number } // Header found, rest of the frame not yet received
+  | { kind: 'none'; offset: number };      // No header; bytes before offset can be discarded
+
+export interface CompiledFrameDefinition {
+  def: FrameDefinition;
+  header: Uint8Array;
+  footer: Uint8Array;
+}
+
+export const compileFrameDefinition = (def: FrameDefinition): CompiledFrameDefinition => ({
+  def,
+  header: hexToUint8Array(def.header),
+  footer: hexToUint8Array(def.footer)
+});
+
+const matchesAt = (buffer: Uint8Array, offset: number, pattern: Uint8Array): boolean => {
+  if (offset + pattern.length > buffer.length) return false;
+  for (let i = 0; i < pattern.length; i++) {
+    if (buffer[offset + i] !== pattern[i]) return false;
+  }
+  return true;
+};
+
+// Next header after `from` and before `end`, or -1
+const nextHeader = (buffer: Uint8Array, from: number, end: number, header: Uint8Array): number => {
+  if (header.length === 0) return -1;
+  for (let ptr = from; ptr < end; ptr++) {
+    if (matchesAt(buffer, ptr, header)) return ptr;
+  }
+  return -1;
+};
+
+// End of the fields placed from the frame start
+const leadingFieldsEnd = (compiled: CompiledFrameDefinition): number => {
+  const { def, header } = compiled;
+  const lengthFieldEnd = def.sizeMode === 'lengthField' ? def.lengthFieldOffset + def.lengthFieldWidth : 0;
+  return Math.max(header.length, def.valueOffset + def.valueWidth, lengthFieldEnd);
+};
+
+// Smallest frame that can hold header, value field and footer, and a checksum
+// field behind those fields and the bytes it covers
+export const minimumFrameLength = (compiled: CompiledFrameDefinition): number => {
+  const { def, footer } = compiled;
+  const fieldsEnd = leadingFieldsEnd(compiled);
+  const size = checksumSize(def.checksum);
+  const checksumEnd = size > 0 ? Math.max(fieldsEnd, def.checksum.rangeEnd ?? 0) + size + def.checksum.tailOffset : 0;
+  return Math.max(fieldsEnd, footer.length, checksumEnd);
+};
+
+// Why the checksum field cannot sit in a frame of `length` bytes, or null
+const checksumLayoutError = (compiled: CompiledFrameDefinition, length: number): string | null => {
+  const { def, header, footer } = compiled;
+  const { checksum } = def;
+  const size = checksumSize(checksum);
+  if (size === 0) return null;
+  const at = checksumFieldOffset(length, checksum);
+  const overlaps = (start: number, width: number) => width > 0 && start < at + size && at < start + width;
+  if (at < header.length) return 'Checksum does not fit between header and frame end.';
+  if (overlaps(def.footerOffset ?? length - footer.length, footer.length)) return 'Checksum overlaps the footer; its tail offset must skip the footer.';
+  if (overlaps(def.valueOffset, def.valueWidth)) return 'Checksum overlaps the value field.';
+  if (def.sizeMode === 'lengthField' && overlaps(def.lengthFieldOffset, def.lengthFieldWidth)) return 'Checksum overlaps the length field.';
+  if (checksum.rangeEnd !== null && checksum.rangeEnd > at) return 'Checksum range must end before the checksum field.';
+  if (checksum.rangeStart >= (checksum.rangeEnd ?? at)) return 'Checksum range is empty.';
+  return null;
+};
+
+// Why the definition cannot be used, or null; checked by the editor and on settings import
+export const validateFrameDefinition = (def: FrameDefinition): string | null => {
+  let compiled: CompiledFrameDefinition;
+  try {
+    compiled = compileFrameDefinition(def);
+  } catch {
+    return 'Header and footer must be whole hex bytes.';
+  }
+  const minLength = minimumFrameLength(compiled);
+  if (def.minValue > def.maxValue) return 'Min value is greater than max value.';
+  if (def.valueEncoding === 'float32' && def.valueWidth !== 4) return 'Float values are 32 bit wide.';
+  if (def.sizeMode === 'fixed') {
+    if (def.frameLength > MAX_FRAME_LENGTH) return `Frame length must not exceed ${MAX_FRAME_LENGTH} bytes.`;
+    const checksumError = checksumLayoutError(compiled, def.frameLength);
+    if (checksumError) return checksumError;
+    if (def.frameLength < minLength) return `Frame length must be at least ${minLength} bytes.`;
+    if (def.footerOffset !== null && def.footerOffset + compiled.footer.length > def.frameLength) {
+      return 'Footer does not fit inside the frame.';
+    }
+  } else {
+    if (def.lengthFieldOffset < compiled.header.length) return 'Length field must come after the header.';
+    // Frames vary in length; the scan rejects any shorter than this one
+    const checksumError = checksumLayoutError(compiled, minLength);
+    if (checksumError) return checksumError;
+  }
+  return null;
+};
+
+/**
+ * Scans `buffer` from `start` for the next frame matching the definition.
+ * Rejected frames report how many bytes to skip: the whole frame when the
+ * framing matched but the contents are bad (checksum, range), a single byte
+ * when the framing itself is broken so the scan can resynchronise.
+ */
+export const scanFrame = (
+  buffer: Uint8Array,
+  start: number,
+  compiled: CompiledFrameDefinition,
+  valueBigEndian: boolean
+): FrameScanResult => {
+  const { def, header, footer } = compiled;
+
+  for (let ptr = start; ptr + header.length <= buffer.length; ptr++) {
+    if (!matchesAt(buffer, ptr, header)) continue;
+
+    // 1. Determine frame length
+    let length = def.frameLength;
+    if (def.sizeMode === 'lengthField') {
+      if (ptr + def.lengthFieldOffset + def.lengthFieldWidth > buffer.length) {
+        return { kind: 'incomplete', offset: ptr };
+      }
+      length = readUInt(buffer, ptr + def.lengthFieldOffset, def.lengthFieldWidth, def.lengthFieldBigEndian) + def.lengthAdjust;
+      if (length < minimumFrameLength(compiled) || length > MAX_FRAME_LENGTH) {
+        return { kind: 'rejected', offset: ptr, length: 1, span: def.lengthFieldOffset + def.lengthFieldWidth, reason: 'length' };
+      }
+    }
+
+    if (ptr + length > buffer.length) {
+      return { kind: 'incomplete', offset: ptr };
+    }
+
+    // 2. Check Footer. A header inside the frame means it was cut short
+    // and the device started over; resume the scan at that header.
+    const footerAt = def.footerOffset ?? length - footer.length;
+    if (!matchesAt(buffer, ptr + footerAt, footer)) {
+      const restart = nextHeader(buffer, ptr + 1, ptr + length, header);
+      if (restart !== -1) return { kind: 'rejected', offset: ptr, length: restart - ptr, span: restart - ptr, reason: 'truncated' };
+      return { kind: 'rejected', offset: ptr, length: 1, span: length, reason: 'footer' };
+    }
+
+    // 3. Verify Checksum
+    if (def.checksum.algorithm !== 'none' && !verifyChecksum(buffer.subarray(ptr, ptr + length), def.checksum)) {
+      return { kind: 'rejected', offset: ptr, length, span: length, reason: 'checksum' };
+    }
+
+    // 4. Validate Range
+    const format = { width: def.valueWidth, encoding: def.valueEncoding ?? 'unsigned' } as const;
+    const value = readField(buffer, ptr + def.valueOffset, format, valueBigEndian);
+    if (!Number.isFinite(value) || value < def.minValue || value > def.maxValue) {
+      return { kind: 'rejected', offset: ptr, length, span: length, reason: 'range', value };
+    }
+
+    return { kind: 'frame', offset: ptr, length, value };
+  }
+
+  // Keep a possible partial header at the tail
+  return { kind: 'none', offset: Math.min(buffer.length, Math.max(start, buffer.length - header.length + 1)) };
+};
+
+export const FRAME_REJECT_LABELS: Record<FrameRejectReason, string> = {
+  footer: 'footer mismatch',
+  checksum: 'checksum mismatch',
+  range: 'value out of range',
+  length: 'bad length field',
+  truncated: 'truncated'
+};
+
+/**
+ * Splits the bytes of a scanned frame (`span` for rejected ones) into the
+ * fields of the definition. Field positions follow the nominal frame length,
+ * so a truncated frame simply ends early.
+ */
+export const dissectFrame = (
+  frame: Uint8Array,
+  compiled: CompiledFrameDefinition,
+  valueBigEndian: boolean,
+  reject?: FrameRejectReason
+): FrameDissection => {
+  const { def, header, footer } = compiled;
+  const kinds: FrameFieldKind[] = new Array(frame.length).fill('payload');
+  const mark = (kind: FrameFieldKind, start: number, size: number) => {
+    for (let i = Math.max(0, start); i < Math.min(frame.length, start + size); i++) kinds[i] = kind;
+  };
+
+  let length = def.frameLength;
+  if (def.sizeMode === 'lengthField') {
+    const lengthFieldEnd = def.lengthFieldOffset + def.lengthFieldWidth;
+    length = lengthFieldEnd <= frame.length
+      ? readUInt(frame, def.lengthFieldOffset, def.lengthFieldWidth, def.lengthFieldBigEndian) + def.lengthAdjust
+      : frame.length;
+  }
+
+  // Later marks win: fixed framing bytes over the fields they may overlap
+  const valueFits = def.valueOffset + def.valueWidth <= frame.length;
+  mark('value', def.valueOffset, def.valueWidth);
+  if (def.sizeMode === 'lengthField') mark('length', def.lengthFieldOffset, def.lengthFieldWidth);
+  const checksumAt = def.checksum.algorithm !== 'none' ? checksumFieldOffset(length, def.checksum) : -1;
+  if (checksumAt >= 0) mark('checksum', checksumAt, checksumSize(def.checksum));
+  mark('footer', def.footerOffset ?? length - footer.length, footer.length);
+  mark('header', 0, header.length);
+
+  const fields: FrameDissection['fields'] = [];
+  kinds.forEach((kind, i) => {
+    const last = fields[fields.length - 1];
+    if (last && last.kind === kind && last.end === i) last.end = i + 1;
+    else fields.push({ kind, start: i, end: i + 1 });
+  });
+
+  const format = { width: def.valueWidth, encoding: def.valueEncoding ?? 'unsigned' } as const;
+  return {
+    fields,
+    ...(valueFits && reject !== 'length' ? { value: readField(frame, def.valueOffset, format, valueBigEndian) } : {}),
+    ...(reject ? { reject } : {})
+  };
+};
+
+export const describeFrameDefinition = (def: FrameDefinition): string => {
+  const size = def.sizeMode === 'fixed'
+    ? `Len=${def.frameLength}`
+    : `Len=LF@${def.lengthFieldOffset}${def.lengthAdjust ? (def.lengthAdjust > 0 ? '+' : '') + def.lengthAdjust : ''}`;
+  const header = def.header.trim() || '(none)';
+  const footer = def.footer.trim() || '(none)';
+  const checksum = def.checksum.algorithm !== 'none' ? `, ${CHECKSUM_ALGORITHMS[def.checksum.algorithm].label}` : '';
+  return `Req: ${size}, Header=${header}, Footer=${footer}, Val@${def.valueOffset}(${describeFieldFormat({ width: def.valueWidth, encoding: def.valueEncoding ?? 'unsigned' })})=${def.minValue}-${def.maxValue}${checksum}`;
+};
@@ -0,0 +1,109 @@
+import { FrequencyMapping } from '../types';
+
+// The original DDS board: 16-bit accumulator clocked at 32 MHz, plotted in kHz
+export const DEFAULT_FREQUENCY_MAPPING: FrequencyMapping = {
+  refClock: 32000,
+  resolutionBits: 16,
+  offset: 0,
+  unit: 'kHz'
+};
+
+// Frequency units the sweep range can be entered in, as multiples of 1 Hz
+export const FREQUENCY_UNITS: Record<string, number> = {
+  Hz: 1,
+  kHz: 1e3,
+  MHz: 1e6,
+  GHz: 1e9
+};
+
+// X value change for one raw count
+export const rawStep = (mapping: FrequencyMapping): number =>
+  mapping.refClock / Math.pow(2, mapping.resolutionBits);
+
+export const rawToX = (mapping: FrequencyMapping, raw: number): number =>
+  mapping.offset + raw * rawStep(mapping);
+
+// Unrounded; callers pick how to quantize
+export const xToRaw = (mapping: FrequencyMapping, x: number): number =>
+  (x - mapping.offset) / rawStep(mapping);
+
+/**
+ * Converts `value` from one unit to another. Only the frequency units scale;
+ * any other label converts to itself and nothing else (returns NaN).
+ */
+export const convertUnit = (value: number, from: string, to: string): number => {
+  if (from === to) return value;
+  const a = FREQUENCY_UNITS[from];
+  const b = FREQUENCY_UNITS[to];
+  return a !== undefined && b !== undefined ? (value * a) / b : NaN;
+};
+
+// Units a value can be typed in for this mapping
+export const entryUnits = (mapping: FrequencyMapping): string[] =>
+  mapping.unit in FREQUENCY_UNITS ? ['Hz', 'kHz', 'MHz'] : [mapping.unit];
+
+export interface QuantizedValue {
+  raw: number;    // Nearest counter value
+  actual: number; // What that counter really produces, in the entry unit
+  error: number;  // actual - requested, in the entry unit
+}
+
+// Float noise from the unit conversions is not a quantization error
+const snapError = (error: number, value: number) => (Math.abs(error) < 1e-9 * Math.max(1, Math.abs(value)) ? 0 : error);
+
+export const quantizeX = (mapping: FrequencyMapping, value: number, unit: string): QuantizedValue | null => {
+  const x = convertUnit(value, unit, mapping.unit);
+  if (!isFinite(x)) return null;
+  const raw = Math.round(xToRaw(mapping, x));
+  const actual = convertUnit(rawToX(mapping, raw), mapping.unit, unit);
+  return { raw, actual, error: snapError(actual - value, value) };
+};
+
+// A step is a difference, so the offset does not apply; at least one count
+export const quantizeStep = (mapping: FrequencyMapping, value: number, unit: string): QuantizedValue | null => {
+  const x = convertUnit(value, unit, mapping.unit);
+  if (!isFinite(x) || x <= 0) return null;
+  const raw = Math.max(1, Math.round(x / rawStep(mapping)));
+  const actual = convertUnit(raw * rawStep(mapping), mapping.unit, unit);
+  return { raw, actual, error: snapError(actual - value, value) };
+};
+
+export const validateFrequencyMapping = (mapping: FrequencyMapping): string | null => {
+  if (!(mapping.refClock > 0)) return 'Reference clock must be positive';
+  if (!Number.isInteger(mapping.resolutionBits) || mapping.resolutionBits < 1 || mapping.resolutionBits > 48) {
+    return 'Resolution must be 1-48 bits';
+  }
+  if (!isFinite(mapping.offset)) return 'Offset must be a number';
+  if (!mapping.unit.trim()) return 'Unit label is required';
+  return null;
+};
+
+export const describeFrequencyMapping = (mapping: FrequencyMapping): string => {
+  const offset = mapping.offset ? ` ${mapping.offset < 0 ? '-' : '+'} ${Math.abs(mapping.offset)}` : '';
+  return `(Val / 2^${mapping.resolutionBits} * ${mapping.refClock})${offset} ${mapping.unit}`;
+};
+
+// Sweep range as typed; unit 'raw' means the hex codes are edited directly
+export interface RangeEntry {
+  unit: string;
+  start: string;
+  stop: string;
+  step: string;
+}
+
+// Start / stop outside the accumulator range come back null
+export const quantizeRangeEntry = (mapping: FrequencyMapping, entry: RangeEntry) => {
+  const maxRaw = Math.pow(2, mapping.resolutionBits) - 1;
+  const edge = (text: string) => {
+    const q = text.trim() === '' ? null : quantizeX(mapping, Number(text), entry.unit);
+    return q && q.raw >= 0 && q.raw <= maxRaw ? q : null;
+  };
+  return {
+    start: edge(entry.start),
+    stop: edge(entry.stop),
+    step: entry.step.trim() === '' ? null : quantizeStep(mapping, Number(entry.step), entry.unit)
+  };
+};
+
+// Compact number for quantization readouts
+export const formatQuantity = (value: number): string => String(Number(value.toPrecision(4)));
@@ -1,3 +1,5 @@
+import { FieldEncoding, FieldFormat } from '../types';
+
 export const cleanHexString = (input: string): string => {
   return input.replace(/[^0-9A-Fa-f]/g, '').toUpperCase();
 };
@@ -33,4 +35,80 @@ export const decimalToBytes = (value: number): [number, number] => {
   const high = (value >> 8) & 0xFF;
   const low = value & 0xFF;
   return [high, low];
-};
\ No newline at end of file
+};
+
+export const readUInt = (bytes: ArrayLike<number>, offset: number, width: number, bigEndian: boolean): number => {
+  let value = 0;
+  for (let i = 0; i < width; i++) {
+    const b = bytes[bigEndian ? offset + i : offset + width - 1 - i];
+    value = value * 256 + b;
+  }
+  return value;
+};
+
+export const DEFAULT_FIELD_FORMAT: FieldFormat = { width: 2, encoding: 'unsigned' };
+
+export const FIELD_ENCODINGS: Record<FieldEncoding, string> = {
+  unsigned: 'Unsigned',
+  signed: 'Signed',
+  float32: 'Float32 (IEEE 754)'
+};
+
+// Range an integer field can hold; float32 covers everything finite
+export const fieldRange = (format: FieldFormat): { min: number; max: number } => {
+  if (format.encoding === 'float32') return { min: -3.4028234663852886e38, max: 3.4028234663852886e38 };
+  const span = Math.pow(2, format.width * 8);
+  return format.encoding === 'signed' ? { min: -span / 2, max: span / 2 - 1 } : { min: 0, max: span - 1 };
+};
+
+// Short form used in labels and CSV metadata: u16, s24, f32
+export const describeFieldFormat = (format: FieldFormat): string =>
+  format.encoding === 'float32' ? 'f32' : `${format.encoding === 'signed' ? 's' : 'u'}${format.width * 8}`;
+
+export const parseFieldFormat = (text: string): FieldFormat | null => {
+  const match = /^([usf])(8|16|24|32)$/i.exec(text.trim());
+  if (!match) return null;
+  const kind = match[1].toLowerCase();
+  const width = (Number(match[2]) / 8) as FieldFormat['width'];
+  if (kind === 'f') return width === 4 ? { width, encoding: 'float32' } : null;
+  return { width, encoding: kind === 's' ? 'signed' : 'unsigned' };
+};
+
+export const readField = (bytes: ArrayLike<number>, offset: number, format: FieldFormat, bigEndian: boolean): number => {
+  if (format.encoding === 'float32') {
+    const view = new DataView(new ArrayBuffer(4));
+    for (let i = 0; i < 4; i++) view.setUint8(i, bytes[offset + i]);
+    return view.getFloat32(0, !bigEndian);
+  }
+  const value = readUInt(bytes, offset, format.width, bigEndian);
+  const span = Math.pow(2, format.width * 8);
+  return format.encoding === 'signed' && value >= span / 2 ? value - span : value;
+};
+
+// Bytes of `value` in wire order; integers must be whole and in range
+export const writeField = (value: number, format: FieldFormat, bigEndian: boolean): number[] => {
+  let bytes: number[];
+  if (format.encoding === 'float32') {
+    const view = new DataView(new ArrayBuffer(4));
+    view.setFloat32(0, value, false);
+    bytes = [0, 1, 2, 3].map(i => view.getUint8(i));
+  } else {
+    const { min, max } = fieldRange(format);
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`${value} does not fit a ${describeFieldFormat(format)} field`);
+    }
+    let rest = value < 0 ? value + Math.pow(2, format.width * 8) : value;
+    bytes = new Array(format.width);
+    for (let i = format.width - 1; i >= 0; i--) {
+      bytes[i] = rest % 256;
+      rest = Math.floor(rest / 256);
+    }
+  }
+  return bigEndian ? bytes : bytes.reverse();
+};
+
+// Counter value as spaced hex, at least two bytes: 200 -> "00 C8"
+export const rawToHex = (raw: number): string => {
+  const hex = raw.toString(16).toUpperCase();
+  return formatHexString(hex.padStart(Math.max(4, hex.length + (hex.length % 2)), '0'));
+};
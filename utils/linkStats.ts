@@ -0,0 +1,203 @@
+import { LatencySummary, LinkStats, TrafficRate } from '../types';
+
+export const RATE_WINDOW_MS = 5000;
+const MAX_LATENCY_SAMPLES = 50_000; // Oldest samples are dropped beyond this
+
+export interface LatencyBin {
+  from: number; // ms, inclusive
+  to: number;   // ms, exclusive (last bin inclusive)
+  count: number;
+}
+
+// k-th smallest value (0-based); reorders `values` in place, linear on average
+const selectKth = (values: Float64Array, k: number): number => {
+  let lo = 0;
+  let hi = values.length - 1;
+  while (lo < hi) {
+    const pivot = values[(lo + hi) >> 1];
+    let i = lo;
+    let j = hi;
+    while (i <= j) {
+      while (values[i] < pivot) i++;
+      while (values[j] > pivot) j--;
+      if (i <= j) {
+        const t = values[i];
+        values[i++] = values[j];
+        values[j--] = t;
+      }
+    }
+    if (k <= j) hi = j;
+    else if (k >= i) lo = i;
+    else break;
+  }
+  return values[k];
+};
+
+// p95 is the nearest-rank percentile; no full sort, so it stays cheap for large sample sets
+export const summarizeLatency = (samples: ArrayLike<number>): LatencySummary | null => {
+  const count = samples.length;
+  if (count === 0) return null;
+  let min = Infinity;
+  let max = -Infinity;
+  let sum = 0;
+  for (let i = 0; i < count; i++) {
+    const v = samples[i];
+    if (v < min) min = v;
+    if (v > max) max = v;
+    sum += v;
+  }
+  const rank = Math.min(count - 1, Math.max(0, Math.ceil(0.95 * count) - 1));
+  return { count, min, avg: sum / count, max, p95: selectKth(Float64Array.from(samples), rank) };
+};
+
+// Equal-width bins from the fastest to the slowest sample
+export const latencyHistogram = (samples: number[], binCount = 20): LatencyBin[] => {
+  if (samples.length === 0) return [];
+  const min = samples.reduce((acc, v) => Math.min(acc, v), Infinity);
+  const max = samples.reduce((acc, v) => Math.max(acc, v), -Infinity);
+  const width = max > min ? (max - min) / binCount : 1;
+  const bins: LatencyBin[] = Array.from({ length: max > min ? binCount : 1 }, (_, i) => ({ from: min + i * width, to: min + (i + 1) * width, count: 0 }));
+  samples.forEach(v => bins[Math.min(bins.length - 1, Math.floor((v - min) / width))].count++);
+  return bins;
+};
+
+export interface LinkMeter {
+  noteTx(bytes: number): void;      // One request frame about to be written; starts the clock
+  cancelTx(): void;                 // The write of the last noted request failed
+  noteRxBytes(bytes: number): void; // Raw bytes read
+  noteRxFrame(): void;              // A frame that answers nothing: rejected or unsolicited
+  noteResponse(): void;             // A response frame was matched; closes the pending request
+  samples(): number[];              // Latencies, oldest first
+  stats(windowMs?: number): LinkStats; // Rates over the last `windowMs`; 0 = since reset
+  reset(): void;
+}
+
+/**
+ * Pairs each response with the request written just before it, the way the
+ * sweep engine does: one request outstanding at a time, a retry restarts
+ * the clock. Times come from performance.now() for sub-millisecond steps.
+ */
+export const createLinkMeter = (): LinkMeter => {
+  let since = Date.now();
+  let startedAt = performance.now();
+  let pendingAt: number | null = null;
+  // Latencies in a ring buffer; the summary is cached until the next sample
+  const latencies = new Float64Array(MAX_LATENCY_SAMPLES);
+  let latencyHead = 0; // Next slot to write
+  let latencyCount = 0;
+  let summary: LatencySummary | null = null;
+  let summaryStale = false;
+  let lastTx: [number, number, number] | null = null; // Rate entry of the last request, for cancelTx
+  const totals = { tx: { bytes: 0, frames: 0 }, rx: { bytes: 0, frames: 0 } };
+  // Recent activity for the live rates: [time, bytes, frames]
+  const recent: { tx: [number, number, number][]; rx: [number, number, number][] } = { tx: [], rx: [] };
+
+  const note = (dir: 'tx' | 'rx', bytes: number, frames: number, now: number) => {
+    totals[dir].bytes += bytes;
+    totals[dir].frames += frames;
+    const list = recent[dir];
+    const entry: [number, number, number] = [now, bytes, frames];
+    list.push(entry);
+    // Prune in blocks; stats() ignores anything older than its window anyway
+    if (list.length > 1024 && now - list[0][0] > RATE_WINDOW_MS) {
+      recent[dir] = list.filter(e => now - e[0] <= RATE_WINDOW_MS);
+    }
+    return entry;
+  };
+
+  const rate = (dir: 'tx' | 'rx', now: number, windowMs: number): TrafficRate => {
+    const { bytes, frames } = totals[dir];
+    if (windowMs === 0) {
+      const seconds = Math.max(1e-3, (now - startedAt) / 1000);
+      return { bytes, frames, bytesPerSec: bytes / seconds, framesPerSec: frames / seconds };
+    }
+    let windowBytes = 0;
+    let windowFrames = 0;
+    recent[dir].forEach(([t, b, f]) => {
+      if (now - t > windowMs) return;
+      windowBytes += b;
+      windowFrames += f;
+    });
+    const seconds = Math.max(1e-3, Math.min(windowMs, now - startedAt) / 1000);
+    return { bytes, frames, bytesPerSec: windowBytes / seconds, framesPerSec: windowFrames / seconds };
+  };
+
+  return {
+    noteTx(bytes) {
+      const now = performance.now();
+      lastTx = note('tx', bytes, 1, now);
+      pendingAt = now;
+    },
+
+    cancelTx() {
+      if (!lastTx) return;
+      const [, bytes, frames] = lastTx;
+      totals.tx.bytes -= bytes;
+      totals.tx.frames -= frames;
+      const i = recent.tx.lastIndexOf(lastTx);
+      if (i >= 0) recent.tx.splice(i, 1);
+      lastTx = null;
+      pendingAt = null;
+    },
+
+    noteRxBytes(bytes) {
+      note('rx', bytes, 0, performance.now());
+    },
+
+    noteRxFrame() {
+      note('rx', 0, 1, performance.now());
+    },
+
+    noteResponse() {
+      const now = performance.now();
+      note('rx', 0, 1, now);
+      if (pendingAt === null) return; // Unsolicited frame
+      latencies[latencyHead] = now - pendingAt;
+      latencyHead = (latencyHead + 1) % MAX_LATENCY_SAMPLES;
+      latencyCount = Math.min(latencyCount + 1, MAX_LATENCY_SAMPLES);
+      summaryStale = true;
+      pendingAt = null;
+    },
+
+    samples() {
+      const start = (latencyHead - latencyCount + MAX_LATENCY_SAMPLES) % MAX_LATENCY_SAMPLES;
+      return Array.from({ length: latencyCount }, (_, i) => latencies[(start + i) % MAX_LATENCY_SAMPLES]);
+    },
+
+    stats(windowMs = RATE_WINDOW_MS) {
+      const now = performance.now();
+      if (summaryStale) {
+        summary = summarizeLatency(latencies.subarray(0, latencyCount)); // Order does not matter here
+        summaryStale = false;
+      }
+      return { since, latency: summary, tx: rate('tx', now, windowMs), rx: rate('rx', now, windowMs) };
+    },
+
+    reset() {
+      since = Date.now();
+      startedAt = performance.now();
+      pendingAt = null;
+      lastTx = null;
+      latencyHead = 0;
+      latencyCount = 0;
+      summary = null;
+      summaryStale = false;
+      totals.tx = { bytes: 0, frames: 0 };
+      totals.rx = { bytes: 0, frames: 0 };
+      recent.tx = [];
+      recent.rx = [];
+    }
+  };
+};
+
+const ms = (v: number) => v.toFixed(v < 10 ? 2 : 1);
+
+export const describeLinkStats = (stats: LinkStats): string => {
+  const { latency, tx, rx } = stats;
+  const timing = latency
+    ? `latency n=${latency.count} min=${ms(latency.min)} avg=${ms(latency.avg)} max=${ms(latency.max)} p95=${ms(latency.p95)} ms`
+    : 'latency n=0';
+  const traffic = (label: string, r: TrafficRate) =>
+    `${label} ${r.bytes} B / ${r.frames} frames (${r.bytesPerSec.toFixed(1)} B/s, ${r.framesPerSec.toFixed(2)} frames/s)`;
+  return `Link statistics: ${timing}; ${traffic('TX', tx)}; ${traffic('RX', rx)}`;
+};
@@ -0,0 +1,93 @@
+import { LogRecord } from '../types';
+import { hexToUint8Array } from './hexUtils';
+import { bytesToAsciiColumn } from './textUtils';
+
+export type LogExportFormat = 'text' | 'csv' | 'jsonl' | 'hexdump';
+
+export const LOG_EXPORT_FORMATS: Record<LogExportFormat, { label: string; extension: string; mimeType: string; description: string }> = {
+  text: { label: 'Text', extension: '.txt', mimeType: 'text/plain', description: 'Text Files' },
+  csv: { label: 'CSV', extension: '.csv', mimeType: 'text/csv', description: 'CSV Files' },
+  jsonl: { label: 'JSON Lines', extension: '.jsonl', mimeType: 'application/x-ndjson', description: 'JSON Lines Files' },
+  hexdump: { label: 'Hexdump', extension: '.hex.txt', mimeType: 'text/plain', description: 'Hexdump Files' }
+};
+
+const HEXDUMP_WIDTH = 16;
+
+const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+
+// Local wall clock, as shown in the terminal
+export const formatLogTime = (time: number): string => {
+  const d = new Date(time);
+  return `${pad(d.getHours())}:${pad(d.getMinutes())}:${pad(d.getSeconds())}.${pad(d.getMilliseconds(), 3)}`;
+};
+
+// `[time] TYPE : data`; DATA lines keep the layout the sweep importer reads back
+const textLine = (r: LogRecord): string => {
+  const time = formatLogTime(r.time);
+  if (r.direction === 'data') {
+    const x = r.sweep ? `${r.sweep.x.toFixed(4)} ${r.sweep.unit}` : '';
+    return `[${time}] DATA : Freq=${x}, RxValue=${r.value === null || r.value === undefined ? 'SKIPPED' : r.value}`;
+  }
+  const port = r.port ? `[${r.port}]` : '';
+  return `[${time}] ${r.direction.toUpperCase().padEnd(5)}${port}: ${r.bytes ?? r.text ?? ''}`;
+};
+
+const csvField = (value: string | number | null | undefined): string => {
+  if (value === null || value === undefined) return '';
+  const s = String(value);
+  return /[",\n\r]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+const CSV_HEADER = 'time_iso,time_ms,port,direction,length,bytes_hex,value,sweep_raw,sweep_x,unit,pass,text';
+
+const csvLine = (r: LogRecord): string => {
+  const length = r.bytes !== undefined ? hexToUint8Array(r.bytes).length : null;
+  return [
+    new Date(r.time).toISOString(),
+    r.time,
+    r.port ?? 'main',
+    r.direction,
+    length,
+    r.bytes,
+    r.value,
+    r.sweep?.raw,
+    r.sweep?.x,
+    r.sweep?.unit,
+    r.sweep?.pass,
+    r.text
+  ].map(csvField).join(',');
+};
+
+/**
+ * `hexdump -C` style blocks, one per TX/RX record, each headed by a comment
+ * line. Offsets restart per record, the layout text2pcap and most hex
+ * tools accept; everything else becomes comment lines.
+ */
+const hexdumpBlock = (r: LogRecord): string[] => {
+  const head = `# ${new Date(r.time).toISOString()} ${r.direction.toUpperCase()}${r.port ? ` ${r.port}` : ''}`;
+  if (r.bytes === undefined) {
+    if (r.direction === 'data') return [`${head} x=${r.sweep?.x ?? ''} ${r.sweep?.unit ?? ''} value=${r.value ?? 'SKIPPED'}`];
+    return [`${head} ${r.text ?? ''}`];
+  }
+  const bytes = hexToUint8Array(r.bytes);
+  const lines = [`${head} ${bytes.length} bytes${r.sweep ? ` sweep_raw=${r.sweep.raw} pass=${r.sweep.pass}` : ''}`];
+  for (let offset = 0; offset < bytes.length; offset += HEXDUMP_WIDTH) {
+    const row = bytes.subarray(offset, offset + HEXDUMP_WIDTH);
+    const hex = Array.from(row, b => b.toString(16).toUpperCase().padStart(2, '0')).join(' ');
+    lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(HEXDUMP_WIDTH * 3 - 1)}  |${bytesToAsciiColumn(row)}|`);
+  }
+  return lines;
+};
+
+export const serializeLogRecords = (records: LogRecord[], format: LogExportFormat): string => {
+  switch (format) {
+    case 'text':
+      return records.map(textLine).join('\n');
+    case 'csv':
+      return [CSV_HEADER, ...records.map(csvLine)].join('\n');
+    case 'jsonl':
+      return records.map(r => JSON.stringify({ ...r, iso: new Date(r.time).toISOString() })).join('\n');
+    case 'hexdump':
+      return records.flatMap(hexdumpBlock).join('\n');
+  }
+};
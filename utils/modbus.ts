@@ -0,0 +1,174 @@
+import { crc16Modbus } from './checksum';
+
+export type ModbusFunction = 0x01 | 0x03 | 0x04 | 0x06 | 0x10;
+
+export const MODBUS_FUNCTIONS: Record<ModbusFunction, string> = {
+  0x01: 'Read Coils',
+  0x03: 'Read Holding Registers',
+  0x04: 'Read Input Registers',
+  0x06: 'Write Single Register',
+  0x10: 'Write Multiple Registers'
+};
+
+export const MODBUS_EXCEPTIONS: Record<number, string> = {
+  0x01: 'Illegal Function',
+  0x02: 'Illegal Data Address',
+  0x03: 'Illegal Data Value',
+  0x04: 'Slave Device Failure',
+  0x05: 'Acknowledge',
+  0x06: 'Slave Device Busy',
+  0x08: 'Memory Parity Error',
+  0x0A: 'Gateway Path Unavailable',
+  0x0B: 'Gateway Target Failed to Respond'
+};
+
+export interface ModbusRequest {
+  slaveId: number;
+  fn: ModbusFunction;
+  address: number;
+  quantity: number;  // Reads: registers/coils to read
+  values: number[];  // Writes: register values (0x06 uses the first one)
+}
+
+export type ModbusResponse =
+  | { kind: 'registers'; slaveId: number; fn: ModbusFunction; registers: number[] }
+  | { kind: 'coils'; slaveId: number; fn: ModbusFunction; coils: boolean[] }
+  | { kind: 'write-ack'; slaveId: number; fn: ModbusFunction; address: number; value: number }
+  | { kind: 'exception'; slaveId: number; fn: ModbusFunction; code: number };
+
+export type ModbusParseResult =
+  | { status: 'incomplete'; offset: number }
+  | { status: 'ok'; offset: number; length: number; response: ModbusResponse }
+  | { status: 'crc-error'; offset: number; length: number };
+
+export const isModbusRead = (fn: ModbusFunction): boolean => fn === 0x01 || fn === 0x03 || fn === 0x04;
+
+const withCrc = (pdu: number[]): Uint8Array => {
+  const crc = crc16Modbus(pdu);
+  return new Uint8Array([...pdu, crc & 0xFF, (crc >> 8) & 0xFF]); // CRC is sent low byte first
+};
+
+export const buildModbusRequest = (req: ModbusRequest): Uint8Array => {
+  const { slaveId, fn, address } = req;
+  const addrHi = (address >> 8) & 0xFF;
+  const addrLo = address & 0xFF;
+
+  switch (fn) {
+    case 0x01:
+    case 0x03:
+    case 0x04:
+      return withCrc([slaveId, fn, addrHi, addrLo, (req.quantity >> 8) & 0xFF, req.quantity & 0xFF]);
+    case 0x06: {
+      const value = req.values[0] ?? 0;
+      return withCrc([slaveId, fn, addrHi, addrLo, (value >> 8) & 0xFF, value & 0xFF]);
+    }
+    case 0x10: {
+      const data = req.values.flatMap(v => [(v >> 8) & 0xFF, v & 0xFF]);
+      const count = req.values.length;
+      return withCrc([slaveId, fn, addrHi, addrLo, (count >> 8) & 0xFF, count & 0xFF, data.length, ...data]);
+    }
+  }
+};
+
+const crcMatches = (frame: Uint8Array): boolean => {
+  const crc = crc16Modbus(frame.subarray(0, frame.length - 2));
+  return frame[frame.length - 2] === (crc & 0xFF) && frame[frame.length - 1] === ((crc >> 8) & 0xFF);
+};
+
+// Inverse of buildModbusRequest, used to re-associate responses during replay
+export const parseModbusRequest = (frame: Uint8Array): ModbusRequest | null => {
+  if (frame.length < 8 || !crcMatches(frame)) return null;
+  const fn = frame[1] as ModbusFunction;
+  if (!(fn in MODBUS_FUNCTIONS)) return null;
+
+  const address = (frame[2] << 8) | frame[3];
+  const word = (frame[4] << 8) | frame[5];
+  if (isModbusRead(fn)) return { slaveId: frame[0], fn, address, quantity: word, values: [] };
+  if (fn === 0x06) return { slaveId: frame[0], fn, address, quantity: 1, values: [word] };
+
+  const values: number[] = [];
+  for (let i = 0; i < word && 8 + i * 2 < frame.length - 2; i++) {
+    values.push((frame[7 + i * 2] << 8) | frame[8 + i * 2]);
+  }
+  return { slaveId: frame[0], fn, address, quantity: word, values };
+};
+
+/**
+ * Looks for the response to `req` in `buffer`. RTU has no delimiters, so the
+ * frame is located by slave id and function code and sized from the request.
+ */
+export const parseModbusResponse = (buffer: Uint8Array, req: ModbusRequest): ModbusParseResult => {
+  let offset = 0;
+  while (offset + 1 < buffer.length) {
+    const fnByte = buffer[offset + 1];
+    if (buffer[offset] === req.slaveId && (fnByte === req.fn || fnByte === (req.fn | 0x80))) break;
+    offset++;
+  }
+  if (offset + 1 >= buffer.length) return { status: 'incomplete', offset };
+
+  const isException = (buffer[offset + 1] & 0x80) !== 0;
+  let length: number;
+  if (isException) {
+    length = 5;
+  } else if (isModbusRead(req.fn)) {
+    if (offset + 2 >= buffer.length) return { status: 'incomplete', offset };
+    length = 3 + buffer[offset + 2] + 2;
+  } else {
+    length = 8;
+  }
+  if (offset + length > buffer.length) return { status: 'incomplete', offset };
+
+  const frame = buffer.subarray(offset, offset + length);
+  if (!crcMatches(frame)) return { status: 'crc-error', offset, length };
+
+  const base = { slaveId: req.slaveId, fn: req.fn };
+  if (isException) {
+    return { status: 'ok', offset, length, response: { kind: 'exception', ...base, code: frame[2] } };
+  }
+
+  if (req.fn === 0x01) {
+    const coils: boolean[] = [];
+    for (let i = 0; i < req.quantity; i++) {
+      coils.push(((frame[3 + (i >> 3)] >> (i & 7)) & 1) === 1);
+    }
+    return { status: 'ok', offset, length, response: { kind: 'coils', ...base, coils } };
+  }
+
+  if (isModbusRead(req.fn)) {
+    const registers: number[] = [];
+    for (let i = 0; i + 1 < frame[2]; i += 2) {
+      registers.push((frame[3 + i] << 8) | frame[4 + i]);
+    }
+    return { status: 'ok', offset, length, response: { kind: 'registers', ...base, registers } };
+  }
+
+  return {
+    status: 'ok',
+    offset,
+    length,
+    response: { kind: 'write-ack', ...base, address: (frame[2] << 8) | frame[3], value: (frame[4] << 8) | frame[5] }
+  };
+};
+
+const hex4 = (v: number) => `0x${v.toString(16).toUpperCase().padStart(4, '0')}`;
+
+export const describeModbusRequest = (req: ModbusRequest): string => {
+  const target = `slave ${req.slaveId} ${MODBUS_FUNCTIONS[req.fn]} @${hex4(req.address)}`;
+  if (isModbusRead(req.fn)) return `${target} x${req.quantity}`;
+  if (req.fn === 0x06) return `${target} = ${req.values[0] ?? 0}`;
+  return `${target} = [${req.values.join(', ')}]`;
+};
+
+export const describeModbusResponse = (res: ModbusResponse): string => {
+  const head = `MODBUS slave ${res.slaveId} FC${res.fn.toString(16).toUpperCase().padStart(2, '0')}`;
+  switch (res.kind) {
+    case 'exception':
+      return `${head} EXCEPTION 0x${res.code.toString(16).toUpperCase().padStart(2, '0')} (${MODBUS_EXCEPTIONS[res.code] ?? 'Unknown'})`;
+    case 'registers':
+      return `${head} registers: [${res.registers.map(r => `${r} (${hex4(r)})`).join(', ')}]`;
+    case 'coils':
+      return `${head} coils: [${res.coils.map(c => (c ? 1 : 0)).join(' ')}]`;
+    case 'write-ack':
+      return `${head} write OK @${hex4(res.address)} (${res.fn === 0x06 ? 'value' : 'count'} ${res.value})`;
+  }
+};
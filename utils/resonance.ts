@@ -0,0 +1,256 @@
+import { ChartDataPoint } from '../types';
+
+export interface ResonanceOptions {
+  levelDb: number;       // Bandwidth edges sit this far below the peak (3 = -3 dB)
+  powerData: boolean;    // Values are power (10·log) rather than amplitude (20·log)
+  minProminence: number; // Percent of the data's value span a peak must stand out by
+  fitLorentzian: boolean;
+}
+
+export const DEFAULT_RESONANCE_OPTIONS: ResonanceOptions = {
+  levelDb: 3,
+  powerData: false,
+  minProminence: 10,
+  fitLorentzian: true
+};
+
+export interface ResonancePeak {
+  x: number;          // Interpolated peak position
+  y: number;          // Interpolated peak value
+  prominence: number;
+  bandwidth: { low: number; high: number; width: number } | null; // null = edge not inside the data
+  q: number | null;
+}
+
+// y = baseline + amplitude / (1 + ((x - center) / halfWidth)^2)
+export interface LorentzianFit {
+  center: number;
+  halfWidth: number;
+  amplitude: number;
+  baseline: number;
+  q: number;     // center / FWHM
+  rms: number;   // Residual RMS over the fitted points
+  curve: ChartDataPoint[];
+}
+
+export interface ResonanceAnalysis {
+  peaks: ResonancePeak[]; // Highest first
+  fit: LorentzianFit | null;
+}
+
+const FIT_CURVE_POINTS = 200;
+const FIT_ITERATIONS = 100;
+
+// Measured points in X order; repeated X values (multi-pass sweeps) are averaged
+const prepare = (data: ChartDataPoint[]): { x: number[]; y: number[] } => {
+  const sums = new Map<number, { sum: number; n: number }>();
+  data.forEach(p => {
+    if (p.y === null || !isFinite(p.y)) return;
+    const entry = sums.get(p.x) ?? { sum: 0, n: 0 };
+    entry.sum += p.y;
+    entry.n++;
+    sums.set(p.x, entry);
+  });
+  const xs = Array.from(sums.keys()).sort((a, b) => a - b);
+  return { x: xs, y: xs.map(x => sums.get(x)!.sum / sums.get(x)!.n) };
+};
+
+// Vertex of the parabola through three points, if it is a maximum between them
+const parabolicPeak = (x: number[], y: number[], i: number): { x: number; y: number } => {
+  if (i === 0 || i === x.length - 1) return { x: x[i], y: y[i] };
+  const [x0, x1, x2] = [x[i - 1], x[i], x[i + 1]];
+  const [y0, y1, y2] = [y[i - 1], y[i], y[i + 1]];
+  const denom = (x0 - x1) * (x0 - x2) * (x1 - x2);
+  const a = (x2 * (y1 - y0) + x1 * (y0 - y2) + x0 * (y2 - y1)) / denom;
+  const b = (x2 * x2 * (y0 - y1) + x1 * x1 * (y2 - y0) + x0 * x0 * (y1 - y2)) / denom;
+  const c = (x1 * x2 * (x1 - x2) * y0 + x2 * x0 * (x2 - x0) * y1 + x0 * x1 * (x0 - x1) * y2) / denom;
+  if (!(a < 0)) return { x: x1, y: y1 };
+  const xv = -b / (2 * a);
+  if (xv < x0 || xv > x2) return { x: x1, y: y1 };
+  return { x: xv, y: c - (b * b) / (4 * a) };
+};
+
+// Topographic prominence and the index range down to the higher of the two bases
+const prominenceOf = (y: number[], i: number): { prominence: number; left: number; right: number } => {
+  let leftMin = y[i];
+  let left = i;
+  for (let j = i - 1; j >= 0 && y[j] <= y[i]; j--) {
+    if (y[j] < leftMin) {
+      leftMin = y[j];
+      left = j;
+    }
+  }
+  let rightMin = y[i];
+  let right = i;
+  for (let j = i + 1; j < y.length && y[j] <= y[i]; j++) {
+    if (y[j] < rightMin) {
+      rightMin = y[j];
+      right = j;
+    }
+  }
+  return { prominence: y[i] - Math.max(leftMin, rightMin), left, right };
+};
+
+// X where the data crosses `level`, walking outwards from the peak
+const crossing = (x: number[], y: number[], from: number, level: number, dir: -1 | 1): number | null => {
+  for (let j = from; j + dir >= 0 && j + dir < x.length; j += dir) {
+    const k = j + dir;
+    if (y[k] < level) return x[j] + ((level - y[j]) * (x[k] - x[j])) / (y[k] - y[j]);
+  }
+  return null;
+};
+
+const lorentzian = (x: number, [center, halfWidth, amplitude, baseline]: number[]) => {
+  const d = (x - center) / halfWidth;
+  return baseline + amplitude / (1 + d * d);
+};
+
+// Solves A·v = b in place (Gaussian elimination, partial pivoting); null if singular
+const solve = (a: number[][], b: number[]): number[] | null => {
+  const n = b.length;
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(a[r][col]) > Math.abs(a[pivot][col])) pivot = r;
+    if (Math.abs(a[pivot][col]) < 1e-300) return null;
+    [a[col], a[pivot]] = [a[pivot], a[col]];
+    [b[col], b[pivot]] = [b[pivot], b[col]];
+    for (let r = col + 1; r < n; r++) {
+      const f = a[r][col] / a[col][col];
+      for (let c = col; c < n; c++) a[r][c] -= f * a[col][c];
+      b[r] -= f * b[col];
+    }
+  }
+  const v = new Array(n).fill(0);
+  for (let r = n - 1; r >= 0; r--) {
+    let sum = b[r];
+    for (let c = r + 1; c < n; c++) sum -= a[r][c] * v[c];
+    v[r] = sum / a[r][r];
+  }
+  return v;
+};
+
+/**
+ * Levenberg-Marquardt fit of a Lorentzian to the points, starting from the
+ * peak analysis. Returns null when the fit does not converge to a peak.
+ */
+export const fitLorentzian = (x: number[], y: number[], guess: number[]): LorentzianFit | null => {
+  if (x.length < 5) return null;
+  const sse = (p: number[]) => x.reduce((s, xi, i) => s + (y[i] - lorentzian(xi, p)) ** 2, 0);
+
+  let params = guess.slice();
+  let error = sse(params);
+  let lambda = 1e-3;
+
+  for (let iter = 0; iter < FIT_ITERATIONS; iter++) {
+    const [center, halfWidth, amplitude] = params;
+    const jtj = [0, 1, 2, 3].map(() => [0, 0, 0, 0]);
+    const jtr = [0, 0, 0, 0];
+    x.forEach((xi, i) => {
+      const d = (xi - center) / halfWidth;
+      const den = 1 + d * d;
+      // Partial derivatives by center, halfWidth, amplitude, baseline
+      const grad = [
+        (2 * amplitude * d) / (halfWidth * den * den),
+        (2 * amplitude * d * d) / (halfWidth * den * den),
+        1 / den,
+        1
+      ];
+      const r = y[i] - lorentzian(xi, params);
+      for (let a = 0; a < 4; a++) {
+        jtr[a] += grad[a] * r;
+        for (let b = 0; b < 4; b++) jtj[a][b] += grad[a] * grad[b];
+      }
+    });
+
+    const damped = jtj.map((row, a) => row.map((v, b) => (a === b ? v * (1 + lambda) : v)));
+    const delta = solve(damped, jtr.slice());
+    if (!delta) break;
+    const next = params.map((p, a) => p + delta[a]);
+    next[1] = Math.abs(next[1]);
+    const nextError = sse(next);
+
+    if (nextError < error) {
+      const improvement = (error - nextError) / Math.max(error, 1e-300);
+      params = next;
+      error = nextError;
+      lambda = Math.max(lambda / 10, 1e-12);
+      if (improvement < 1e-10) break;
+    } else {
+      lambda *= 10;
+      if (lambda > 1e12) break;
+    }
+  }
+
+  const [center, halfWidth, amplitude, baseline] = params;
+  if (!(amplitude > 0) || !(halfWidth > 0) || center < x[0] || center > x[x.length - 1]) return null;
+
+  const lo = x[0];
+  const hi = x[x.length - 1];
+  const curve = Array.from({ length: FIT_CURVE_POINTS }, (_, i) => {
+    const xi = lo + ((hi - lo) * i) / (FIT_CURVE_POINTS - 1);
+    return { x: xi, y: lorentzian(xi, params) };
+  });
+  return {
+    center,
+    halfWidth,
+    amplitude,
+    baseline,
+    q: center / (2 * halfWidth),
+    rms: Math.sqrt(error / x.length),
+    curve
+  };
+};
+
+export const analyzeResonance = (data: ChartDataPoint[], options: ResonanceOptions): ResonanceAnalysis => {
+  const { x, y } = prepare(data);
+  if (x.length < 3) return { peaks: [], fit: null };
+
+  // reduce, not spread: long sweeps exceed the argument limit
+  const span = y.reduce((m, v) => Math.max(m, v), -Infinity) - y.reduce((m, v) => Math.min(m, v), Infinity);
+  const threshold = (span * options.minProminence) / 100;
+  const levelFactor = Math.pow(10, -options.levelDb / (options.powerData ? 10 : 20));
+
+  const candidates: (ResonancePeak & { index: number; left: number; right: number })[] = [];
+  for (let i = 0; i < y.length; i++) {
+    // Local maximum; the first sample of a plateau stands for all of it
+    if (i > 0 && y[i - 1] >= y[i]) continue;
+    let end = i;
+    while (end + 1 < y.length && y[end + 1] === y[i]) end++;
+    if (end + 1 < y.length && y[end + 1] > y[i]) continue;
+
+    const { prominence, left, right } = prominenceOf(y, i);
+    if (span === 0 || prominence < threshold) continue;
+
+    const peak = parabolicPeak(x, y, i);
+    const level = peak.y * levelFactor;
+    const low = crossing(x, y, i, level, -1);
+    const high = crossing(x, y, end, level, 1);
+    const bandwidth = low !== null && high !== null ? { low, high, width: high - low } : null;
+    candidates.push({
+      ...peak,
+      prominence,
+      bandwidth,
+      q: bandwidth && bandwidth.width > 0 ? peak.x / bandwidth.width : null,
+      index: i,
+      left,
+      right
+    });
+  }
+  candidates.sort((a, b) => b.y - a.y);
+
+  let fit: LorentzianFit | null = null;
+  const main = candidates[0];
+  if (options.fitLorentzian && main) {
+    // Fit the main peak between its bases so neighbouring peaks do not pull it
+    const xs = x.slice(main.left, main.right + 1);
+    const ys = y.slice(main.left, main.right + 1);
+    const baseline = ys.reduce((m, v) => Math.min(m, v), Infinity);
+    const halfWidth = main.bandwidth ? main.bandwidth.width / 2 : (xs[xs.length - 1] - xs[0]) / 4;
+    fit = fitLorentzian(xs, ys, [main.x, Math.max(halfWidth, 1e-12), main.y - baseline, baseline]);
+  }
+
+  return {
+    peaks: candidates.map(({ index, left, right, ...peak }) => peak),
+    fit
+  };
+};
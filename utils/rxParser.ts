@@ -0,0 +1,75 @@
+import { DeviceSettings, FrameRejectReason } from '../types';
+import { CompiledFrameDefinition, compileFrameDefinition, scanFrame } from './frameParser';
+import { readField } from './hexUtils';
+
+export type RxParserSettings = Pick<DeviceSettings, 'frameDef' | 'strictValidation' | 'rxByteIndex' | 'rxFormat' | 'rxBigEndian'>;
+
+// `framed` = matched the frame definition; otherwise read at rxByteIndex (may be NaN for floats)
+export type RxParseEvent =
+  | { kind: 'value'; value: number; bytes: Uint8Array; framed: boolean }
+  | { kind: 'rejected'; reason: FrameRejectReason; bytes: Uint8Array; value?: number };
+
+export interface RxParser {
+  push(chunk: Uint8Array): RxParseEvent[];
+  reset(): void; // Drops buffered bytes, e.g. between sweep points
+}
+
+/**
+ * Reassembles RX chunks into values. With strict validation the buffer is
+ * scanned for frames matching the definition; otherwise each response is
+ * read at `rxByteIndex` once enough bytes arrived. Shared by the app and the
+ * headless runner, so both accept exactly the same frames. Pass `compiled`
+ * when the frame definition was already compiled; compiling throws on
+ * header or footer hex that is not whole bytes.
+ */
+export const createRxParser = (
+  settings: RxParserSettings,
+  compiled: CompiledFrameDefinition = compileFrameDefinition(settings.frameDef)
+): RxParser => {
+  let buffer = new Uint8Array(0);
+
+  const scanFrames = (): RxParseEvent[] => {
+    const events: RxParseEvent[] = [];
+    let ptr = 0;
+    while (ptr < buffer.length) {
+      const result = scanFrame(buffer, ptr, compiled, settings.rxBigEndian);
+      if (result.kind === 'frame') {
+        events.push({ kind: 'value', value: result.value, bytes: buffer.slice(result.offset, result.offset + result.length), framed: true });
+        ptr = result.offset + result.length;
+        continue;
+      }
+      if (result.kind === 'rejected') {
+        const bytes = buffer.slice(result.offset, Math.min(buffer.length, result.offset + result.span));
+        events.push({ kind: 'rejected', reason: result.reason, bytes, ...(result.value !== undefined ? { value: result.value } : {}) });
+        ptr = result.offset + result.length;
+        continue;
+      }
+      // Incomplete frame or no header: wait for more data
+      ptr = result.offset;
+      break;
+    }
+    if (ptr > 0) buffer = buffer.slice(ptr);
+    return events;
+  };
+
+  return {
+    push(chunk) {
+      const merged = new Uint8Array(buffer.length + chunk.length);
+      merged.set(buffer);
+      merged.set(chunk, buffer.length);
+      buffer = merged;
+
+      if (settings.strictValidation) return scanFrames();
+
+      const { rxByteIndex, rxFormat } = settings;
+      if (buffer.length < rxByteIndex + rxFormat.width) return [];
+      const bytes = buffer;
+      buffer = new Uint8Array(0);
+      return [{ kind: 'value', value: readField(bytes, rxByteIndex, rxFormat, settings.rxBigEndian), bytes, framed: false }];
+    },
+
+    reset() {
+      buffer = new Uint8Array(0);
+    }
+  };
+};
@@ -0,0 +1,171 @@
+import { Sequence, SequenceStep, SequenceStepKind, SequenceResult } from '../types';
+import { cleanHexString } from './hexUtils';
+
+export const SEQUENCE_STORAGE_KEY = 'hexserial.sequence';
+
+export interface SequenceFile {
+  format: 'hexserial-sequence';
+  version: 1;
+  sequence: Sequence;
+}
+
+export const SEQUENCE_STEP_KINDS: Record<SequenceStepKind, string> = {
+  send: 'Send',
+  wait: 'Wait',
+  expect: 'Expect',
+  capture: 'Capture',
+  loop: 'Loop',
+  branch: 'Branch'
+};
+
+export const createSequenceStep = (kind: SequenceStepKind): SequenceStep => {
+  const id = crypto.randomUUID();
+  switch (kind) {
+    case 'send':
+      return { id, kind, mode: 'hex', payload: '' };
+    case 'wait':
+      return { id, kind, ms: 100 };
+    case 'expect':
+      return { id, kind, pattern: '', mask: '', timeoutMs: 1000, onFail: 'abort' };
+    case 'capture':
+      return { id, kind, variable: 'value', offset: 0, width: 2, bigEndian: true };
+    case 'loop':
+      return { id, kind, target: '', count: 3 };
+    case 'branch':
+      return { id, kind, when: 'failed', variable: '', op: '==', value: 0, target: '' };
+  }
+};
+
+export const EMPTY_SEQUENCE: Sequence = { name: 'Untitled Sequence', steps: [] };
+
+export interface BytePattern {
+  value: number[];
+  mask: number[];
+}
+
+/**
+ * Compiles an expect pattern. Pattern bytes may be "??" (any byte) or use "?"
+ * for a single nibble, e.g. "01 03 ?? 0?"; an optional mask ("FF FF 00 0F")
+ * is ANDed on top.
+ */
+export const compilePattern = (pattern: string, mask = ''): BytePattern => {
+  const tokens = pattern.trim().split(/\s+/).filter(Boolean).flatMap(t => t.match(/.{1,2}/g) ?? []);
+  if (tokens.length === 0) throw new Error('Pattern is empty');
+
+  const value: number[] = [];
+  const patternMask: number[] = [];
+  for (const token of tokens) {
+    if (!/^[0-9A-Fa-f?]{2}$/.test(token)) throw new Error(`Bad pattern byte "${token}"`);
+    value.push(parseInt(token.replace(/\?/g, '0'), 16));
+    patternMask.push((token[0] === '?' ? 0 : 0xF0) | (token[1] === '?' ? 0 : 0x0F));
+  }
+
+  const maskHex = cleanHexString(mask);
+  if (maskHex) {
+    if (maskHex.length !== tokens.length * 2) throw new Error('Mask length must match the pattern');
+    for (let i = 0; i < tokens.length; i++) {
+      patternMask[i] &= parseInt(maskHex.slice(i * 2, i * 2 + 2), 16);
+    }
+  }
+  return { value, mask: patternMask };
+};
+
+// Offset of the first match in `buffer`, or -1
+export const findPattern = (buffer: Uint8Array, pattern: BytePattern): number => {
+  const { value, mask } = pattern;
+  outer: for (let i = 0; i + value.length <= buffer.length; i++) {
+    for (let j = 0; j < value.length; j++) {
+      if ((buffer[i + j] & mask[j]) !== (value[j] & mask[j])) continue outer;
+    }
+    return i;
+  }
+  return -1;
+};
+
+// First problem that would stop the sequence from running, or null
+export const validateSequence = (sequence: Sequence): string | null => {
+  const labels = new Set<string>();
+  for (const step of sequence.steps) {
+    if (!step.label) continue;
+    if (labels.has(step.label)) return `Duplicate label "${step.label}"`;
+    labels.add(step.label);
+  }
+
+  for (let i = 0; i < sequence.steps.length; i++) {
+    const step = sequence.steps[i];
+    const where = `Step ${i + 1}`;
+    switch (step.kind) {
+      case 'send':
+        if (!step.payload.trim()) return `${where}: payload is empty`;
+        if (step.mode === 'hex' && cleanHexString(step.payload).length % 2 !== 0) return `${where}: odd number of hex digits`;
+        break;
+      case 'expect':
+        try {
+          compilePattern(step.pattern, step.mask);
+        } catch (e: any) {
+          return `${where}: ${e.message}`;
+        }
+        if (step.onFail === 'goto' && !labels.has(step.failTarget ?? '')) return `${where}: unknown label "${step.failTarget ?? ''}"`;
+        break;
+      case 'capture':
+        if (!/^\w+$/.test(step.variable)) return `${where}: variable names use letters, digits and _`;
+        break;
+      case 'loop':
+        if (!labels.has(step.target)) return `${where}: unknown label "${step.target}"`;
+        if (step.count < 1) return `${where}: count must be at least 1`;
+        break;
+      case 'branch':
+        if (!labels.has(step.target)) return `${where}: unknown label "${step.target}"`;
+        if (step.when === 'compare' && !step.variable) return `${where}: no variable to compare`;
+        break;
+    }
+  }
+  return null;
+};
+
+export const serializeSequence = (sequence: Sequence): string => {
+  const file: SequenceFile = { format: 'hexserial-sequence', version: 1, sequence };
+  return JSON.stringify(file, null, 2);
+};
+
+export const parseSequence = (text: string): Sequence => {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Not a JSON file');
+  }
+  const sequence = data?.format === 'hexserial-sequence' ? data.sequence : data;
+  if (typeof sequence?.name !== 'string' || !Array.isArray(sequence.steps)) throw new Error('Not a sequence file');
+
+  const steps = sequence.steps.map((step: any, i: number) => {
+    if (!step || !(step.kind in SEQUENCE_STEP_KINDS)) throw new Error(`Step ${i + 1} has an unknown kind`);
+    // Fill fields older files may lack from the step defaults
+    return { ...createSequenceStep(step.kind), ...step, id: typeof step.id === 'string' ? step.id : crypto.randomUUID() };
+  });
+  return { name: sequence.name, steps };
+};
+
+export const loadStoredSequence = (): Sequence => {
+  try {
+    const stored = localStorage.getItem(SEQUENCE_STORAGE_KEY);
+    return stored ? parseSequence(stored) : EMPTY_SEQUENCE;
+  } catch {
+    return EMPTY_SEQUENCE;
+  }
+};
+
+export const storeSequence = (sequence: Sequence) => {
+  try {
+    localStorage.setItem(SEQUENCE_STORAGE_KEY, serializeSequence(sequence));
+  } catch {
+    // Storage full or disabled; the sequence still lives for this session
+  }
+};
+
+export const describeSequenceResult = (name: string, result: SequenceResult): string => {
+  const vars = Object.entries(result.variables).map(([k, v]) => `${k}=${v}`).join(', ');
+  return `Sequence "${name}" ${result.outcome.toUpperCase()}: ${result.stepsExecuted} steps, ${result.failures} failure(s), ${(result.durationMs / 1000).toFixed(2)} s`
+    + (vars ? `; ${vars}` : '')
+    + (result.error ? ` (${result.error})` : '');
+};
@@ -0,0 +1,356 @@
+import { ChartDataPoint, FrequencyMapping, SweepPlanConfig, SweepStats, SweepTrace, SweepTraceConfig } from '../types';
+import { DEFAULT_FIELD_FORMAT, FIELD_ENCODINGS, describeFieldFormat, parseFieldFormat } from './hexUtils';
+import { validateFrequencyMapping } from './frequencyMapping';
+import { LorentzianFit, ResonanceOptions, ResonancePeak, analyzeResonance } from './resonance';
+
+export type SweepExportFormat = 'csv' | 'json';
+
+export interface SweepExport {
+  format: 'hexserial-sweep';
+  version: 1;
+  name: string;
+  startedAt: string;
+  durationMs: number;
+  partial: boolean;
+  stats: SweepStats;
+  config: SweepTraceConfig | null;
+  points: ChartDataPoint[];
+  analysis?: SweepAnalysisExport; // Present when exported with the analysis panel open
+}
+
+// Resonance results as exported; the fit curve is left out, the parameters reproduce it
+export interface SweepAnalysisExport {
+  options: ResonanceOptions;
+  peaks: ResonancePeak[];
+  fit: Omit<LorentzianFit, 'curve'> | null;
+}
+
+const buildAnalysisExport = (points: ChartDataPoint[], options: ResonanceOptions): SweepAnalysisExport => {
+  const { peaks, fit } = analyzeResonance(points, options);
+  if (!fit) return { options, peaks, fit: null };
+  const { curve, ...params } = fit;
+  return { options, peaks, fit: params };
+};
+
+export const buildSweepExport = (trace: SweepTrace, analysis: ResonanceOptions | null = null): SweepExport => ({
+  format: 'hexserial-sweep',
+  version: 1,
+  name: trace.name,
+  startedAt: trace.createdAt,
+  durationMs: trace.durationMs,
+  partial: trace.partial,
+  stats: trace.stats,
+  config: trace.config,
+  points: trace.data,
+  analysis: analysis ? buildAnalysisExport(trace.data, analysis) : undefined
+});
+
+// CSV header keys, in file order
+const csvMeta = (exp: SweepExport): [string, string | number | boolean][] => {
+  const rows: [string, string | number | boolean][] = [
+    ['name', exp.name],
+    ['started_at', exp.startedAt],
+    ['duration_ms', exp.durationMs],
+    ['partial', exp.partial],
+    ['tx', exp.stats.tx],
+    ['rx', exp.stats.rx],
+    ['invalid', exp.stats.invalid]
+  ];
+  const c = exp.config;
+  if (c) {
+    rows.push(
+      ['baud_rate', c.serial.baudRate],
+      ['data_bits', c.serial.dataBits],
+      ['stop_bits', c.serial.stopBits],
+      ['parity', c.serial.parity],
+      ['sweep_base', c.sweepBaseHex],
+      ['range_start', c.rangeStartHex],
+      ['range_end', c.rangeEndHex],
+      ['step', c.incrementStep],
+      ['tx_byte_index', c.targetByteIndex],
+      ['tx_endian', c.txBigEndian ? 'big' : 'little'],
+      ['rx_byte_index', c.rxByteIndex],
+      ['rx_endian', c.rxBigEndian ? 'big' : 'little'],
+      ['tx_field', describeFieldFormat(c.txFormat ?? DEFAULT_FIELD_FORMAT)],
+      ['rx_field', describeFieldFormat(c.rxFormat ?? DEFAULT_FIELD_FORMAT)],
+      ['strict_validation', c.strictValidation],
+      ['rx_label', c.rxLabel]
+    );
+    if (c.mapping) {
+      rows.push(
+        ['ref_clock', c.mapping.refClock],
+        ['resolution_bits', c.mapping.resolutionBits],
+        ['x_offset', c.mapping.offset],
+        ['x_unit', c.mapping.unit]
+      );
+    }
+    if (c.plan) {
+      rows.push(
+        ['sweep_spacing', c.plan.spacing],
+        ['sweep_direction', c.plan.direction],
+        ['sweep_repeats', c.plan.repeats],
+        ['sweep_log_points', c.plan.logPoints]
+      );
+    }
+  }
+
+  const a = exp.analysis;
+  if (a) {
+    rows.push(['analysis_level_db', a.options.levelDb], ['analysis_min_prominence_pct', a.options.minProminence]);
+    a.peaks.forEach((p, i) => {
+      const key = `peak_${i + 1}`;
+      rows.push([`${key}_x`, p.x], [`${key}_value`, p.y], [`${key}_prominence`, p.prominence]);
+      if (p.bandwidth) rows.push([`${key}_bandwidth`, p.bandwidth.width]);
+      if (p.q !== null) rows.push([`${key}_q`, p.q]);
+    });
+    if (a.fit) {
+      rows.push(
+        ['fit_center', a.fit.center],
+        ['fit_fwhm', 2 * a.fit.halfWidth],
+        ['fit_amplitude', a.fit.amplitude],
+        ['fit_baseline', a.fit.baseline],
+        ['fit_q', a.fit.q],
+        ['fit_rms', a.fit.rms]
+      );
+    }
+  }
+  return rows;
+};
+
+export const serializeSweepExport = (exp: SweepExport, format: SweepExportFormat): string => {
+  if (format === 'json') return JSON.stringify(exp, null, 2);
+
+  const lines = ['# HexSerial Viz sweep export v1'];
+  csvMeta(exp).forEach(([k, v]) => lines.push(`# ${k}: ${v}`));
+  const xColumn = `freq_${(exp.config?.mapping?.unit ?? 'kHz').toLowerCase().replace(/\W+/g, '') || 'x'}`;
+  // The pass column only appears for hysteresis / repeated sweeps
+  if (exp.points.some(p => (p.pass ?? 0) > 0)) {
+    lines.push(`${xColumn},value,pass`);
+    exp.points.forEach(p => lines.push(`${p.x},${p.y ?? ''},${p.pass ?? 0}`));
+  } else {
+    lines.push(`${xColumn},value`);
+    exp.points.forEach(p => lines.push(`${p.x},${p.y ?? ''}`));
+  }
+  return lines.join('\n');
+};
+
+const configFromCsvMeta = (meta: Record<string, string>): SweepTraceConfig | null => {
+  if (meta['range_start'] === undefined) return null;
+  const num = (key: string, fallback = 0) => {
+    const v = Number(meta[key]);
+    return isNaN(v) ? fallback : v;
+  };
+  return {
+    serial: {
+      baudRate: num('baud_rate', 115200),
+      dataBits: num('data_bits', 8),
+      stopBits: num('stop_bits', 1),
+      parity: (meta['parity'] as SweepTraceConfig['serial']['parity']) || 'none'
+    },
+    sweepBaseHex: meta['sweep_base'] ?? '',
+    rangeStartHex: meta['range_start'] ?? '',
+    rangeEndHex: meta['range_end'] ?? '',
+    incrementStep: num('step', 1),
+    targetByteIndex: num('tx_byte_index'),
+    txBigEndian: meta['tx_endian'] !== 'little',
+    rxByteIndex: num('rx_byte_index'),
+    rxBigEndian: meta['rx_endian'] !== 'little',
+    txFormat: parseFieldFormat(meta['tx_field'] ?? '') ?? undefined,
+    rxFormat: parseFieldFormat(meta['rx_field'] ?? '') ?? undefined,
+    strictValidation: meta['strict_validation'] === 'true',
+    rxLabel: meta['rx_label'] ?? '',
+    mapping: meta['ref_clock'] === undefined ? undefined : {
+      refClock: num('ref_clock', 32000),
+      resolutionBits: num('resolution_bits', 16),
+      offset: num('x_offset'),
+      unit: meta['x_unit'] || 'kHz'
+    },
+    plan: meta['sweep_spacing'] === undefined ? undefined : {
+      spacing: meta['sweep_spacing'] as SweepPlanConfig['spacing'],
+      direction: (meta['sweep_direction'] as SweepPlanConfig['direction']) || 'up',
+      repeats: num('sweep_repeats', 1),
+      logPoints: num('sweep_log_points', 50),
+      pointList: '', // Not exported; the points themselves are the data
+      listUnit: 'raw'
+    }
+  };
+};
+
+const parseCsv = (text: string, fileName: string): SweepExport => {
+  const meta: Record<string, string> = {};
+  const points: ChartDataPoint[] = [];
+
+  text.split(/\r?\n/).forEach(raw => {
+    const line = raw.trim();
+    if (!line) return;
+    if (line.startsWith('#')) {
+      const m = line.match(/^#\s*([\w]+):\s?(.*)$/);
+      if (m) meta[m[1]] = m[2];
+      return;
+    }
+    const [xs, ys, ps] = line.split(/[,;\t]/);
+    const x = Number(xs);
+    if (xs === undefined || xs.trim() === '' || isNaN(x)) return; // Column header or junk
+    const y = ys === undefined || ys.trim() === '' ? null : Number(ys);
+    const point: ChartDataPoint = { x, y: y === null || isNaN(y) ? null : y };
+    const pass = ps === undefined ? NaN : Number(ps);
+    if (pass > 0) point.pass = pass;
+    points.push(point);
+  });
+
+  if (points.length === 0) throw new Error('No data points found');
+
+  return {
+    format: 'hexserial-sweep',
+    version: 1,
+    name: meta['name'] || fileName,
+    startedAt: meta['started_at'] ?? '',
+    durationMs: Number(meta['duration_ms']) || 0,
+    partial: meta['partial'] === 'true',
+    stats: {
+      tx: Number(meta['tx']) || 0,
+      rx: Number(meta['rx']) || points.filter(p => p.y !== null).length,
+      invalid: Number(meta['invalid']) || 0
+    },
+    config: configFromCsvMeta(meta),
+    points
+  };
+};
+
+const LEGACY_DATA = /DATA\s*:\s*Freq=([-\d.]+)\s*[^,]*,\s*RxValue=(\S+)/;
+
+// Old `serial_logs.txt` exports: one trace per "Starting Sweep" section
+const parseLegacyLog = (text: string, fileName: string): SweepExport[] => {
+  const sweeps: { points: ChartDataPoint[]; tx: number }[] = [];
+  let current: { points: ChartDataPoint[]; tx: number } | null = null;
+
+  text.split(/\r?\n/).forEach(line => {
+    if (line.includes('Starting Sweep')) {
+      current = { points: [], tx: 0 };
+      sweeps.push(current);
+      return;
+    }
+    if (!current) {
+      current = { points: [], tx: 0 };
+      sweeps.push(current);
+    }
+    if (/\]\s*TX\s*:/.test(line)) {
+      current.tx++;
+      return;
+    }
+    const m = line.match(LEGACY_DATA);
+    if (m) {
+      const y = Number(m[2]);
+      current.points.push({ x: Number(m[1]), y: isNaN(y) ? null : y });
+    }
+  });
+
+  const withData = sweeps.filter(s => s.points.length > 0);
+  return withData.map((s, i) => ({
+    format: 'hexserial-sweep',
+    version: 1,
+    name: withData.length > 1 ? `${fileName} #${i + 1}` : fileName,
+    startedAt: '',
+    durationMs: 0,
+    partial: false,
+    stats: { tx: s.tx, rx: s.points.filter(p => p.y !== null).length, invalid: 0 },
+    config: null,
+    points: s.points
+  }));
+};
+
+const isObject = (v: unknown): v is Record<string, unknown> => !!v && typeof v === 'object' && !Array.isArray(v);
+const isNumber = (v: unknown): v is number => typeof v === 'number' && Number.isFinite(v);
+const isOneOf = (v: unknown, allowed: readonly unknown[]) => allowed.includes(v);
+
+const isFieldFormat = (v: unknown) =>
+  isObject(v) && isOneOf(v.width, [1, 2, 3, 4]) && typeof v.encoding === 'string' && v.encoding in FIELD_ENCODINGS;
+
+// Why a JSON `config` cannot describe the sweep, or null; optional parts are checked when present
+const jsonConfigError = (c: Record<string, unknown>): string | null => {
+  const { serial, mapping, plan, modbus } = c;
+  if (!isObject(serial) || !isNumber(serial.baudRate) || !isNumber(serial.dataBits) || !isNumber(serial.stopBits)
+    || !isOneOf(serial.parity, ['none', 'even', 'odd'])) return 'serial settings';
+  const strings = ['sweepBaseHex', 'rangeStartHex', 'rangeEndHex', 'rxLabel'].find(k => typeof c[k] !== 'string');
+  if (strings) return strings;
+  const numbers = ['incrementStep', 'targetByteIndex', 'rxByteIndex'].find(k => !isNumber(c[k]));
+  if (numbers) return numbers;
+  const flags = ['txBigEndian', 'rxBigEndian', 'strictValidation'].find(k => typeof c[k] !== 'boolean');
+  if (flags) return flags;
+  if (c.txFormat !== undefined && !isFieldFormat(c.txFormat)) return 'txFormat';
+  if (c.rxFormat !== undefined && !isFieldFormat(c.rxFormat)) return 'rxFormat';
+  if (mapping !== undefined && !(isObject(mapping) && isNumber(mapping.refClock) && isNumber(mapping.resolutionBits)
+    && isNumber(mapping.offset) && typeof mapping.unit === 'string'
+    && !validateFrequencyMapping(mapping as unknown as FrequencyMapping))) return 'mapping';
+  if (plan !== undefined && !(isObject(plan) && isOneOf(plan.spacing, ['linear', 'log', 'list']) && isOneOf(plan.direction, ['up', 'down', 'updown'])
+    && isNumber(plan.repeats) && isNumber(plan.logPoints) && typeof plan.pointList === 'string' && isOneOf(plan.listUnit, ['raw', 'unit']))) return 'plan';
+  if (modbus !== undefined && !(isObject(modbus) && isNumber(modbus.slaveId) && isNumber(modbus.writeAddress)
+    && isNumber(modbus.readAddress) && isOneOf(modbus.readFunction, [0x03, 0x04]))) return 'modbus';
+  return null;
+};
+
+// One entry of a JSON export, checked so a hand-edited or foreign file cannot leave NaN or odd shapes in the chart
+const parseJsonSweep = (item: unknown, label: string, fallbackName: string): SweepExport => {
+  if (!isObject(item)) throw new Error(`${label} is not an object`);
+  if (!Array.isArray(item.points)) throw new Error(`${label} has no "points" array`);
+
+  const points = item.points.map((p: unknown, i): ChartDataPoint => {
+    if (!isObject(p) || !isNumber(p.x)) throw new Error(`${label}: point ${i + 1} has no numeric x`);
+    if (p.y !== null && p.y !== undefined && !isNumber(p.y)) throw new Error(`${label}: point ${i + 1} has a non-numeric y`);
+    if (p.pass !== undefined && !(Number.isInteger(p.pass) && (p.pass as number) >= 0)) throw new Error(`${label}: point ${i + 1} has an invalid pass`);
+    return { x: p.x, y: isNumber(p.y) ? p.y : null, ...(p.pass ? { pass: p.pass as number } : {}) };
+  });
+
+  let config: SweepTraceConfig | null = null;
+  if (item.config !== undefined && item.config !== null) {
+    const configError = isObject(item.config) ? jsonConfigError(item.config) : 'structure';
+    if (configError) throw new Error(`${label}: config has an invalid ${configError}`);
+    config = item.config as unknown as SweepTraceConfig;
+  }
+
+  const { stats } = item;
+  return {
+    format: 'hexserial-sweep',
+    version: 1,
+    name: typeof item.name === 'string' && item.name ? item.name : fallbackName,
+    startedAt: typeof item.startedAt === 'string' ? item.startedAt : '',
+    durationMs: isNumber(item.durationMs) ? item.durationMs : 0,
+    partial: item.partial === true,
+    stats: isObject(stats) && isNumber(stats.tx) && isNumber(stats.rx) && isNumber(stats.invalid)
+      ? { tx: stats.tx, rx: stats.rx, invalid: stats.invalid }
+      : { tx: 0, rx: points.filter(p => p.y !== null).length, invalid: 0 },
+    config,
+    points
+  };
+};
+
+/**
+ * Reads a sweep export (JSON or CSV) or a legacy log export. Log files may
+ * hold several sweeps, so the result is always a list.
+ */
+export const parseSweepFile = (text: string, fileName: string): SweepExport[] => {
+  const trimmed = text.trim();
+
+  // Log lines also start with '[', so look for log data before trying JSON arrays
+  if (LEGACY_DATA.test(trimmed) && !trimmed.startsWith('{')) {
+    const sweeps = parseLegacyLog(trimmed, fileName);
+    if (sweeps.length === 0) throw new Error('No sweep data found in log');
+    return sweeps;
+  }
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(trimmed);
+    } catch {
+      throw new Error('Not a valid JSON file');
+    }
+    const list: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+    if (list.length === 0) throw new Error('JSON file holds no sweeps');
+    return list.map((item, i) => list.length > 1
+      ? parseJsonSweep(item, `Sweep ${i + 1}`, `${fileName} #${i + 1}`)
+      : parseJsonSweep(item, 'JSON file', fileName));
+  }
+
+  return [parseCsv(trimmed, fileName)];
+};
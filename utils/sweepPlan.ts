@@ -0,0 +1,100 @@
+import { SweepPlanConfig, SweepDirection } from '../types';
+
+export const DEFAULT_SWEEP_PLAN: SweepPlanConfig = {
+  spacing: 'linear',
+  direction: 'up',
+  repeats: 1,
+  logPoints: 50,
+  pointList: '',
+  listUnit: 'raw'
+};
+
+export const MAX_SWEEP_POINTS = 200000;
+
+export interface SweepSchedule {
+  points: number[];     // Raw counter values in send order
+  passStarts: number[]; // Index of the first point of every pass
+  passLabels: string[]; // e.g. "Pass 1 ↑"
+}
+
+const DIRECTION_ARROWS = { up: '↑', down: '↓' };
+
+// Every `step` from start up to end (inclusive)
+export const buildLinearPoints = (start: number, end: number, step: number): number[] => {
+  const points: number[] = [];
+  if (isNaN(start) || isNaN(end) || step <= 0 || start > end) return points;
+  for (let v = start; v <= end; v += step) points.push(v);
+  return points;
+};
+
+// Log spacing between start and end (inclusive); duplicates from rounding are dropped
+export const buildLogPoints = (start: number, end: number, count: number): number[] => {
+  if (isNaN(start) || isNaN(end) || count < 1 || start > end) return [];
+  const lo = Math.max(1, start);
+  if (count === 1 || lo >= end) return [Math.round(lo)];
+
+  const ratio = Math.pow(end / lo, 1 / (count - 1));
+  const points: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const v = Math.round(i === count - 1 ? end : lo * Math.pow(ratio, i));
+    if (points[points.length - 1] !== v) points.push(v);
+  }
+  return points;
+};
+
+/**
+ * Reads a pasted column or row of values. Cells may be separated by newlines,
+ * tabs, commas or semicolons; "0x" marks hex. Returns the first bad cell as
+ * an error instead of silently skipping it.
+ */
+export const parsePointList = (text: string, toRaw: (value: number) => number = v => v): { points: number[]; error: string | null } => {
+  const cells = text.split(/[\s,;]+/).map(c => c.trim()).filter(Boolean);
+  const points: number[] = [];
+  for (const cell of cells) {
+    const value = /^0x[0-9a-f]+$/i.test(cell) ? parseInt(cell.slice(2), 16) : Number(cell);
+    if (!isFinite(value)) return { points, error: `"${cell}" is not a number` };
+    const raw = Math.round(toRaw(value));
+    if (raw < 0) return { points, error: `"${cell}" is negative` };
+    points.push(raw);
+  }
+  return { points, error: null };
+};
+
+const applyDirection = (base: number[], direction: SweepDirection): number[][] => {
+  const reversed = base.slice().reverse();
+  if (direction === 'up') return [base];
+  if (direction === 'down') return [reversed];
+  // Up then down; the turnaround point is measured once
+  return [base, reversed.slice(1)];
+};
+
+export const buildSweepSchedule = (base: number[], plan: Pick<SweepPlanConfig, 'direction' | 'repeats'>): SweepSchedule => {
+  const legs = applyDirection(base, plan.direction);
+  const legArrows = plan.direction === 'down' ? [DIRECTION_ARROWS.down] : [DIRECTION_ARROWS.up, DIRECTION_ARROWS.down];
+  const points: number[] = [];
+  const passStarts: number[] = [];
+  const passLabels: string[] = [];
+
+  for (let r = 0; r < Math.max(1, plan.repeats); r++) {
+    legs.forEach((leg, i) => {
+      if (leg.length === 0) return;
+      passStarts.push(points.length);
+      passLabels.push(`Pass ${passLabels.length + 1} ${legArrows[i]}`);
+      for (const v of leg) points.push(v); // A spread overflows the call stack on long legs
+    });
+  }
+  return { points, passStarts, passLabels };
+};
+
+// Pass number of the point at `index`
+export const passOfIndex = (schedule: Pick<SweepSchedule, 'passStarts'>, index: number): number => {
+  let pass = 0;
+  while (pass + 1 < schedule.passStarts.length && schedule.passStarts[pass + 1] <= index) pass++;
+  return pass;
+};
+
+export const describeSweepPlan = (plan: SweepPlanConfig): string => {
+  const spacing = plan.spacing === 'log' ? `log ${plan.logPoints} pts` : plan.spacing;
+  const direction = plan.direction === 'updown' ? 'up+down' : plan.direction;
+  return `${spacing}, ${direction}${plan.repeats > 1 ? `, x${plan.repeats}` : ''}`;
+};
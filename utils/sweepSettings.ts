@@ -0,0 +1,96 @@
+import { DeviceSettings, FieldFormat, SweepTraceConfig } from '../types';
+import { describeFieldFormat, fieldRange } from './hexUtils';
+import { xToRaw } from './frequencyMapping';
+import { SweepSchedule, MAX_SWEEP_POINTS, buildLinearPoints, buildLogPoints, parsePointList, buildSweepSchedule } from './sweepPlan';
+import { buildSweepFrame } from './frameBuilder';
+import { validateFrameDefinition } from './frameParser';
+
+// Sweep setup derived from device settings, shared by the app and the headless runner
+
+export const buildScheduleFromSettings = (
+  settings: Pick<DeviceSettings, 'rangeStartHex' | 'rangeEndHex' | 'incrementStep' | 'sweepPlan' | 'freqMapping'>
+): { schedule: SweepSchedule; error: string | null } => {
+  const { rangeStartHex, rangeEndHex, incrementStep, sweepPlan, freqMapping } = settings;
+  const start = parseInt(rangeStartHex.replace(/[^0-9A-Fa-f]/g, ''), 16);
+  const end = parseInt(rangeEndHex.replace(/[^0-9A-Fa-f]/g, ''), 16);
+  let base: number[];
+  let error: string | null = null;
+
+  if (sweepPlan.spacing === 'list') {
+    const parsed = parsePointList(sweepPlan.pointList, sweepPlan.listUnit === 'unit' ? (x => xToRaw(freqMapping, x)) : undefined);
+    base = parsed.points;
+    error = parsed.error ?? (base.length === 0 ? 'Point list is empty' : null);
+  } else if (sweepPlan.spacing === 'log') {
+    base = buildLogPoints(start, end, sweepPlan.logPoints);
+  } else {
+    // Guard the step so a typo cannot build millions of points
+    base = incrementStep > 0 && (end - start) / incrementStep < MAX_SWEEP_POINTS ? buildLinearPoints(start, end, incrementStep) : [];
+  }
+
+  // Refuse an oversized list or repeat count before building the schedule
+  const perRepeat = sweepPlan.direction === 'updown' ? 2 * base.length - 1 : base.length;
+  if (base.length > MAX_SWEEP_POINTS || perRepeat * Math.max(1, sweepPlan.repeats) > MAX_SWEEP_POINTS) {
+    return { schedule: buildSweepSchedule([], sweepPlan), error: error ?? `More than ${MAX_SWEEP_POINTS} points` };
+  }
+  return { schedule: buildSweepSchedule(base, sweepPlan), error };
+};
+
+// Whether every point of the schedule fits the TX frame (or Modbus register),
+// and strict validation has a usable frame definition to parse replies with
+export const checkSweepFrames = (
+  settings: Pick<DeviceSettings, 'sweepBaseHex' | 'targetByteIndex' | 'txBigEndian' | 'txFormat' | 'modbus' | 'strictValidation' | 'frameDef'>,
+  schedule: SweepSchedule,
+  startIndex = 0
+): string | null => {
+  const maxDec = schedule.points.reduce((m, v) => Math.max(m, v), 0);
+  if (settings.modbus.enabled) return maxDec > 0xFFFF ? 'Modbus sweep values must fit a 16-bit register' : null;
+  if (settings.strictValidation) {
+    const frameError = validateFrameDefinition(settings.frameDef);
+    if (frameError) return `Frame definition: ${frameError}`;
+  }
+  try {
+    buildSweepFrame(settings.sweepBaseHex, settings.targetByteIndex, settings.txBigEndian, schedule.points[startIndex], settings.txFormat);
+  } catch (e: any) {
+    return e.message || 'Invalid Hex or Config';
+  }
+  if (maxDec > fieldRange(settings.txFormat).max) return `Sweep values must fit the ${describeFieldFormat(settings.txFormat)} TX field`;
+  return null;
+};
+
+// Strict mode reads the value field the frame definition describes
+export const rxValueFormat = (settings: Pick<DeviceSettings, 'strictValidation' | 'frameDef' | 'rxFormat'>): FieldFormat =>
+  settings.strictValidation
+    ? { width: settings.frameDef.valueWidth, encoding: settings.frameDef.valueEncoding ?? 'unsigned' }
+    : settings.rxFormat;
+
+export const describeRxSource = (settings: DeviceSettings): string => {
+  const { modbus, frameDef, rxByteIndex, rxFormat, rxBigEndian } = settings;
+  const order = rxBigEndian ? 'High First' : 'Low First';
+  if (modbus.enabled) {
+    return `Modbus Slave ${modbus.sweep.slaveId}, ${modbus.sweep.readFunction === 0x04 ? 'Input' : 'Holding'} Reg. ${modbus.sweep.readAddress}`;
+  }
+  if (settings.strictValidation) {
+    return `Strict Packet (Bytes ${frameDef.valueOffset}-${frameDef.valueOffset + frameDef.valueWidth - 1}, ${describeFieldFormat(rxValueFormat(settings))}, ${order})`;
+  }
+  return `Received (Bytes ${rxByteIndex}-${rxByteIndex + rxFormat.width - 1}, ${describeFieldFormat(rxFormat)}, ${order})`;
+};
+
+// Metadata stored with a sweep trace
+export const sweepTraceConfig = (settings: DeviceSettings): SweepTraceConfig => ({
+  serial: settings.serial,
+  sweepBaseHex: settings.sweepBaseHex,
+  rangeStartHex: settings.rangeStartHex,
+  rangeEndHex: settings.rangeEndHex,
+  incrementStep: settings.incrementStep,
+  targetByteIndex: settings.targetByteIndex,
+  txBigEndian: settings.txBigEndian,
+  rxByteIndex: settings.strictValidation ? settings.frameDef.valueOffset : settings.rxByteIndex,
+  rxBigEndian: settings.rxBigEndian,
+  txFormat: settings.txFormat,
+  rxFormat: rxValueFormat(settings),
+  strictValidation: settings.strictValidation,
+  rxLabel: describeRxSource(settings),
+  modbus: settings.modbus.enabled ? settings.modbus.sweep : undefined,
+  plan: settings.sweepPlan,
+  mapping: settings.freqMapping
+});
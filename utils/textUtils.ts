@@ -0,0 +1,139 @@
+import { LineEnding } from '../types';
+
+export const LINE_ENDINGS: Record<LineEnding, { label: string; bytes: number[] }> = {
+  none: { label: 'None', bytes: [] },
+  cr: { label: 'CR (\\r)', bytes: [0x0D] },
+  lf: { label: 'LF (\\n)', bytes: [0x0A] },
+  crlf: { label: 'CR+LF', bytes: [0x0D, 0x0A] }
+};
+
+const SIMPLE_ESCAPES: Record<string, number> = {
+  r: 0x0D,
+  n: 0x0A,
+  t: 0x09,
+  '0': 0x00,
+  '\\': 0x5C
+};
+
+/**
+ * Turns text with C-style escapes (\r, \n, \t, \0, \\, \xNN) into bytes.
+ * Other characters are UTF-8 encoded; unknown escapes are kept literally.
+ */
+export const unescapeText = (text: string): Uint8Array => {
+  const encoder = new TextEncoder();
+  const out: number[] = [];
+  let literal = '';
+
+  const flushLiteral = () => {
+    if (literal) out.push(...encoder.encode(literal));
+    literal = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch !== '\\' || i + 1 >= text.length) {
+      literal += ch;
+      continue;
+    }
+
+    const next = text[i + 1];
+    if (next in SIMPLE_ESCAPES) {
+      flushLiteral();
+      out.push(SIMPLE_ESCAPES[next]);
+      i++;
+    } else if (next === 'x' && /^[0-9A-Fa-f]{2}$/.test(text.slice(i + 2, i + 4))) {
+      flushLiteral();
+      out.push(parseInt(text.slice(i + 2, i + 4), 16));
+      i += 3;
+    } else {
+      literal += ch;
+    }
+  }
+  flushLiteral();
+  return new Uint8Array(out);
+};
+
+export const encodeText = (text: string, lineEnding: LineEnding): Uint8Array => {
+  const body = unescapeText(text);
+  const ending = LINE_ENDINGS[lineEnding].bytes;
+  const out = new Uint8Array(body.length + ending.length);
+  out.set(body);
+  out.set(ending, body.length);
+  return out;
+};
+
+const isPrintable = (b: number) => b >= 0x20 && b <= 0x7E;
+
+// Readable rendering: control bytes shown as escapes, e.g. "OK\r\n"
+export const bytesToEscapedText = (bytes: Uint8Array): string => {
+  let out = '';
+  for (const b of bytes) {
+    if (b === 0x5C) out += '\\\\';
+    else if (isPrintable(b)) out += String.fromCharCode(b);
+    else if (b === 0x0D) out += '\\r';
+    else if (b === 0x0A) out += '\\n';
+    else if (b === 0x09) out += '\\t';
+    else out += `\\x${b.toString(16).toUpperCase().padStart(2, '0')}`;
+  }
+  return out;
+};
+
+// Hexdump-style rendering: one character per byte, '.' for non-printables
+export const bytesToAsciiColumn = (bytes: Uint8Array): string =>
+  Array.from(bytes, b => (isPrintable(b) ? String.fromCharCode(b) : '.')).join('');
+
+export interface LineSplitter {
+  push(chunk: Uint8Array): Uint8Array[]; // Completed lines, delimiter included
+  flush(): Uint8Array | null;            // Whatever is pending, if anything
+}
+
+/**
+ * Re-chunks a byte stream into lines ending in `delimiter`. Lines longer than
+ * `maxLength` are cut so a missing delimiter cannot grow the buffer forever.
+ */
+export const createLineSplitter = (delimiter: Uint8Array, maxLength = 4096): LineSplitter => {
+  let pending = new Uint8Array(0);
+
+  const indexOfDelimiter = (from: number): number => {
+    outer: for (let i = Math.max(0, from); i + delimiter.length <= pending.length; i++) {
+      for (let j = 0; j < delimiter.length; j++) {
+        if (pending[i + j] !== delimiter[j]) continue outer;
+      }
+      return i;
+    }
+    return -1;
+  };
+
+  return {
+    push(chunk) {
+      const scanFrom = pending.length - delimiter.length + 1;
+      const merged = new Uint8Array(pending.length + chunk.length);
+      merged.set(pending);
+      merged.set(chunk, pending.length);
+      pending = merged;
+
+      const lines: Uint8Array[] = [];
+      if (delimiter.length === 0) return lines;
+
+      let idx = indexOfDelimiter(scanFrom);
+      while (idx !== -1) {
+        const end = idx + delimiter.length;
+        lines.push(pending.slice(0, end));
+        pending = pending.slice(end);
+        idx = indexOfDelimiter(0);
+      }
+      while (pending.length > maxLength) {
+        lines.push(pending.slice(0, maxLength));
+        pending = pending.slice(maxLength);
+      }
+      return lines;
+    },
+
+    flush() {
+      if (pending.length === 0) return null;
+      const rest = pending;
+      pending = new Uint8Array(0);
+      return rest;
+    }
+  };
+};
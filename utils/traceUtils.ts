@@ -0,0 +1,59 @@
+import { ChartDataPoint } from '../types';
+
+export const TRACE_COLORS = ['#60a5fa', '#f472b6', '#facc15', '#a78bfa', '#fb923c', '#22d3ee', '#f87171', '#a3e635'];
+
+export const nextTraceColor = (index: number): string => TRACE_COLORS[index % TRACE_COLORS.length];
+
+export const measuredSorted = (points: ChartDataPoint[]): { x: number; y: number }[] =>
+  points
+    .filter((p): p is { x: number; y: number } => p.y !== null)
+    .sort((a, b) => a.x - b.x);
+
+// Linear interpolation of y at x; null outside the measured range
+export const interpolateAt = (sorted: { x: number; y: number }[], x: number): number | null => {
+  if (sorted.length === 0 || x < sorted[0].x || x > sorted[sorted.length - 1].x) return null;
+  let lo = 0;
+  let hi = sorted.length - 1;
+  while (hi - lo > 1) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid].x <= x) lo = mid;
+    else hi = mid;
+  }
+  const a = sorted[lo];
+  const b = sorted[hi];
+  if (b.x === a.x) return a.y;
+  return a.y + ((b.y - a.y) * (x - a.x)) / (b.x - a.x);
+};
+
+// A - B evaluated at A's x positions, B interpolated where the grids differ
+export const diffTraces = (a: ChartDataPoint[], b: ChartDataPoint[]): ChartDataPoint[] => {
+  const sortedB = measuredSorted(b);
+  return measuredSorted(a).map(p => {
+    const yb = interpolateAt(sortedB, p.x);
+    return { x: p.x, y: yb === null ? null : Number((p.y - yb).toFixed(4)) };
+  });
+};
+
+export type YScaleMode = 'linear' | 'log' | 'db';
+
+// Value as plotted: log axes drop non-positive values, dB is 20·log10(|y|)
+export const scaleY = (y: number, mode: YScaleMode): number | null => {
+  if (mode === 'linear') return y;
+  if (mode === 'log') return y > 0 ? y : null;
+  return y !== 0 ? 20 * Math.log10(Math.abs(y)) : null;
+};
+
+export const scalePoints = (points: ChartDataPoint[], mode: YScaleMode): ChartDataPoint[] =>
+  mode === 'linear' ? points : points.map(p => ({ ...p, y: p.y === null ? null : scaleY(p.y, mode) }));
+
+// [min, max] of the measured values inside [x0, x1], or null when there are none
+export const valueExtent = (series: ChartDataPoint[][], x0: number, x1: number): [number, number] | null => {
+  let min = Infinity;
+  let max = -Infinity;
+  series.forEach(points => points.forEach(p => {
+    if (p.y === null || p.x < x0 || p.x > x1) return;
+    if (p.y < min) min = p.y;
+    if (p.y > max) max = p.y;
+  }));
+  return min <= max ? [min, max] : null;
+};
@@ -0,0 +1,24 @@
+import path from 'path';
+import { defineConfig } from 'vite';
+
+// Headless sweep runner: the CLI entry bundled with the shared parser and
+// engine modules into one Node script
+export default defineConfig({
+  build: {
+    ssr: 'cli/sweep.ts',
+    outDir: 'dist-cli',
+    target: 'node18',
+    emptyOutDir: true,
+    rollupOptions: {
+      output: {
+        entryFileNames: 'hexserial-sweep.mjs',
+        banner: '#!/usr/bin/env node'
+      }
+    }
+  },
+  resolve: {
+    alias: {
+      '@': path.resolve(__dirname, '.'),
+    }
+  }
+});